@@ -5,7 +5,9 @@
 
 import * as core from '@actions/core';
 
+import type { CompressionSettings, CompressionStats } from './compression';
 import { formatTimeBetween } from './date-utils';
+import type { PendingImageSave, ServiceOutcome } from './docker-compose-service-processing';
 import { formatFileSize } from './file-utils';
 
 /**
@@ -14,9 +16,36 @@ import { formatFileSize } from './file-utils';
 const IMAGE_PROCESSING_STATUS = {
   CACHED: 'Cached',
   PULLED: 'Pulled',
+  REFRESHED: 'Refreshed',
+  MISSED: 'Missed',
+  SAVED: 'Saved',
+  NOT_PRESENT: 'Not Present',
+  PRESENT: 'Present',
+  WOULD_HIT: 'Would Hit',
+  WOULD_MISS: 'Would Miss',
   ERROR: 'Error',
 } as const;
 
+/**
+ * Status value for image processing operations.
+ */
+type ImageProcessingStatus = (typeof IMAGE_PROCESSING_STATUS)[keyof typeof IMAGE_PROCESSING_STATUS];
+
+/**
+ * Status labels shown in the action summary table.
+ */
+const IMAGE_PROCESSING_STATUS_LABELS: Readonly<Record<Exclude<ImageProcessingStatus, 'Error'>, string>> = {
+  Cached: '✅ Cached',
+  Pulled: '⬇️ Pulled',
+  Refreshed: '🔄 Refreshed',
+  Missed: '⚪ Missed',
+  Saved: '💾 Saved',
+  'Not Present': '⏭️ Not Present',
+  Present: '🖥️ Present',
+  'Would Hit': '🎯 Would Hit',
+  'Would Miss': '⚪ Would Miss',
+};
+
 /**
  * Default values for platform-related components.
  */
@@ -54,6 +83,7 @@ export type ActionSummary = {
   readonly allServicesSuccessful: boolean;
   readonly allServicesFromCache: boolean;
   readonly executionTimeMs: number;
+  readonly compressionStats?: CompressionStats | undefined;
 };
 
 /**
@@ -63,16 +93,82 @@ export type ActionSummary = {
 export type TimedServiceResult = {
   readonly success: boolean;
   readonly restoredFromCache: boolean;
+  readonly outcome?: ServiceOutcome | undefined;
   readonly imageName: string;
   readonly cacheKey: string;
   readonly digest?: string | undefined;
   readonly platform?: string | undefined;
   readonly error?: string | undefined;
   readonly imageSize?: number | undefined;
+  readonly compressionStats?: CompressionStats | undefined;
+  readonly sourceFile?: string | undefined;
+  readonly pendingSave?: PendingImageSave | undefined;
   readonly processingDuration: number;
   readonly humanReadableDuration: string;
 };
 
+/**
+ * Determines the status of a processed service.
+ * Explicit outcomes take precedence over the cache and success flags.
+ *
+ * @param serviceResult - Service processing result
+ * @returns Status of the service
+ */
+function getImageProcessingStatus(serviceResult: TimedServiceResult): ImageProcessingStatus {
+  if (!serviceResult.success) {
+    return IMAGE_PROCESSING_STATUS.ERROR;
+  }
+  switch (serviceResult.outcome) {
+    case 'cache-miss':
+      return IMAGE_PROCESSING_STATUS.MISSED;
+    case 'saved':
+      return IMAGE_PROCESSING_STATUS.SAVED;
+    case 'not-present':
+      return IMAGE_PROCESSING_STATUS.NOT_PRESENT;
+    case 'present':
+      return IMAGE_PROCESSING_STATUS.PRESENT;
+    case 'refreshed':
+      return IMAGE_PROCESSING_STATUS.REFRESHED;
+    case 'would-hit':
+      return IMAGE_PROCESSING_STATUS.WOULD_HIT;
+    case 'would-miss':
+      return IMAGE_PROCESSING_STATUS.WOULD_MISS;
+    default:
+      return serviceResult.restoredFromCache ? IMAGE_PROCESSING_STATUS.CACHED : IMAGE_PROCESSING_STATUS.PULLED;
+  }
+}
+
+/**
+ * Formats the status of a processed service for the action summary table.
+ *
+ * @param serviceResult - Service processing result
+ * @returns Status label with an icon, including the error message for failed services
+ */
+function formatStatusLabel(serviceResult: TimedServiceResult): string {
+  const status = getImageProcessingStatus(serviceResult);
+  return status === IMAGE_PROCESSING_STATUS.ERROR
+    ? `❌ Error: ${serviceResult.error || 'Unknown'}`
+    : IMAGE_PROCESSING_STATUS_LABELS[status];
+}
+
+/**
+ * Formats the compressed and raw size of the tar files saved during the run for the action summary table.
+ *
+ * @param compressionStats - Total sizes of the saved tar files before and after compression
+ * @param compression - Codec and compression level the tar files were compressed with
+ * @returns Compressed size alongside the raw size and the compression ratio
+ */
+function formatCompressionStats(compressionStats: CompressionStats, compression: CompressionSettings): string {
+  const compressedPercentage =
+    compressionStats.rawSize > 0
+      ? ((compressionStats.compressedSize / compressionStats.rawSize) * 100).toFixed(1)
+      : '0';
+  return (
+    `${formatFileSize(compressionStats.compressedSize)} compressed from ${formatFileSize(compressionStats.rawSize)} raw ` +
+    `(${compressedPercentage}%, ${compression.algorithm} level ${compression.level})`
+  );
+}
+
 /**
  * Sets the standard output values for the action.
  * Ensures consistent output formats and proper type handling for GitHub Actions outputs.
@@ -96,11 +192,7 @@ export function buildProcessedImageList(serviceResults: readonly TimedServiceRes
   return serviceResults.map((result) => ({
     name: result.imageName,
     platform: result.platform || DEFAULT_PLATFORM_VALUES.PLATFORM,
-    status: result.restoredFromCache
-      ? IMAGE_PROCESSING_STATUS.CACHED
-      : result.success
-        ? IMAGE_PROCESSING_STATUS.PULLED
-        : IMAGE_PROCESSING_STATUS.ERROR,
+    status: getImageProcessingStatus(result),
     size: result.imageSize || 0,
     digest: result.digest || '',
     processingTimeMs: result.processingDuration || 0,
@@ -108,9 +200,23 @@ export function buildProcessedImageList(serviceResults: readonly TimedServiceRes
   }));
 }
 
+/**
+ * Checks whether an image was served from cache rather than pulled, saved or missed.
+ * In lookup-only mode, images whose cache entry exists count as served from cache.
+ * Images already present locally do not count, since nothing was restored for them.
+ *
+ * @param serviceResult - Result of processing the image
+ * @returns True if the image was served from cache
+ */
+export function isServedFromCache(serviceResult: Pick<TimedServiceResult, 'restoredFromCache' | 'outcome'>): boolean {
+  return serviceResult.restoredFromCache || serviceResult.outcome === 'would-hit';
+}
+
 /**
  * Calculates action summary metrics from processing results.
  * Aggregates statistics across all processed services.
+ * Services count as cached when they were served from cache, as defined by `isServedFromCache`.
+ * Compression stats are totaled over the tar files compressed during the run, if any.
  *
  * @param serviceResults - Array of service processing results
  * @param executionTimeMs - Total action execution time in milliseconds
@@ -121,9 +227,19 @@ export function calculateActionSummary(
   executionTimeMs: number
 ): ActionSummary {
   const totalServiceCount = serviceResults.length;
-  const cachedServiceCount = serviceResults.filter((result) => result.restoredFromCache).length;
+  const cachedServiceCount = serviceResults.filter(isServedFromCache).length;
   const allServicesSuccessful = serviceResults.every((result) => result.success);
   const allServicesFromCache = cachedServiceCount === totalServiceCount && totalServiceCount > 0;
+  const compressionStats = serviceResults.reduce<CompressionStats | undefined>(
+    (totalStats, result) =>
+      result.compressionStats
+        ? {
+            rawSize: (totalStats?.rawSize ?? 0) + result.compressionStats.rawSize,
+            compressedSize: (totalStats?.compressedSize ?? 0) + result.compressionStats.compressedSize,
+          }
+        : totalStats,
+    undefined
+  );
 
   return {
     totalServiceCount,
@@ -131,6 +247,7 @@ export function calculateActionSummary(
     allServicesSuccessful,
     allServicesFromCache,
     executionTimeMs,
+    compressionStats,
   };
 }
 
@@ -143,12 +260,14 @@ export function calculateActionSummary(
  * @param summary - Aggregated action summary statistics
  * @param referencedComposeFiles - List of Docker Compose files that were processed
  * @param skipLatestCheck - Whether latest version checking was disabled
+ * @param compression - Codec and compression level tar files were compressed with
  */
 export function createActionSummary(
   serviceResults: readonly TimedServiceResult[],
   summary: ActionSummary,
   referencedComposeFiles: ReadonlyArray<string>,
-  skipLatestCheck: boolean
+  skipLatestCheck: boolean,
+  compression: CompressionSettings
 ): void {
   const actionHumanReadableDuration = formatTimeBetween(0, summary.executionTimeMs);
 
@@ -158,6 +277,7 @@ export function createActionSummary(
       [
         { data: 'Image Name', header: true },
         { data: 'Platform', header: true },
+        { data: 'Source', header: true },
         { data: 'Status', header: true },
         { data: 'Size', header: true },
         { data: 'Processing Time', header: true },
@@ -166,13 +286,8 @@ export function createActionSummary(
       ...serviceResults.map((result) => [
         { data: result.imageName },
         { data: result.platform || DEFAULT_PLATFORM_VALUES.PLATFORM },
-        {
-          data: result.restoredFromCache
-            ? '✅ Cached'
-            : result.success
-              ? '⬇️ Pulled'
-              : `❌ Error: ${result.error || 'Unknown'}`,
-        },
+        { data: result.sourceFile || 'N/A' },
+        { data: formatStatusLabel(result) },
         { data: formatFileSize(result.imageSize) },
         { data: result.humanReadableDuration },
         { data: result.cacheKey || 'N/A' },
@@ -187,6 +302,9 @@ export function createActionSummary(
       [{ data: 'Total Services' }, { data: `${summary.totalServiceCount}` }],
       [{ data: 'Restored from Cache' }, { data: `${summary.cachedServiceCount}/${summary.totalServiceCount}` }],
       [{ data: 'Skip Latest Check' }, { data: skipLatestCheck ? '⏭️ Yes' : '🔍 No' }],
+      ...(summary.compressionStats
+        ? [[{ data: 'Compression' }, { data: formatCompressionStats(summary.compressionStats, compression) }]]
+        : []),
       [{ data: 'Total Execution Time' }, { data: actionHumanReadableDuration }],
     ])
     .addHeading('Referenced Compose Files', 3)
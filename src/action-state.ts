@@ -0,0 +1,86 @@
+/**
+ * @fileoverview State shared between the main and post steps of the action.
+ * Records image saves deferred by the main step so the post step can perform them after the job finishes,
+ * and temporary files the main step has not removed so the post step can remove them.
+ */
+
+import * as core from '@actions/core';
+
+import type { CommandTimeouts, ContainerRuntime } from './docker-command';
+import type { PendingImageSave } from './docker-compose-service-processing';
+import type { RetryPolicy } from './retry';
+
+/**
+ * Name of the action state entry holding deferred saves.
+ */
+const DEFERRED_SAVES_STATE_KEY = 'deferred-saves';
+
+/**
+ * Name of the action state entry holding temporary files not removed yet.
+ */
+const TEMP_FILES_STATE_KEY = 'temp-files';
+
+/**
+ * Image saves deferred to the post step, along with the settings needed to perform them.
+ */
+export type DeferredSaveState = {
+  readonly containerRuntime: ContainerRuntime;
+  readonly saveConcurrency: number;
+  readonly retryPolicy: RetryPolicy;
+  readonly commandTimeouts: CommandTimeouts;
+  readonly pendingSaves: ReadonlyArray<PendingImageSave>;
+};
+
+/**
+ * Records deferred saves in the action state for the post step.
+ *
+ * @param deferredSaveState - Deferred saves and their settings
+ */
+export function saveDeferredSaveState(deferredSaveState: DeferredSaveState): void {
+  core.saveState(DEFERRED_SAVES_STATE_KEY, JSON.stringify(deferredSaveState));
+}
+
+/**
+ * Reads deferred saves recorded by the main step.
+ *
+ * @returns Deferred saves, or undefined if none were recorded or the state cannot be parsed
+ */
+export function getDeferredSaveState(): DeferredSaveState | undefined {
+  const serializedState = core.getState(DEFERRED_SAVES_STATE_KEY);
+  if (serializedState === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(serializedState) as DeferredSaveState;
+  } catch (parseError) {
+    core.warning(`Failed to parse deferred saves state: ${parseError}`);
+    return undefined;
+  }
+}
+
+/**
+ * Records temporary files not removed yet in the action state for the post step.
+ *
+ * @param tempFilePaths - Paths of the temporary files and directories
+ */
+export function saveTempFileState(tempFilePaths: ReadonlyArray<string>): void {
+  core.saveState(TEMP_FILES_STATE_KEY, JSON.stringify(tempFilePaths));
+}
+
+/**
+ * Reads temporary files left behind by the main step.
+ *
+ * @returns Paths of the temporary files and directories, empty if none were recorded or the state cannot be parsed
+ */
+export function getTempFileState(): ReadonlyArray<string> {
+  const serializedState = core.getState(TEMP_FILES_STATE_KEY);
+  if (serializedState === '') {
+    return [];
+  }
+  try {
+    return JSON.parse(serializedState) as ReadonlyArray<string>;
+  } catch (parseError) {
+    core.warning(`Failed to parse temporary files state: ${parseError}`);
+    return [];
+  }
+}
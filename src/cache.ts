@@ -3,14 +3,26 @@
  * Handles cache key generation, file path management, and cache operations.
  */
 
+import { createHash, randomUUID } from 'node:crypto';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as cache from '@actions/cache';
 import * as core from '@actions/core';
 
+import { type CompressionAlgorithm, getCompressedArchivePath } from './compression';
 import type { DockerImageManifest } from './docker-command';
 import { sanitizePathComponent } from './file-utils';
+import { getFamiliarName, type ImageReference } from './image-reference';
 import { getCurrentPlatformInfo, parseOciPlatformString } from './oci-platform';
+import { withRetry } from './retry';
+import {
+  extractTarEntry,
+  readTarEntries,
+  readTarEntryContent,
+  type TarEntryType,
+  writeTarArchive,
+} from './tar-archive';
+import { trackTempFiles } from './temp-files';
 
 /**
  * Default temp directory fallback when RUNNER_TEMP is not available.
@@ -23,6 +35,7 @@ const DEFAULT_TEMP_DIR = '/tmp';
 const CACHE_FILE_EXTENSIONS = {
   TAR: '.tar',
   MANIFEST: '-manifest.json',
+  LAYER_INDEX: '-layers.json',
 } as const;
 
 /**
@@ -76,20 +89,18 @@ export function extractDigestPrefix(digest: string | undefined): string {
  * will be created, preventing stale cache issues.
  *
  * @param cacheKeyPrefix - Prefix for the cache key (from action input)
- * @param imageName - Docker image name (e.g., 'nginx')
- * @param imageTag - Docker image tag (e.g., 'latest')
+ * @param imageReference - Parsed image reference (e.g., for 'nginx:latest')
  * @param targetPlatformString - Optional platform string (e.g., 'linux/amd64')
  * @param digest - Optional image digest for cache key uniqueness (e.g., 'sha256:abc123...')
  * @returns Unique cache key string
  */
 export function generateCacheKey(
   cacheKeyPrefix: string,
-  imageName: string,
-  imageTag: string,
+  imageReference: ImageReference,
   targetPlatformString: string | undefined,
   digest: string | undefined
 ): string {
-  const baseKey = generateCacheKeyPrefix(cacheKeyPrefix, imageName, imageTag, targetPlatformString);
+  const baseKey = generateCacheKeyPrefix(cacheKeyPrefix, imageReference, targetPlatformString);
   const digestPrefix = extractDigestPrefix(digest);
 
   return `${baseKey}-${digestPrefix}`;
@@ -99,20 +110,21 @@ export function generateCacheKey(
  * Generates a cache key prefix without the digest component.
  * This is used for prefix-based cache matching when the registry is unavailable.
  *
+ * The image name component uses the familiar name (e.g., 'nginx' rather than 'docker.io/library/nginx'),
+ * so equivalent references share cache entries. Digest-only references use 'none' as the tag component.
+ *
  * @param cacheKeyPrefix - Prefix for the cache key (from action input)
- * @param imageName - Docker image name (e.g., 'nginx')
- * @param imageTag - Docker image tag (e.g., 'latest')
+ * @param imageReference - Parsed image reference (e.g., for 'nginx:latest')
  * @param targetPlatformString - Optional platform string (e.g., 'linux/amd64')
  * @returns Cache key prefix without digest
  */
 export function generateCacheKeyPrefix(
   cacheKeyPrefix: string,
-  imageName: string,
-  imageTag: string,
+  imageReference: ImageReference,
   targetPlatformString: string | undefined
 ): string {
-  const sanitizedImageName = sanitizePathComponent(imageName);
-  const sanitizedImageTag = sanitizePathComponent(imageTag);
+  const sanitizedImageName = sanitizePathComponent(getFamiliarName(imageReference));
+  const sanitizedImageTag = sanitizePathComponent(imageReference.tag || 'none');
 
   const platformInfo = targetPlatformString ? parseOciPlatformString(targetPlatformString) : getCurrentPlatformInfo();
 
@@ -128,57 +140,94 @@ export function generateCacheKeyPrefix(
  * Appends a manifest suffix to the standard cache key.
  *
  * @param cacheKeyPrefix - Prefix for the cache key
- * @param imageName - Docker image name
- * @param imageTag - Docker image tag
+ * @param imageReference - Parsed image reference
  * @param targetPlatformString - Optional platform string
  * @param digest - Optional image digest for cache key uniqueness
  * @returns Manifest-specific cache key string
  */
 export function generateManifestCacheKey(
   cacheKeyPrefix: string,
-  imageName: string,
-  imageTag: string,
+  imageReference: ImageReference,
   targetPlatformString: string | undefined,
   digest: string | undefined
 ): string {
-  return `${generateCacheKey(cacheKeyPrefix, imageName, imageTag, targetPlatformString, digest)}-manifest`;
+  return `${generateCacheKey(cacheKeyPrefix, imageReference, targetPlatformString, digest)}-manifest`;
+}
+
+/**
+ * Length of the hash used to identify image bundles in cache keys.
+ */
+const BUNDLE_HASH_LENGTH = 16;
+
+/**
+ * Generates a cache key for a bundle of Docker images stored in a single cache entry.
+ * The key is derived from the cache keys of all bundled images, which include their digests,
+ * so the bundle is invalidated when any image changes or the set of images changes.
+ *
+ * @param cacheKeyPrefix - Prefix for the cache key (from action input)
+ * @param imageCacheKeys - Cache keys of the bundled images, in any order
+ * @returns Cache key for the bundle
+ */
+export function generateBundleCacheKey(cacheKeyPrefix: string, imageCacheKeys: readonly string[]): string {
+  const bundleHash = createHash('sha256')
+    .update([...imageCacheKeys].sort().join('\n'))
+    .digest('hex')
+    .substring(0, BUNDLE_HASH_LENGTH);
+  return `${generateBundleCacheKeyPrefix(cacheKeyPrefix)}${bundleHash}`;
+}
+
+/**
+ * Generates the prefix shared by the cache keys of all bundles.
+ * This is used for prefix-based cache matching when the registry is unavailable.
+ *
+ * @param cacheKeyPrefix - Prefix for the cache key (from action input)
+ * @returns Cache key prefix of bundles
+ */
+export function generateBundleCacheKeyPrefix(cacheKeyPrefix: string): string {
+  return `${cacheKeyPrefix}-bundle-`;
+}
+
+/**
+ * Generates the filesystem path for storing a bundle tar file.
+ *
+ * @param bundleCacheKey - Cache key of the bundle
+ * @returns Full filesystem path for the bundle tar file
+ */
+export function generateBundleTarPath(bundleCacheKey: string): string {
+  return path.join(getTempDirectory(), `${sanitizePathComponent(bundleCacheKey)}${CACHE_FILE_EXTENSIONS.TAR}`);
 }
 
 /**
  * Generates the filesystem path for storing a Docker image tar file.
  *
- * @param imageName - Docker image name
- * @param imageTag - Docker image tag
+ * @param imageReference - Parsed image reference
  * @param targetPlatformString - Optional platform string
  * @param digest - Optional image digest for path uniqueness
  * @returns Full filesystem path for the tar file
  */
 export function generateTarPath(
-  imageName: string,
-  imageTag: string,
+  imageReference: ImageReference,
   targetPlatformString: string | undefined,
   digest: string | undefined
 ): string {
-  const tarFileName = generateCacheKey('', imageName, imageTag, targetPlatformString, digest);
+  const tarFileName = generateCacheKey('', imageReference, targetPlatformString, digest);
   return path.join(getTempDirectory(), `${tarFileName}${CACHE_FILE_EXTENSIONS.TAR}`);
 }
 
 /**
  * Generates the filesystem path for storing a Docker image manifest file.
  *
- * @param imageName - Docker image name
- * @param imageTag - Docker image tag
+ * @param imageReference - Parsed image reference
  * @param targetPlatformString - Optional platform string
  * @param digest - Optional image digest for path uniqueness
  * @returns Full filesystem path for the manifest file
  */
 export function generateManifestPath(
-  imageName: string,
-  imageTag: string,
+  imageReference: ImageReference,
   targetPlatformString: string | undefined,
   digest: string | undefined
 ): string {
-  const manifestFileName = generateCacheKey('', imageName, imageTag, targetPlatformString, digest);
+  const manifestFileName = generateCacheKey('', imageReference, targetPlatformString, digest);
   return path.join(getTempDirectory(), `${manifestFileName}${CACHE_FILE_EXTENSIONS.MANIFEST}`);
 }
 
@@ -191,6 +240,7 @@ export function generateManifestPath(
  */
 export async function writeManifestToFile(manifest: DockerImageManifest, manifestPath: string): Promise<boolean> {
   try {
+    trackTempFiles([manifestPath]);
     await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
     return true;
   } catch (error) {
@@ -217,6 +267,8 @@ export async function readManifestFromFile(manifestPath: string): Promise<Docker
 
 /**
  * Attempts to restore files from cache.
+ * Transient errors raised by the cache service are retried according to the retry policy, while cache misses
+ * are returned on the first attempt.
  *
  * @param targetFilePaths - Array of file paths to restore from cache
  * @param cacheKey - Cache key to search for
@@ -229,10 +281,10 @@ export async function restoreFromCache(
   restoreKeys?: readonly string[]
 ): Promise<CacheOperationResult> {
   try {
-    const restoredCacheKey = await cache.restoreCache(
-      [...targetFilePaths],
-      cacheKey,
-      restoreKeys ? [...restoreKeys] : undefined
+    // Track before restoring, since a failed download may leave partial files behind
+    trackTempFiles(targetFilePaths);
+    const restoredCacheKey = await withRetry(`Restoring cache ${cacheKey}`, () =>
+      cache.restoreCache([...targetFilePaths], cacheKey, restoreKeys ? [...restoreKeys] : undefined)
     );
     return {
       success: !!restoredCacheKey,
@@ -248,8 +300,58 @@ export async function restoreFromCache(
   }
 }
 
+/**
+ * Restores an image tar file from cache. Compressed tar files are restored as is, to be decompressed
+ * while they are loaded, and are cached under their own path, so entries saved with a different codec are not matched.
+ *
+ * @param archivePath - Path of the uncompressed tar file
+ * @param cacheKey - Cache key to search for
+ * @param compressionAlgorithm - Codec the tar file was compressed with before caching
+ * @param restoreKeys - Optional array of cache key prefixes for fallback matching
+ * @returns Promise resolving to cache operation result
+ */
+export async function restoreArchiveFromCache(
+  archivePath: string,
+  cacheKey: string,
+  compressionAlgorithm: CompressionAlgorithm,
+  restoreKeys?: readonly string[]
+): Promise<CacheOperationResult> {
+  return restoreFromCache([getCompressedArchivePath(archivePath, compressionAlgorithm)], cacheKey, restoreKeys);
+}
+
+/**
+ * Checks whether a cache entry exists without downloading it.
+ *
+ * @param targetFilePaths - Array of file paths the cache entry was saved with
+ * @param cacheKey - Cache key to search for
+ * @returns Promise resolving to cache operation result, successful if the entry exists
+ */
+export async function lookupInCache(
+  targetFilePaths: readonly string[],
+  cacheKey: string
+): Promise<CacheOperationResult> {
+  try {
+    const matchedCacheKey = await withRetry(`Looking up cache ${cacheKey}`, () =>
+      cache.restoreCache([...targetFilePaths], cacheKey, undefined, { lookupOnly: true })
+    );
+    return {
+      success: !!matchedCacheKey,
+      cacheKey: matchedCacheKey || undefined,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.debug(`Failed to look up cache: ${errorMessage}`);
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
 /**
  * Attempts to save files to cache.
+ * Transient errors raised by the cache service are retried according to the retry policy, while saves returning
+ * an invalid cache ID, such as when another job is creating the same entry, are returned on the first attempt.
  *
  * @param targetFilePaths - Array of file paths to save to cache
  * @param cacheKey - Cache key for the saved files
@@ -257,7 +359,9 @@ export async function restoreFromCache(
  */
 export async function saveToCache(targetFilePaths: readonly string[], cacheKey: string): Promise<CacheOperationResult> {
   try {
-    const savedCacheId = await cache.saveCache([...targetFilePaths], cacheKey);
+    const savedCacheId = await withRetry(`Saving cache ${cacheKey}`, () =>
+      cache.saveCache([...targetFilePaths], cacheKey)
+    );
     if (savedCacheId !== -1) {
       core.debug(`Successfully cached with key ${cacheKey}`);
       return { success: true, cacheKey };
@@ -298,3 +402,248 @@ export async function saveManifestToCache(
   }
   return false;
 }
+
+/**
+ * Name of the directory, within the temp directory, holding layer store blobs.
+ */
+const LAYER_STORE_DIRECTORY_NAME = 'layer-store';
+
+/**
+ * Archive entries up to this size are stored inline in the layer index instead of as separate blobs.
+ * Small metadata files such as manifest.json are unique per image, so caching them separately only adds round trips.
+ */
+const LAYER_INLINE_ENTRY_MAX_SIZE = 64 * 1024;
+
+/**
+ * Format version of the layer index, bumped whenever the layout changes incompatibly.
+ */
+const LAYER_INDEX_VERSION = 1;
+
+/**
+ * Archive entry recorded in a layer index.
+ * File data is either inlined as base64 or stored as a blob cached under its own key.
+ */
+type LayerIndexEntry = {
+  readonly name: string;
+  readonly type: TarEntryType;
+  readonly mode: number;
+  readonly linkName?: string | undefined;
+  readonly content?: string | undefined;
+  readonly blob?: { readonly digest: string; readonly cacheKey: string } | undefined;
+};
+
+/**
+ * Description of an image archive stored in the layer store, cached under the image cache key.
+ */
+type LayerIndex = {
+  readonly version: number;
+  readonly entries: ReadonlyArray<LayerIndexEntry>;
+};
+
+/**
+ * Layer uploads and downloads started by this process, keyed by blob digest.
+ * Images sharing layers are processed concurrently, so each shared layer is only transferred once.
+ */
+const layerUploads = new Map<string, Promise<CacheOperationResult>>();
+const layerDownloads = new Map<string, Promise<CacheOperationResult>>();
+
+/**
+ * Generates the filesystem path of the layer index for an image archive.
+ *
+ * @param archivePath - Path of the image tar file
+ * @returns Full filesystem path for the layer index file
+ */
+export function generateLayerIndexPath(archivePath: string): string {
+  return `${archivePath.replace(/\.tar$/, '')}${CACHE_FILE_EXTENSIONS.LAYER_INDEX}`;
+}
+
+/**
+ * Generates the cache key of a layer store blob.
+ * Blobs are keyed by the digest of their content, so identical layers of different images share an entry.
+ *
+ * @param cacheKeyPrefix - Prefix for the cache key (from action input)
+ * @param blobDigest - Hex-encoded SHA-256 digest of the blob
+ * @returns Cache key for the blob
+ */
+export function generateLayerCacheKey(cacheKeyPrefix: string, blobDigest: string): string {
+  return `${cacheKeyPrefix}-layer-${blobDigest}`;
+}
+
+/**
+ * Gets the filesystem path of a layer store blob.
+ * The path depends only on the digest, since cache entries must be restored to the path they were saved from.
+ *
+ * @param blobDigest - Hex-encoded SHA-256 digest of the blob
+ * @returns Full filesystem path for the blob
+ */
+function getLayerBlobPath(blobDigest: string): string {
+  return path.join(getTempDirectory(), LAYER_STORE_DIRECTORY_NAME, blobDigest);
+}
+
+/**
+ * Creates the directory holding layer store blobs, tracking it so all blobs are removed together
+ * once every image has been processed.
+ */
+async function createLayerStoreDirectory(): Promise<void> {
+  const layerStoreDirectory = path.join(getTempDirectory(), LAYER_STORE_DIRECTORY_NAME);
+  trackTempFiles([layerStoreDirectory]);
+  await fs.mkdir(layerStoreDirectory, { recursive: true });
+}
+
+/**
+ * Uploads a layer store blob unless an entry for it already exists.
+ *
+ * @param blobDigest - Hex-encoded SHA-256 digest of the blob
+ * @param blobCacheKey - Cache key for the blob
+ * @returns Promise resolving to whether the blob was uploaded, along with the cache operation result
+ */
+async function uploadLayerBlob(
+  blobDigest: string,
+  blobCacheKey: string
+): Promise<{ readonly uploaded: boolean; readonly cacheResult: CacheOperationResult }> {
+  const blobPaths = [getLayerBlobPath(blobDigest)];
+  const lookupResult = await lookupInCache(blobPaths, blobCacheKey);
+  if (lookupResult.success) {
+    return { uploaded: false, cacheResult: lookupResult };
+  }
+
+  let uploadPromise = layerUploads.get(blobDigest);
+  if (!uploadPromise) {
+    uploadPromise = saveToCache(blobPaths, blobCacheKey);
+    layerUploads.set(blobDigest, uploadPromise);
+  }
+  return { uploaded: true, cacheResult: await uploadPromise };
+}
+
+/**
+ * Saves an image archive to the layer store.
+ * The archive is split into blobs keyed by the digest of their content, and only blobs
+ * not already cached are uploaded. A layer index describing how to reassemble the archive
+ * is then cached under the image cache key, so an index is only ever found once all its blobs are cached.
+ *
+ * @param archivePath - Path of the image tar file to store
+ * @param cacheKey - Cache key for the layer index
+ * @param cacheKeyPrefix - Prefix for the blob cache keys (from action input)
+ * @returns Promise resolving to cache operation result
+ */
+export async function saveArchiveToLayerStore(
+  archivePath: string,
+  cacheKey: string,
+  cacheKeyPrefix: string
+): Promise<CacheOperationResult> {
+  try {
+    const tarEntries = await readTarEntries(archivePath);
+    await createLayerStoreDirectory();
+
+    const layerIndexEntries: LayerIndexEntry[] = [];
+    const blobCacheKeys = new Map<string, string>();
+    for (const tarEntry of tarEntries) {
+      const { name, type, mode, linkName } = tarEntry;
+      if (type !== 'file' || tarEntry.size <= LAYER_INLINE_ENTRY_MAX_SIZE) {
+        const content = type === 'file' ? await readTarEntryContent(archivePath, tarEntry) : undefined;
+        layerIndexEntries.push({ name, type, mode, linkName, content: content?.toString('base64') });
+        continue;
+      }
+
+      // Extract under a unique name first, since the digest is only known once the data is read
+      const extractPath = getLayerBlobPath(randomUUID());
+      const blobDigest = await extractTarEntry(archivePath, tarEntry, extractPath);
+      await fs.rename(extractPath, getLayerBlobPath(blobDigest));
+
+      const blobCacheKey = generateLayerCacheKey(cacheKeyPrefix, blobDigest);
+      blobCacheKeys.set(blobDigest, blobCacheKey);
+      layerIndexEntries.push({ name, type, mode, blob: { digest: blobDigest, cacheKey: blobCacheKey } });
+    }
+
+    const blobUploads = await Promise.all(
+      [...blobCacheKeys].map(([blobDigest, blobCacheKey]) => uploadLayerBlob(blobDigest, blobCacheKey))
+    );
+    const failedUpload = blobUploads.find((blobUpload) => !blobUpload.cacheResult.success);
+    if (failedUpload) {
+      return { success: false, error: `Failed to cache layer: ${failedUpload.cacheResult.error}` };
+    }
+    const uploadedBlobCount = blobUploads.filter((blobUpload) => blobUpload.uploaded).length;
+    core.info(`Uploaded ${uploadedBlobCount} of ${blobCacheKeys.size} layers for ${cacheKey}`);
+
+    const layerIndex: LayerIndex = { version: LAYER_INDEX_VERSION, entries: layerIndexEntries };
+    const layerIndexPath = generateLayerIndexPath(archivePath);
+    trackTempFiles([layerIndexPath]);
+    await fs.writeFile(layerIndexPath, JSON.stringify(layerIndex));
+    return await saveToCache([layerIndexPath], cacheKey);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.debug(`Failed to save to layer store: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Downloads a layer store blob, reusing a download already started by this process.
+ *
+ * @param blobDigest - Hex-encoded SHA-256 digest of the blob
+ * @param blobCacheKey - Cache key of the blob
+ * @returns Promise resolving to cache operation result
+ */
+function downloadLayerBlob(blobDigest: string, blobCacheKey: string): Promise<CacheOperationResult> {
+  let downloadPromise = layerDownloads.get(blobDigest);
+  if (!downloadPromise) {
+    downloadPromise = restoreFromCache([getLayerBlobPath(blobDigest)], blobCacheKey);
+    layerDownloads.set(blobDigest, downloadPromise);
+  }
+  return downloadPromise;
+}
+
+/**
+ * Restores an image archive from the layer store.
+ * Restores the layer index cached under the image cache key, downloads the blobs it references
+ * and reassembles the archive, so it can be loaded like a regular image tar file.
+ *
+ * @param archivePath - Path to write the reassembled image tar file to
+ * @param cacheKey - Cache key of the layer index
+ * @returns Promise resolving to cache operation result, failing if the index or any blob is missing
+ */
+export async function restoreArchiveFromLayerStore(
+  archivePath: string,
+  cacheKey: string
+): Promise<CacheOperationResult> {
+  const layerIndexPath = generateLayerIndexPath(archivePath);
+  const indexResult = await restoreFromCache([layerIndexPath], cacheKey);
+  if (!indexResult.success) {
+    return indexResult;
+  }
+
+  try {
+    const layerIndex = JSON.parse(await fs.readFile(layerIndexPath, 'utf8')) as LayerIndex;
+    if (layerIndex.version !== LAYER_INDEX_VERSION) {
+      return { success: false, error: `Unsupported layer index version ${layerIndex.version}` };
+    }
+
+    await createLayerStoreDirectory();
+    const blobs = layerIndex.entries.flatMap((layerIndexEntry) => (layerIndexEntry.blob ? [layerIndexEntry.blob] : []));
+    const blobDownloads = await Promise.all(
+      blobs.map(async (blob) => ({ blob, cacheResult: await downloadLayerBlob(blob.digest, blob.cacheKey) }))
+    );
+    const failedDownload = blobDownloads.find((blobDownload) => !blobDownload.cacheResult.success);
+    if (failedDownload) {
+      return { success: false, error: `Layer ${failedDownload.blob.digest} is missing from cache` };
+    }
+
+    trackTempFiles([archivePath]);
+    await writeTarArchive(
+      archivePath,
+      layerIndex.entries.map((layerIndexEntry) => ({
+        name: layerIndexEntry.name,
+        type: layerIndexEntry.type,
+        mode: layerIndexEntry.mode,
+        linkName: layerIndexEntry.linkName,
+        sourcePath: layerIndexEntry.blob ? getLayerBlobPath(layerIndexEntry.blob.digest) : undefined,
+        content: layerIndexEntry.content !== undefined ? Buffer.from(layerIndexEntry.content, 'base64') : undefined,
+      }))
+    );
+    return { success: true, cacheKey: indexResult.cacheKey };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    core.debug(`Failed to restore from layer store: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Compression of image tar files before they are cached.
+ * Streams data through the gzip or zstd codecs built into Node.js.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { PassThrough, type Readable, type Transform, type Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import * as zlib from 'node:zlib';
+
+/**
+ * Codec used to compress image tar files.
+ */
+export type CompressionAlgorithm = 'none' | 'gzip' | 'zstd';
+
+/**
+ * Codec and compression level used for image tar files.
+ */
+export type CompressionSettings = {
+  readonly algorithm: CompressionAlgorithm;
+  readonly level: number;
+};
+
+/**
+ * Sizes of a tar file before and after compression.
+ */
+export type CompressionStats = {
+  readonly rawSize: number;
+  readonly compressedSize: number;
+};
+
+/**
+ * Settings that leave tar files uncompressed.
+ */
+export const NO_COMPRESSION: CompressionSettings = { algorithm: 'none', level: 0 };
+
+/**
+ * Supported and default compression levels of each codec.
+ */
+export const COMPRESSION_LEVELS = {
+  gzip: { min: 1, max: 9, default: 6 },
+  zstd: { min: 1, max: 22, default: 3 },
+} as const;
+
+/**
+ * File extensions of compressed tar files.
+ */
+const COMPRESSED_FILE_EXTENSIONS = {
+  gzip: '.gz',
+  zstd: '.zst',
+} as const;
+
+/**
+ * Checks whether the Node.js runtime provides the zstd codec, added in Node.js 22.15.
+ *
+ * @returns True if zstd streams can be created
+ */
+export function isZstdSupported(): boolean {
+  return typeof zlib.createZstdCompress === 'function';
+}
+
+/**
+ * Gets the path of the compressed counterpart of a tar file.
+ *
+ * @param archivePath - Path of the uncompressed tar file
+ * @param algorithm - Compression codec
+ * @returns Path of the compressed file, or the tar file path itself when not compressing
+ */
+export function getCompressedArchivePath(archivePath: string, algorithm: CompressionAlgorithm): string {
+  return algorithm === 'none' ? archivePath : `${archivePath}${COMPRESSED_FILE_EXTENSIONS[algorithm]}`;
+}
+
+/**
+ * Creates a compression stream for the given settings.
+ *
+ * @param compression - Codec and compression level
+ * @returns Transform stream compressing its input, or passing it through unchanged without compression
+ * @throws Error if the codec is not available
+ */
+function createCompressStream(compression: CompressionSettings): Transform {
+  switch (compression.algorithm) {
+    case 'none':
+      return new PassThrough();
+    case 'gzip':
+      return zlib.createGzip({ level: compression.level });
+    case 'zstd':
+      return zlib.createZstdCompress({ params: { [zlib.constants.ZSTD_c_compressionLevel]: compression.level } });
+    default:
+      throw new Error(`Cannot create a compression stream for '${compression.algorithm}'`);
+  }
+}
+
+/**
+ * Creates a decompression stream for the given codec.
+ *
+ * @param algorithm - Compression codec
+ * @returns Transform stream decompressing its input, or passing it through unchanged without compression
+ * @throws Error if the codec is not available
+ */
+function createDecompressStream(algorithm: CompressionAlgorithm): Transform {
+  switch (algorithm) {
+    case 'none':
+      return new PassThrough();
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'zstd':
+      return zlib.createZstdDecompress();
+    default:
+      throw new Error(`Cannot create a decompression stream for '${algorithm}'`);
+  }
+}
+
+/**
+ * Compresses a stream into a file, so large tar archives are never held in memory
+ * nor written to disk uncompressed. Without compression, the stream is written to the file as is.
+ *
+ * @param input - Stream of the data to compress
+ * @param outputPath - Path to write the compressed file to
+ * @param compression - Codec and compression level
+ * @returns Promise resolving to the sizes of the data before and after compression
+ */
+export async function compressStreamToFile(
+  input: Readable,
+  outputPath: string,
+  compression: CompressionSettings
+): Promise<CompressionStats> {
+  // Create the codec first, so no file is created when the codec is unavailable
+  const compressStream = createCompressStream(compression);
+  let rawSize = 0;
+  await pipeline(
+    input,
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        rawSize += chunk.length;
+        yield chunk;
+      }
+    },
+    compressStream,
+    createWriteStream(outputPath)
+  );
+  const compressedStats = await fs.stat(outputPath);
+  return { rawSize, compressedSize: compressedStats.size };
+}
+
+/**
+ * Decompresses a file written by compressStreamToFile into a stream, ending the stream afterwards.
+ * Without compression, the file is read into the stream as is.
+ *
+ * @param inputPath - Path of the compressed file
+ * @param output - Stream to write the decompressed data to
+ * @param algorithm - Codec the file was compressed with
+ */
+export async function decompressFileToStream(
+  inputPath: string,
+  output: Writable,
+  algorithm: CompressionAlgorithm
+): Promise<void> {
+  const decompressStream = createDecompressStream(algorithm);
+  await pipeline(createReadStream(inputPath), decompressStream, output);
+}
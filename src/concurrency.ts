@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Concurrency control utilities.
+ * Provides limiters that bound the number of asynchronous tasks running at the same time.
+ */
+
+/**
+ * Runs a task once a slot is available and resolves with the task's result.
+ */
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `maxConcurrency` tasks at the same time.
+ * Queued tasks are started in submission order as running tasks settle.
+ *
+ * @param maxConcurrency - Maximum number of concurrently running tasks. Values below 1 mean unlimited.
+ * @returns Limiter function wrapping tasks.
+ */
+export function createConcurrencyLimiter(maxConcurrency: number): ConcurrencyLimiter {
+  const concurrencyLimit = maxConcurrency >= 1 ? Math.floor(maxConcurrency) : Number.POSITIVE_INFINITY;
+  // Note: The running count and wait queue are shared mutable state of this limiter instance
+  let runningTaskCount = 0;
+  const waitingTasks: Array<() => void> = [];
+
+  const acquireSlot = (): Promise<void> => {
+    if (runningTaskCount < concurrencyLimit) {
+      runningTaskCount++;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => waitingTasks.push(resolve));
+  };
+
+  const releaseSlot = (): void => {
+    // Hand the slot directly to the next waiting task, if any
+    const nextTask = waitingTasks.shift();
+    if (nextTask) {
+      nextTask();
+    } else {
+      runningTaskCount--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquireSlot();
+    try {
+      return await task();
+    } finally {
+      releaseSlot();
+    }
+  };
+}
+
+/**
+ * Limiter that runs every task immediately.
+ */
+export const unlimitedConcurrency: ConcurrencyLimiter = (task) => task();
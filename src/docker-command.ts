@@ -1,24 +1,29 @@
 /**
  * @fileoverview Docker command execution utilities.
  * Provides functions for Docker image operations including pull, inspect, save, and load.
+ * Commands are stopped when they exceed the timeout of their operation or the job is cancelled.
  */
 
+import { type ChildProcess, type StdioOptions, spawn } from 'node:child_process';
+import type { Readable, Writable } from 'node:stream';
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
+
+import { withRetry } from './retry';
 
 /**
  * Docker image metadata from inspect command.
  * Contains essential information about a Docker image.
  */
 export type DockerImageMetadata = {
+  readonly Id: string;
   readonly Size: number;
+  readonly Os: string;
+  readonly Architecture: string;
+  /** Registry digests of the image, which may be empty or null for images loaded from tar files. */
+  readonly RepoDigests: readonly string[] | null;
   // unused fields:
-  //   readonly Id: string;
-  //   readonly Architecture: string;
-  //   readonly Os: string;
   //   readonly Variant?: string;
   //   readonly RepoTags: readonly string[];
-  //   readonly RepoDigests: readonly string[];
   //   readonly Created: string;
 };
 
@@ -36,21 +41,165 @@ export type DockerImageManifest = {
 
 export type ContainerRuntime = 'docker' | 'podman';
 
+/**
+ * Kind of operation a command performs, each with its own timeout.
+ */
+export type CommandOperation = 'inspect' | 'pull' | 'save' | 'load';
+
+/**
+ * Timeouts in seconds of each kind of operation, where 0 means no timeout.
+ */
+export type CommandTimeouts = Readonly<Record<CommandOperation, number>>;
+
+/**
+ * Result of a command whose output is not needed, with the reason of failures.
+ */
+export type CommandResult = {
+  readonly success: boolean;
+  readonly error?: string | undefined;
+};
+
+/**
+ * Timeouts used until others are set.
+ */
+export const DEFAULT_COMMAND_TIMEOUTS: CommandTimeouts = {
+  inspect: 120,
+  pull: 1800,
+  save: 1800,
+  load: 1800,
+};
+
+/**
+ * Time given to a stopped command to exit before it is killed forcibly.
+ */
+const FORCE_KILL_DELAY_MS = 10000;
+
+/**
+ * Signals sent to the action when the job is cancelled.
+ */
+const CANCELLATION_SIGNALS: ReadonlyArray<NodeJS.Signals> = ['SIGINT', 'SIGTERM'];
+
+// Note: Set once per step from the action inputs, before any command is run
+let activeCommandTimeouts: CommandTimeouts = DEFAULT_COMMAND_TIMEOUTS;
+
+// Note: Aborted once the job is cancelled, stopping running commands and refusing to start new ones
+const cancellationController = new AbortController();
+
+/**
+ * Sets the timeouts applied to commands.
+ *
+ * @param commandTimeouts - Timeouts in seconds of each kind of operation
+ */
+export function setCommandTimeouts(commandTimeouts: CommandTimeouts): void {
+  activeCommandTimeouts = commandTimeouts;
+}
+
+/**
+ * Stops running commands and refuses to start new ones.
+ *
+ * @param reason - Why commands are cancelled, included in their errors
+ */
+export function cancelCommands(reason: string): void {
+  cancellationController.abort(reason);
+}
+
+/**
+ * Cancels commands when the runner signals that the job is cancelled, so container runtimes do not
+ * keep pulling or saving images after the job has ended. The handler is removed from all signals once
+ * one of them is received, so a second signal of either kind terminates the action as usual.
+ */
+export function cancelCommandsOnSignals(): void {
+  const cancelOnSignal = (cancellationSignal: NodeJS.Signals): void => {
+    for (const handledSignal of CANCELLATION_SIGNALS) {
+      process.off(handledSignal, cancelOnSignal);
+    }
+    core.warning(`Received ${cancellationSignal}, stopping running commands`);
+    cancelCommands(`the job was cancelled (${cancellationSignal})`);
+  };
+  for (const cancellationSignal of CANCELLATION_SIGNALS) {
+    process.on(cancellationSignal, cancelOnSignal);
+  }
+}
+
+/**
+ * Spawns a command that is stopped when it exceeds the timeout of its operation or the job is cancelled.
+ *
+ * @param cmd - Array of path to the executable and command arguments.
+ * @param operation - Kind of operation the command performs, determining its timeout.
+ * @param stdio - Stdio configuration of the child process.
+ * @returns The child process, and a promise resolving to its exit code, which rejects with the reason
+ *   the command was stopped, or with the error if it cannot be spawned.
+ * @throws Error if commands were cancelled.
+ */
+function spawnCommand(
+  cmd: readonly string[],
+  operation: CommandOperation,
+  stdio: StdioOptions
+): { childProcess: ChildProcess; exitCodePromise: Promise<number> } {
+  const fullCommand = cmd.join(' ');
+  if (cancellationController.signal.aborted) {
+    throw new Error(`${fullCommand} was not started: ${cancellationController.signal.reason}`);
+  }
+  // biome-ignore lint/style/noNonNullAssertion: We know the first element is the path to the executable
+  const path = cmd[0]!;
+  const args = cmd.slice(1);
+
+  const childProcess = spawn(path, args, { stdio });
+  const timeoutSeconds = activeCommandTimeouts[operation];
+  const exitCodePromise = new Promise<number>((resolve, reject) => {
+    let stopReason: string | undefined;
+    let forceKillTimer: NodeJS.Timeout | undefined;
+    const stopCommand = (reason: string): void => {
+      stopReason = reason;
+      forceKillTimer = setTimeout(() => childProcess.kill('SIGKILL'), FORCE_KILL_DELAY_MS);
+      childProcess.kill();
+    };
+    const timeoutTimer =
+      timeoutSeconds > 0
+        ? setTimeout(() => stopCommand(`${fullCommand} timed out after ${timeoutSeconds} s`), timeoutSeconds * 1000)
+        : undefined;
+    const cancelCommand = (): void =>
+      stopCommand(`${fullCommand} was cancelled: ${cancellationController.signal.reason}`);
+    cancellationController.signal.addEventListener('abort', cancelCommand, { once: true });
+    const releaseTimers = (): void => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(forceKillTimer);
+      cancellationController.signal.removeEventListener('abort', cancelCommand);
+    };
+
+    childProcess.on('error', (error) => {
+      releaseTimers();
+      reject(error);
+    });
+    childProcess.on('close', (exitCode) => {
+      releaseTimers();
+      if (stopReason !== undefined) {
+        reject(new Error(stopReason));
+      } else {
+        resolve(exitCode ?? 1);
+      }
+    });
+  });
+  // Failures are rethrown when the exit code is awaited by the caller
+  exitCodePromise.catch(() => undefined);
+
+  return { childProcess, exitCodePromise };
+}
+
 /**
  * Executes a Docker command and logs execution time.
+ * Output is captured and echoed to the log as it is written.
  *
  * @param cmd - Array of path to the executable and command arguments.
- * @param options - Execution options.
+ * @param operation - Kind of operation the command performs, determining its timeout.
  * @returns Promise resolving to object containing exit code, stdout, and stderr.
+ * @throws Error if the command cannot be spawned, times out or is cancelled.
  */
 async function executeCommand(
   cmd: readonly string[],
-  options: exec.ExecOptions
+  operation: CommandOperation
 ): Promise<{ exitCode: number; stdout: string; stderr: string }> {
   const fullCommand = cmd.join(' ');
-  // biome-ignore lint/style/noNonNullAssertion: We know the first element is the path to the executable
-  const path = cmd[0]!;
-  const args = cmd.slice(1);
 
   // Log command execution
   core.info(`Executing: ${fullCommand}`);
@@ -58,98 +207,163 @@ async function executeCommand(
   // Record start time
   const executionStartTime = performance.now();
 
-  // Note: This function requires controlled mutation for stream collection
-  // The mutation is localized to this function and the arrays are treated as immutable elsewhere
-  const commandOutputBuffer: {
-    stdout: readonly string[];
-    stderr: readonly string[];
-  } = {
-    stdout: [] as readonly string[],
-    stderr: [] as readonly string[],
-  };
-
-  // Create a new options object with our stdout/stderr listeners
-  const execOptionsWithCapture: exec.ExecOptions = {
-    ...options,
-    listeners: {
-      ...options.listeners,
-      stdout: (data: Buffer) => {
-        const outputChunk = data.toString();
-        // Controlled mutation: creating new immutable array each time
-        commandOutputBuffer.stdout = [...commandOutputBuffer.stdout, outputChunk] as const;
-        // If the original options had a stdout listener, call it
-        if (options.listeners?.stdout) {
-          options.listeners.stdout(data);
-        }
-      },
-      stderr: (data: Buffer) => {
-        const outputChunk = data.toString();
-        // Controlled mutation: creating new immutable array each time
-        commandOutputBuffer.stderr = [...commandOutputBuffer.stderr, outputChunk] as const;
-        // If the original options had a stderr listener, call it
-        if (options.listeners?.stderr) {
-          options.listeners.stderr(data);
-        }
-      },
-    },
-  };
-
   try {
-    // Execute the command
-    const exitCode = await exec.exec(path, [...args], execOptionsWithCapture);
+    const { childProcess, exitCodePromise } = spawnCommand(cmd, operation, ['ignore', 'pipe', 'pipe']);
+    const stdoutChunks: string[] = [];
+    const stderrChunks: string[] = [];
+    childProcess.stdout?.on('data', (data: Buffer) => {
+      stdoutChunks.push(data.toString());
+      process.stdout.write(data);
+    });
+    childProcess.stderr?.on('data', (data: Buffer) => {
+      stderrChunks.push(data.toString());
+      process.stderr.write(data);
+    });
+    const exitCode = await exitCodePromise;
 
     // Calculate and log execution time
-    const executionEndTime = performance.now();
-    const executionTimeMs = Math.round(executionEndTime - executionStartTime);
+    const executionTimeMs = Math.round(performance.now() - executionStartTime);
     core.info(`Command completed in ${executionTimeMs}ms: ${fullCommand}`);
 
-    // Join all chunks to create the complete output strings
-    const stdout = commandOutputBuffer.stdout.join('');
-    const stderr = commandOutputBuffer.stderr.join('');
-
-    return { exitCode, stdout, stderr };
+    return { exitCode, stdout: stdoutChunks.join(''), stderr: stderrChunks.join('') };
   } catch (error) {
     // Log execution failure
-    const executionEndTime = performance.now();
-    const executionTimeMs = Math.round(executionEndTime - executionStartTime);
+    const executionTimeMs = Math.round(performance.now() - executionStartTime);
     core.error(`Command failed after ${executionTimeMs}ms: ${fullCommand}`);
     throw error;
   }
 }
 
+/**
+ * Executes a command that contacts a registry, retrying it while it fails with a transient error
+ * such as rate limiting, according to the retry policy.
+ *
+ * @param cmd - Array of path to the executable and command arguments.
+ * @param operation - Kind of operation the command performs, determining its timeout.
+ * @returns Promise resolving to object containing exit code, stdout, and stderr of the last attempt.
+ */
+async function executeRegistryCommand(
+  cmd: readonly string[],
+  operation: CommandOperation
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  return withRetry(
+    cmd.join(' '),
+    () => executeCommand(cmd, operation),
+    ({ exitCode, stderr }) => (exitCode !== 0 ? stderr : undefined)
+  );
+}
+
+/**
+ * Executes a Docker command whose stdin or stdout is streamed instead of captured.
+ *
+ * @param cmd - Array of path to the executable and command arguments.
+ * @param operation - Kind of operation the command performs, determining its timeout.
+ * @param stdio - Which of stdin and stdout to pipe to the caller; stderr is always captured.
+ * @param transferData - Streams data to or from the child process, resolving once the transfer is complete.
+ * @returns Promise resolving to object containing exit code and stderr.
+ * @throws Error if the process cannot be spawned, times out, is cancelled or the transfer fails,
+ *   after stopping the process.
+ */
+async function executeStreamingCommand(
+  cmd: readonly string[],
+  operation: CommandOperation,
+  stdio: 'stdin' | 'stdout',
+  transferData: (childProcess: ChildProcess) => Promise<void>
+): Promise<{ exitCode: number; stderr: string }> {
+  const fullCommand = cmd.join(' ');
+
+  core.info(`Executing: ${fullCommand}`);
+  const executionStartTime = performance.now();
+
+  const { childProcess, exitCodePromise } = spawnCommand(
+    cmd,
+    operation,
+    stdio === 'stdin' ? ['pipe', 'ignore', 'pipe'] : ['ignore', 'pipe', 'pipe']
+  );
+  const stderrChunks: string[] = [];
+  childProcess.stderr?.on('data', (data: Buffer) => stderrChunks.push(data.toString()));
+
+  try {
+    await transferData(childProcess);
+  } catch (error) {
+    // Stop the process so it does not block on a pipe nobody reads from or writes to any more
+    childProcess.kill();
+    // A timeout or cancellation that cut the transfer short is the more meaningful error
+    const stopError = await exitCodePromise.then(
+      () => undefined,
+      (exitError: unknown) => exitError
+    );
+    const executionTimeMs = Math.round(performance.now() - executionStartTime);
+    core.error(`Command failed after ${executionTimeMs}ms: ${fullCommand}`);
+    if (stopError instanceof Error && stopError.message.startsWith(fullCommand)) {
+      throw stopError;
+    }
+    const errorMessage = getErrorMessage(error);
+    const stderr = stderrChunks.join('').trim();
+    throw new Error(stderr ? `${errorMessage}: ${stderr}` : errorMessage);
+  }
+
+  const exitCode = await exitCodePromise;
+  const executionTimeMs = Math.round(performance.now() - executionStartTime);
+  core.info(`Command completed in ${executionTimeMs}ms: ${fullCommand}`);
+
+  return { exitCode, stderr: stderrChunks.join('') };
+}
+
+/**
+ * Gets the message of an error thrown while running a command.
+ *
+ * @param error - Thrown error
+ * @returns Error message
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Formats the error reported for a failed command, appending the reason of the failure when known,
+ * such as the command timing out.
+ *
+ * @param failureSummary - Summary of what failed
+ * @param commandResult - Result of the failed command
+ * @returns Error message
+ */
+export function formatCommandFailure(failureSummary: string, commandResult: CommandResult): string {
+  return commandResult.error ? `${failureSummary} (${commandResult.error})` : failureSummary;
+}
+
 /**
  * Pulls a Docker image, optionally for a specific platform.
  *
  * @param imageName - Docker image name to pull.
  * @param platform - Optional platform string (e.g., 'linux/amd64').
- * @returns Promise resolving to boolean indicating success or failure.
+ * @returns Promise resolving to the result of the pull, with the reason of failures.
  */
 export async function pullImage(
   containerRuntime: ContainerRuntime,
   imageName: string,
   platform: string | undefined
-): Promise<boolean> {
+): Promise<CommandResult> {
   try {
-    const execOptions = { ignoreReturnCode: true } as const;
-
-    const pullCommand = [containerRuntime, 'pull', imageName];
+    const pullCommand = [containerRuntime, 'pull'];
     if (platform) {
       pullCommand.push('--platform', platform);
       core.info(`Pulling image ${imageName} for platform ${platform}`);
     }
+    pullCommand.push(imageName);
 
     // Execute docker pull command
-    const { exitCode, stderr } = await executeCommand(pullCommand, execOptions);
+    const { exitCode, stderr } = await executeRegistryCommand(pullCommand, 'pull');
 
     if (exitCode !== 0) {
       core.warning(`Failed to pull image ${imageName}${platform ? ` for platform ${platform}` : ''}: ${stderr}`);
-      return false;
+      return { success: false, error: stderr.trim() || undefined };
     }
 
-    return true;
+    return { success: true };
   } catch (error) {
     core.warning(`Failed to pull image ${imageName}${platform ? ` for platform ${platform}` : ''}: ${error}`);
-    return false;
+    return { success: false, error: getErrorMessage(error) };
   }
 }
 
@@ -167,17 +381,13 @@ export async function inspectImageRemote(
   imageName: string
 ): Promise<DockerImageManifest | undefined> {
   try {
-    const execOptions: exec.ExecOptions = {
-      ignoreReturnCode: true,
-    };
-
     let cmd: string[];
     if (containerRuntime === 'docker') {
       cmd = ['docker', 'buildx', 'imagetools', 'inspect', '--format', '{{json .Manifest}}', imageName];
     } else {
       cmd = ['skopeo', 'inspect', '--format', '{{json .}}', `docker://${imageName}`];
     }
-    const { exitCode, stdout, stderr } = await executeCommand(cmd, execOptions);
+    const { exitCode, stdout, stderr } = await executeRegistryCommand(cmd, 'inspect');
 
     if (exitCode !== 0) {
       core.warning(`Failed to inspect manifest for ${imageName}: ${stderr}`);
@@ -215,23 +425,24 @@ export async function inspectImageRemote(
  * - GraphDriver.Data: May have different paths depending on the environment
  *
  * @param imageName - Docker image name with optional tag.
+ * @param warnOnFailure - Whether failures are reported as warnings rather than debug messages,
+ *   disabled when probing for images that may legitimately be missing.
  * @returns Promise resolving to DockerInspectInfo object or undefined on failure.
  */
 export async function inspectImageLocal(
   containerRuntime: ContainerRuntime,
-  imageName: string
+  imageName: string,
+  warnOnFailure = true
 ): Promise<DockerImageMetadata | undefined> {
+  const reportFailure = warnOnFailure ? core.warning : core.debug;
   try {
-    const execOptions: exec.ExecOptions = {
-      ignoreReturnCode: true,
-    };
     const cmd = [containerRuntime, 'inspect', '--format', '{{json .}}', imageName];
 
     // Execute docker inspect command to get detailed image information
-    const { exitCode, stdout, stderr } = await executeCommand(cmd, execOptions);
+    const { exitCode, stdout, stderr } = await executeCommand(cmd, 'inspect');
 
     if (exitCode !== 0) {
-      core.warning(`Failed to inspect image ${imageName}: ${stderr}`);
+      reportFailure(`Failed to inspect image ${imageName}: ${stderr}`);
       return undefined;
     }
 
@@ -240,69 +451,80 @@ export async function inspectImageLocal(
       const imageMetadata = JSON.parse(stdout.trim()) as DockerImageMetadata;
       return imageMetadata;
     } catch (inspectJsonParseError) {
-      core.warning(`Failed to parse inspect JSON for ${imageName}: ${inspectJsonParseError}`);
+      reportFailure(`Failed to parse inspect JSON for ${imageName}: ${inspectJsonParseError}`);
       return undefined;
     }
   } catch (error) {
-    core.warning(`Error inspecting image ${imageName}: ${error}`);
+    reportFailure(`Error inspecting image ${imageName}: ${error}`);
     return undefined;
   }
 }
 
 /**
- * Saves Docker image to a tar file.
+ * Saves Docker images by streaming the tar archive written by docker save to stdout,
+ * so the archive can be processed without first being written to disk.
  *
- * @param imageName - Docker image name to save.
- * @param outputPath - File path where the tar file should be created.
- * @returns Promise resolving to boolean indicating success or failure.
+ * @param imageNames - Docker image names to save.
+ * @param writeArchive - Consumes the tar archive, resolving once it has been written.
+ * @returns Promise resolving to the result of the command, with the reason of failures.
  */
-export async function saveImageToTar(
+export async function saveImagesToStream(
   containerRuntime: ContainerRuntime,
-  imageName: string,
-  outputPath: string
-): Promise<boolean> {
+  imageNames: readonly string[],
+  writeArchive: (archiveStream: Readable) => Promise<void>
+): Promise<CommandResult> {
   try {
-    const execOptions = { ignoreReturnCode: true } as const;
-    // Execute docker save command to create a tar archive of the image
-    const cmd = [containerRuntime, 'save', '-o', outputPath, imageName];
+    const cmd = [containerRuntime, 'save', ...imageNames];
     if (containerRuntime === 'podman') {
-      // oci-archive supports more formats like zstd compressed layers
-      cmd.push('--format', 'oci-archive');
+      cmd.push(...(imageNames.length === 1 ? ['--format', 'oci-archive'] : ['--multi-image-archive']));
     }
-    const { exitCode, stderr } = await executeCommand(cmd, execOptions);
+    const { exitCode, stderr } = await executeStreamingCommand(cmd, 'save', 'stdout', async (childProcess) => {
+      // biome-ignore lint/style/noNonNullAssertion: stdout is piped
+      await writeArchive(childProcess.stdout!);
+    });
 
     if (exitCode !== 0) {
-      core.warning(`Failed to save image ${imageName} to ${outputPath}: ${stderr}`);
-      return false;
+      core.warning(`Failed to save images ${imageNames.join(', ')}: ${stderr}`);
+      return { success: false, error: stderr.trim() || undefined };
     }
 
-    return true;
+    return { success: true };
   } catch (error) {
-    core.warning(`Failed to save image ${imageName}: ${error}`);
-    return false;
+    core.warning(`Failed to save images ${imageNames.join(', ')}: ${error}`);
+    return { success: false, error: getErrorMessage(error) };
   }
 }
 
 /**
- * Loads Docker image from a tar file.
+ * Loads Docker images by streaming a tar archive to the stdin of docker load,
+ * so the archive does not have to exist on disk in its uncompressed form.
  *
- * @param tarPath - Path to the tar file containing the Docker image.
- * @returns Promise resolving to boolean indicating success or failure.
+ * @param readArchive - Writes the tar archive to the given stream and ends it.
+ * @returns Promise resolving to the result of the command, with the reason of failures.
  */
-export async function loadImageFromTar(containerRuntime: ContainerRuntime, tarPath: string): Promise<boolean> {
+export async function loadImageFromStream(
+  containerRuntime: ContainerRuntime,
+  readArchive: (archiveStream: Writable) => Promise<void>
+): Promise<CommandResult> {
   try {
-    const execOptions = { ignoreReturnCode: true } as const;
-    // Execute docker load command to restore image from tar archive
-    const { exitCode, stderr } = await executeCommand([containerRuntime, 'load', '-i', tarPath], execOptions);
+    const { exitCode, stderr } = await executeStreamingCommand(
+      [containerRuntime, 'load'],
+      'load',
+      'stdin',
+      async (childProcess) => {
+        // biome-ignore lint/style/noNonNullAssertion: stdin is piped
+        await readArchive(childProcess.stdin!);
+      }
+    );
 
     if (exitCode !== 0) {
-      core.warning(`Failed to load image from ${tarPath}: ${stderr}`);
-      return false;
+      core.warning(`Failed to load image from stream: ${stderr}`);
+      return { success: false, error: stderr.trim() || undefined };
     }
 
-    return true;
+    return { success: true };
   } catch (error) {
-    core.warning(`Failed to load image from ${tarPath}: ${error}`);
-    return false;
+    core.warning(`Failed to load image from stream: ${error}`);
+    return { success: false, error: getErrorMessage(error) };
   }
 }
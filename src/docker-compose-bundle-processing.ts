@@ -0,0 +1,571 @@
+/**
+ * @fileoverview Bundled image processing for Docker Compose services.
+ * Stores all images in a single cache entry, saved with one `docker save` and restored with one `docker load`,
+ * so layers shared between images are stored once and cache round trips are minimized.
+ */
+
+import * as core from '@actions/core';
+
+import {
+  generateBundleCacheKey,
+  generateBundleCacheKeyPrefix,
+  generateBundleTarPath,
+  generateCacheKey,
+  lookupInCache,
+  restoreArchiveFromCache,
+} from './cache';
+import {
+  type CompressionSettings,
+  type CompressionStats,
+  getCompressedArchivePath,
+  NO_COMPRESSION,
+} from './compression';
+import { type ConcurrencyLimiter, unlimitedConcurrency } from './concurrency';
+import {
+  type ContainerRuntime,
+  type DockerImageManifest,
+  formatCommandFailure,
+  inspectImageLocal,
+  inspectImageRemote,
+  pullImage,
+} from './docker-command';
+import type { ComposeService } from './docker-compose-file';
+import {
+  findPresentLocalImage,
+  loadImageFromArchive,
+  type OperationLimiters,
+  type PendingImageSave,
+  type ServiceProcessingOptions,
+  type ServiceResult,
+  saveImageToCache,
+  UNLIMITED_OPERATION_LIMITERS,
+} from './docker-compose-service-processing';
+import { parseImageReference } from './image-reference';
+
+/**
+ * Image whose digest was resolved and that is part of the bundle.
+ */
+type BundleMember = {
+  readonly service: ComposeService;
+  readonly imageCacheKey: string;
+  readonly digest: string;
+  readonly isDigestPinned: boolean;
+};
+
+/**
+ * Checks whether a resolved service is a bundle member rather than an error result.
+ */
+function isBundleMember(resolvedMember: BundleMember | ServiceResult): resolvedMember is BundleMember {
+  return 'service' in resolvedMember;
+}
+
+/**
+ * Resolves the digest of a service image for the bundle cache key.
+ * Digest-pinned references already carry their digest, so the registry is not contacted.
+ *
+ * @returns The bundle member, or an error result if the image cannot be resolved
+ */
+async function resolveBundleMember(
+  containerRuntime: ContainerRuntime,
+  serviceDefinition: ComposeService,
+  cacheKeyPrefix: string
+): Promise<BundleMember | ServiceResult> {
+  const imageReference = parseImageReference(serviceDefinition.image);
+  if (!imageReference) {
+    return {
+      success: false,
+      restoredFromCache: false,
+      imageName: serviceDefinition.image,
+      cacheKey: '',
+      digest: undefined,
+      platform: serviceDefinition.platform,
+      error: `Invalid image name format: ${serviceDefinition.image}`,
+    };
+  }
+
+  const isDigestPinned = imageReference.digest !== undefined;
+  const manifest: DockerImageManifest | undefined = isDigestPinned
+    ? { digest: imageReference.digest }
+    : await inspectImageRemote(containerRuntime, serviceDefinition.image);
+  if (!manifest?.digest) {
+    core.warning(`Could not get digest for ${serviceDefinition.image}, excluding it from the bundle`);
+    return {
+      success: false,
+      restoredFromCache: false,
+      imageName: serviceDefinition.image,
+      cacheKey: '',
+      digest: undefined,
+      platform: serviceDefinition.platform,
+      error: `Could not get digest for ${serviceDefinition.image}`,
+    };
+  }
+
+  return {
+    service: serviceDefinition,
+    imageCacheKey: generateCacheKey(cacheKeyPrefix, imageReference, serviceDefinition.platform, manifest.digest),
+    digest: manifest.digest,
+    isDigestPinned,
+  };
+}
+
+/**
+ * Pulls a bundle member and verifies that the pulled image matches the resolved digest.
+ *
+ * @returns Error message, or undefined if the image was pulled successfully
+ */
+async function pullBundleMember(
+  containerRuntime: ContainerRuntime,
+  bundleMember: BundleMember,
+  operationLimiters: OperationLimiters
+): Promise<string | undefined> {
+  const { image, platform } = bundleMember.service;
+  const pullResult = await operationLimiters.pull(() => pullImage(containerRuntime, image, platform));
+  if (!pullResult.success) {
+    return formatCommandFailure(`Failed to pull image: ${image}`, pullResult);
+  }
+  if (!bundleMember.isDigestPinned) {
+    const newImageDigest = (await inspectImageRemote(containerRuntime, image))?.digest;
+    if (newImageDigest !== bundleMember.digest) {
+      return `Digest mismatch for ${image}: expected ${bundleMember.digest}, got ${newImageDigest}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates results for all bundle members, sharing the bundle cache key.
+ *
+ * @param bundleMembers - Members of the bundle
+ * @param bundleCacheKey - Cache key of the bundle
+ * @param createMemberResult - Fields of each member's result besides its identity
+ * @param includeImageSize - Whether to inspect the local images for their sizes
+ * @param imageLimiter - Limiter for the local image inspects
+ * @returns Promise resolving to one result per member, including local image sizes where available
+ */
+async function createBundleResults(
+  containerRuntime: ContainerRuntime,
+  bundleMembers: ReadonlyArray<BundleMember>,
+  bundleCacheKey: string,
+  createMemberResult: (
+    bundleMember: BundleMember
+  ) => Pick<ServiceResult, 'success' | 'restoredFromCache'> & Partial<ServiceResult>,
+  includeImageSize: boolean,
+  imageLimiter: ConcurrencyLimiter
+): Promise<ReadonlyArray<ServiceResult>> {
+  return Promise.all(
+    bundleMembers.map(async (bundleMember) => {
+      const inspectInfo = includeImageSize
+        ? await imageLimiter(() => inspectImageLocal(containerRuntime, bundleMember.service.image))
+        : undefined;
+      return {
+        imageName: bundleMember.service.image,
+        cacheKey: bundleCacheKey,
+        digest: bundleMember.digest,
+        platform: bundleMember.service.platform,
+        imageSize: inspectInfo?.Size,
+        ...createMemberResult(bundleMember),
+      };
+    })
+  );
+}
+
+/**
+ * Finds the bundle members already present locally with their registry digest for their target platform.
+ *
+ * @returns Members that need neither restoring nor pulling
+ */
+async function findPresentBundleMembers(
+  containerRuntime: ContainerRuntime,
+  bundleMembers: ReadonlyArray<BundleMember>,
+  imageLimiter: ConcurrencyLimiter
+): Promise<ReadonlyArray<BundleMember>> {
+  const localImages = await Promise.all(
+    bundleMembers.map((bundleMember) =>
+      imageLimiter(() =>
+        findPresentLocalImage(
+          containerRuntime,
+          bundleMember.service.image,
+          bundleMember.digest,
+          bundleMember.service.platform
+        )
+      )
+    )
+  );
+  return bundleMembers.filter((_bundleMember, memberIndex) => localImages[memberIndex] !== undefined);
+}
+
+/**
+ * Processes the bundle members once the bundle cache key is known.
+ * Mirrors processService for a single cache entry holding all member images.
+ */
+async function processBundleMembers(
+  containerRuntime: ContainerRuntime,
+  bundleMembers: ReadonlyArray<BundleMember>,
+  cacheKeyPrefix: string,
+  forceRefresh: boolean,
+  options: ServiceProcessingOptions
+): Promise<ReadonlyArray<ServiceResult>> {
+  const operationLimiters = options.operationLimiters ?? UNLIMITED_OPERATION_LIMITERS;
+  const imageLimiter = options.imageLimiter ?? unlimitedConcurrency;
+  const mode = options.mode ?? 'full';
+  const deferSave = options.deferSave ?? false;
+  const keepTempFiles = options.keepTempFiles ?? false;
+  const compression = options.compression ?? NO_COMPRESSION;
+
+  const bundleCacheKey = generateBundleCacheKey(
+    cacheKeyPrefix,
+    bundleMembers.map((bundleMember) => bundleMember.imageCacheKey)
+  );
+  const bundleTarPath = generateBundleTarPath(bundleCacheKey);
+  const pendingSave: PendingImageSave = {
+    imageName: `bundle of ${bundleMembers.length} images`,
+    bundledImageNames: bundleMembers.map((bundleMember) => bundleMember.service.image),
+    imageCacheKey: bundleCacheKey,
+    imageTarPath: bundleTarPath,
+    compression,
+    keepTempFiles,
+  };
+  core.info(`Bundle cache key for ${bundleMembers.length} images: ${bundleCacheKey}`);
+
+  const lookupBundle = () =>
+    operationLimiters.restore(() =>
+      lookupInCache([getCompressedArchivePath(bundleTarPath, compression.algorithm)], bundleCacheKey)
+    );
+
+  // Lookup-only mode reports whether the bundle exists without downloading it
+  if (mode === 'lookup-only') {
+    const lookupResult = await lookupBundle();
+    core.info(`Cache ${lookupResult.success ? 'hit' : 'miss'} for bundle (lookup only)`);
+    return createBundleResults(
+      containerRuntime,
+      bundleMembers,
+      bundleCacheKey,
+      () => ({ success: true, restoredFromCache: false, outcome: lookupResult.success ? 'would-hit' : 'would-miss' }),
+      false,
+      imageLimiter
+    );
+  }
+
+  // Images are only saved or skipped when the local image is the one the bundle cache key names
+  const presentMembers =
+    forceRefresh && mode === 'full'
+      ? []
+      : await findPresentBundleMembers(containerRuntime, bundleMembers, imageLimiter);
+
+  // Save mode only saves the bundle when every image is present locally.
+  // Only the missing images are reported as not present, the present ones were merely not saved.
+  if (mode === 'save') {
+    const missingMembers = bundleMembers.filter((bundleMember) => !presentMembers.includes(bundleMember));
+    if (missingMembers.length > 0) {
+      core.warning(
+        'Bundle not saved because images are not present locally with their registry digest: ' +
+          missingMembers.map((bundleMember) => bundleMember.service.image).join(', ')
+      );
+      return createBundleResults(
+        containerRuntime,
+        bundleMembers,
+        bundleCacheKey,
+        (bundleMember) => ({
+          success: true,
+          restoredFromCache: false,
+          outcome: missingMembers.includes(bundleMember) ? 'not-present' : 'present',
+        }),
+        false,
+        imageLimiter
+      );
+    }
+    return saveBundle(
+      containerRuntime,
+      bundleMembers,
+      pendingSave,
+      () => 'saved',
+      operationLimiters,
+      deferSave,
+      imageLimiter
+    );
+  }
+
+  // Images left in the local image store, e.g. on self-hosted runners, need neither restoring nor pulling
+  if (presentMembers.length === bundleMembers.length) {
+    core.info(`All ${bundleMembers.length} images of the bundle are already present locally, skipping restore`);
+    // The bundle is still saved when it is not cached yet, as it would be after pulling the images
+    const isCached = mode !== 'full' || (await lookupBundle()).success;
+    if (!isCached) {
+      core.info('Bundle is not cached yet, saving the present images');
+      return saveBundle(
+        containerRuntime,
+        bundleMembers,
+        pendingSave,
+        () => 'saved',
+        operationLimiters,
+        deferSave,
+        imageLimiter
+      );
+    }
+    return createBundleResults(
+      containerRuntime,
+      bundleMembers,
+      bundleCacheKey,
+      () => ({ success: true, restoredFromCache: false, outcome: 'present' }),
+      true,
+      imageLimiter
+    );
+  }
+
+  // Try to restore the bundle unless force refresh is enabled (restore mode never pulls)
+  if (!forceRefresh || mode === 'restore') {
+    const cacheResult = await operationLimiters.restore(() =>
+      restoreArchiveFromCache(bundleTarPath, bundleCacheKey, compression.algorithm)
+    );
+    if (cacheResult.success) {
+      core.info(`Cache hit for bundle, loading ${bundleMembers.length} images from cache`);
+      const loadResult = await operationLimiters.restore(() =>
+        loadImageFromArchive(containerRuntime, bundleTarPath, compression.algorithm, keepTempFiles)
+      );
+      return createBundleResults(
+        containerRuntime,
+        bundleMembers,
+        bundleCacheKey,
+        (bundleMember) =>
+          loadResult.success
+            ? { success: true, restoredFromCache: true }
+            : {
+                success: false,
+                restoredFromCache: false,
+                error: formatCommandFailure(
+                  `Failed to load image from cache: ${bundleMember.service.image}`,
+                  loadResult
+                ),
+              },
+        loadResult.success,
+        imageLimiter
+      );
+    }
+    if (mode === 'restore') {
+      core.info('Cache miss for bundle, skipping pull in restore mode');
+      return createBundleResults(
+        containerRuntime,
+        bundleMembers,
+        bundleCacheKey,
+        (bundleMember) => ({
+          success: true,
+          restoredFromCache: false,
+          outcome: presentMembers.includes(bundleMember) ? 'present' : 'cache-miss',
+        }),
+        false,
+        imageLimiter
+      );
+    }
+    core.info('Cache miss for bundle, pulling and saving');
+  } else {
+    core.info('Force refresh enabled for bundle, pulling fresh images');
+  }
+
+  // Pull the images that are not present, and only save the bundle when every image is available
+  const pullErrors = await Promise.all(
+    bundleMembers.map((bundleMember) =>
+      presentMembers.includes(bundleMember)
+        ? undefined
+        : imageLimiter(() => pullBundleMember(containerRuntime, bundleMember, operationLimiters))
+    )
+  );
+  const getMemberOutcome = (bundleMember: BundleMember): ServiceResult['outcome'] =>
+    presentMembers.includes(bundleMember) ? 'present' : undefined;
+  if (pullErrors.some((pullError) => pullError !== undefined)) {
+    core.warning('Bundle not saved because not all images could be pulled');
+    return createBundleResults(
+      containerRuntime,
+      bundleMembers,
+      bundleCacheKey,
+      (bundleMember) => {
+        const pullError = pullErrors[bundleMembers.indexOf(bundleMember)];
+        return pullError === undefined
+          ? { success: true, restoredFromCache: false, outcome: getMemberOutcome(bundleMember) }
+          : { success: false, restoredFromCache: false, error: pullError };
+      },
+      true,
+      imageLimiter
+    );
+  }
+  return saveBundle(
+    containerRuntime,
+    bundleMembers,
+    pendingSave,
+    getMemberOutcome,
+    operationLimiters,
+    deferSave,
+    imageLimiter
+  );
+}
+
+/**
+ * Saves the bundle of locally present images to cache, or records the save for the post step when deferred.
+ * The pending save and compression stats are attached to the first member's result only, so they are counted once.
+ *
+ * @param getMemberOutcome - Outcome of each member's result when the bundle is saved
+ */
+async function saveBundle(
+  containerRuntime: ContainerRuntime,
+  bundleMembers: ReadonlyArray<BundleMember>,
+  pendingSave: PendingImageSave,
+  getMemberOutcome: (bundleMember: BundleMember) => ServiceResult['outcome'],
+  operationLimiters: OperationLimiters,
+  deferSave: boolean,
+  imageLimiter: ConcurrencyLimiter
+): Promise<ReadonlyArray<ServiceResult>> {
+  if (deferSave) {
+    core.info('Deferred saving bundle to the post step');
+  }
+  const saveResult: {
+    readonly success: boolean;
+    readonly error?: string | undefined;
+    readonly compressionStats?: CompressionStats | undefined;
+  } = deferSave
+    ? { success: true }
+    : await operationLimiters.save(() => saveImageToCache(containerRuntime, pendingSave));
+
+  return createBundleResults(
+    containerRuntime,
+    bundleMembers,
+    pendingSave.imageCacheKey,
+    (bundleMember) => ({
+      success: saveResult.success,
+      restoredFromCache: false,
+      outcome: saveResult.success ? getMemberOutcome(bundleMember) : undefined,
+      error: saveResult.error,
+      compressionStats: bundleMember === bundleMembers[0] ? saveResult.compressionStats : undefined,
+      pendingSave: deferSave && bundleMember === bundleMembers[0] ? pendingSave : undefined,
+    }),
+    true,
+    imageLimiter
+  );
+}
+
+/**
+ * Attempts to restore images whose digest could not be resolved from the most recently saved bundle, using
+ * prefix matching. This is the bundle counterpart of the registry unavailable fallback of single images:
+ * images present locally after loading the bundle are reported as restored, although they may be outdated.
+ *
+ * @param unresolvedResults - Error results of the images whose digest could not be resolved
+ * @param cacheKeyPrefix - Prefix for cache keys
+ * @param compression - Compression settings bundles are cached with
+ * @param keepTempFiles - Whether to keep the restored tar file after loading it
+ * @returns Promise resolving to one result per unresolved image, keeping the error of images still missing
+ */
+async function restoreUnresolvedFromLatestBundle(
+  containerRuntime: ContainerRuntime,
+  unresolvedResults: ReadonlyArray<ServiceResult>,
+  cacheKeyPrefix: string,
+  compression: CompressionSettings,
+  operationLimiters: OperationLimiters,
+  imageLimiter: ConcurrencyLimiter,
+  keepTempFiles: boolean
+): Promise<ReadonlyArray<ServiceResult>> {
+  const bundleCacheKeyPrefix = generateBundleCacheKeyPrefix(cacheKeyPrefix);
+  const fallbackTarPath = generateBundleTarPath(`${bundleCacheKeyPrefix}fallback`);
+  const cacheResult = await operationLimiters.restore(() =>
+    restoreArchiveFromCache(
+      fallbackTarPath,
+      `${bundleCacheKeyPrefix}fallback`, // This won't match exactly
+      compression.algorithm,
+      [bundleCacheKeyPrefix] // But this prefix will match the latest bundle
+    )
+  );
+  if (!cacheResult.success) {
+    return unresolvedResults;
+  }
+
+  const loadResult = await operationLimiters.restore(() =>
+    loadImageFromArchive(containerRuntime, fallbackTarPath, compression.algorithm, keepTempFiles)
+  );
+  if (!loadResult.success) {
+    core.debug(formatCommandFailure('Failed to load images from fallback bundle', loadResult));
+    return unresolvedResults;
+  }
+
+  return Promise.all(
+    unresolvedResults.map((unresolvedResult) =>
+      imageLimiter(async (): Promise<ServiceResult> => {
+        const inspectInfo = await inspectImageLocal(containerRuntime, unresolvedResult.imageName, false);
+        if (!inspectInfo) {
+          return unresolvedResult;
+        }
+        core.warning(
+          `Registry unavailable for ${unresolvedResult.imageName}. Using cached version. ` +
+            `Image may be outdated. Enable network access or set force-refresh to pull fresh images.`
+        );
+        return {
+          success: true,
+          restoredFromCache: true,
+          imageName: unresolvedResult.imageName,
+          cacheKey: cacheResult.cacheKey || '',
+          digest: undefined,
+          platform: unresolvedResult.platform,
+          imageSize: inspectInfo.Size,
+        };
+      })
+    )
+  );
+}
+
+/**
+ * Processes all Docker Compose services as a single bundle stored in one cache entry.
+ * Images whose digest cannot be resolved are reported as errors and excluded from the bundle, unless digest
+ * verification is skipped and they can be restored from the most recent bundle instead.
+ *
+ * @param serviceDefinitions - The Docker Compose services to process
+ * @param cacheKeyPrefix - Prefix for cache keys
+ * @param skipLatestCheck - Whether to skip digest verification, allowing the registry unavailable fallback
+ * @param forceRefresh - Whether to ignore existing cache and pull fresh images
+ * @param options - Optional settings such as the operating mode, concurrency limiters and deferring cache saves
+ * @returns Promise resolving to one result per service, in the order of the services
+ */
+export async function processServiceBundle(
+  containerRuntime: ContainerRuntime,
+  serviceDefinitions: ReadonlyArray<ComposeService>,
+  cacheKeyPrefix: string,
+  skipLatestCheck = false,
+  forceRefresh = false,
+  options: ServiceProcessingOptions = {}
+): Promise<ReadonlyArray<ServiceResult>> {
+  const imageLimiter = options.imageLimiter ?? unlimitedConcurrency;
+  const mode = options.mode ?? 'full';
+  const resolvedMembers = await Promise.all(
+    serviceDefinitions.map((serviceDefinition) =>
+      imageLimiter(() => resolveBundleMember(containerRuntime, serviceDefinition, cacheKeyPrefix))
+    )
+  );
+  const bundleMembers = resolvedMembers.filter(isBundleMember);
+  const bundleResults =
+    bundleMembers.length > 0
+      ? await processBundleMembers(containerRuntime, bundleMembers, cacheKeyPrefix, forceRefresh, options)
+      : [];
+
+  // Registry unavailable - fall back to the latest bundle for images with a valid name but no digest
+  const unresolvedResults = resolvedMembers.filter(
+    (resolvedMember): resolvedMember is ServiceResult =>
+      !isBundleMember(resolvedMember) && parseImageReference(resolvedMember.imageName) !== undefined
+  );
+  const fallbackResults =
+    skipLatestCheck && !forceRefresh && (mode === 'full' || mode === 'restore') && unresolvedResults.length > 0
+      ? await restoreUnresolvedFromLatestBundle(
+          containerRuntime,
+          unresolvedResults,
+          cacheKeyPrefix,
+          options.compression ?? NO_COMPRESSION,
+          options.operationLimiters ?? UNLIMITED_OPERATION_LIMITERS,
+          imageLimiter,
+          options.keepTempFiles ?? false
+        )
+      : unresolvedResults;
+
+  // Note: Bundle and fallback results are in their own order, so they are matched back to their services here
+  return resolvedMembers.flatMap((resolvedMember) => {
+    if (!isBundleMember(resolvedMember)) {
+      const unresolvedIndex = unresolvedResults.indexOf(resolvedMember);
+      return [unresolvedIndex === -1 ? resolvedMember : (fallbackResults[unresolvedIndex] ?? resolvedMember)];
+    }
+    const bundleResult = bundleResults[bundleMembers.indexOf(resolvedMember)];
+    return bundleResult ? [bundleResult] : [];
+  });
+}
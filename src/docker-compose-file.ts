@@ -4,9 +4,23 @@
  */
 
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import * as core from '@actions/core';
 import * as yaml from 'js-yaml';
-import { chain } from 'lodash';
+import { castArray, chain, mapValues, uniqBy } from 'lodash';
+
+import {
+  type ComposeEnvironment,
+  interpolateComposeDefinition,
+  loadComposeEnvironment,
+} from './docker-compose-interpolation';
+import {
+  type BuildArgs,
+  type DockerfileBaseImage,
+  getDockerfileBaseImages,
+  parseDockerfileBaseImages,
+} from './dockerfile';
+import { expandGlobPattern, isGlobPattern } from './file-utils';
 
 /**
  * Represents a Docker Compose service definition with an image reference.
@@ -14,25 +28,145 @@ import { chain } from 'lodash';
 export type ComposeService = {
   readonly image: string;
   readonly platform?: string;
+  readonly sourceFile?: string;
+};
+
+/**
+ * How to handle Compose files that do not exist.
+ * - `error`: fail the action
+ * - `warn`: log a warning and continue with the existing files
+ * - `ignore`: continue silently with the existing files
+ */
+export type MissingComposeFileMode = 'error' | 'warn' | 'ignore';
+
+/**
+ * Represents a service definition as written in a Docker Compose file.
+ * Only the fields relevant for image caching are declared.
+ */
+type ComposeServiceDefinition = {
+  readonly image?: string;
+  readonly platform?: string;
+  readonly profiles?: ReadonlyArray<string>;
+  readonly extends?: string | ComposeExtendsDefinition;
+  readonly build?: string | ComposeBuildDefinition;
+};
+
+/**
+ * Represents the long syntax of a service's `build` attribute.
+ * Only the fields needed to locate the Dockerfile and resolve its base images are declared.
+ */
+type ComposeBuildDefinition = {
+  readonly context?: string;
+  readonly dockerfile?: string;
+  readonly dockerfile_inline?: string;
+  readonly target?: string;
+  readonly args?: Readonly<Record<string, string | number | boolean | null>> | ReadonlyArray<string>;
+};
+
+/**
+ * Build definition in long syntax whose context, if set, is resolved relative to the declaring file.
+ * The context is only set when declared, so that merging an override without a context keeps the base context;
+ * `defaultContext` is the directory of the declaring file, used when no merged definition declares a context.
+ */
+type ResolvedBuildDefinition = ComposeBuildDefinition & {
+  readonly defaultContext: string;
+};
+
+/**
+ * Represents the long syntax of a service's `extends` attribute.
+ * When `file` is omitted, the base service is looked up in the same Compose file.
+ */
+type ComposeExtendsDefinition = {
+  readonly file?: string;
+  readonly service: string;
+};
+
+/**
+ * Raw service definitions of a single Compose file keyed by service name.
+ * Services declared without any attributes (e.g., `app:`) are parsed as null.
+ */
+type RawServiceDefinitions = Readonly<Record<string, ComposeServiceDefinition | null>>;
+
+/**
+ * Service definition annotated with the Compose file that declared its effective image.
+ */
+type SourcedServiceDefinition = Omit<ComposeServiceDefinition, 'build'> & {
+  readonly build?: ResolvedBuildDefinition;
+  readonly sourceFile: string;
+};
+
+/**
+ * Service definitions keyed by service name.
+ */
+type ComposeServiceDefinitions = Readonly<Record<string, SourcedServiceDefinition>>;
+
+/**
+ * Represents the long syntax of an entry in the top-level `include` section.
+ */
+type ComposeIncludeDefinition = {
+  readonly path: string | ReadonlyArray<string>;
+  readonly project_directory?: string;
+  readonly env_file?: string | ReadonlyArray<string>;
 };
 
 /**
  * Represents the structure of a Docker Compose file.
  */
 type ComposeFile = {
-  readonly services?: Record<string, ComposeService>;
+  readonly include?: ReadonlyArray<string | ComposeIncludeDefinition>;
+  readonly services?: RawServiceDefinitions;
 };
 
 /**
- * Default Docker Compose filenames to look for if none are specified.
+ * Default Dockerfile name within a build context.
+ */
+const DEFAULT_DOCKERFILE_NAME = 'Dockerfile';
+
+/**
+ * Pattern for build contexts that are not local directories (e.g., Git repositories or URLs).
+ */
+const REMOTE_BUILD_CONTEXT_PATTERN = /^(?:[a-z][a-z0-9+.-]*:\/\/|git@|github\.com\/)/i;
+
+/**
+ * Default Docker Compose filenames to look for if none are specified, in Docker Compose's order of preference.
  */
 const DEFAULT_COMPOSE_FILE_NAMES: ReadonlyArray<string> = [
   'compose.yaml',
   'compose.yml',
-  'docker-compose.yaml',
   'docker-compose.yml',
+  'docker-compose.yaml',
 ];
 
+/**
+ * Override filenames that Docker Compose loads automatically next to a default Compose file.
+ */
+const DEFAULT_COMPOSE_OVERRIDE_FILE_NAMES: ReadonlyArray<string> = [
+  'compose.override.yml',
+  'compose.override.yaml',
+  'docker-compose.override.yml',
+  'docker-compose.override.yaml',
+];
+
+/**
+ * Environment variable used by Docker Compose to specify the Compose files to load.
+ */
+const COMPOSE_FILE_ENV = 'COMPOSE_FILE';
+
+/**
+ * Environment variable used by Docker Compose to specify the separator of COMPOSE_FILE entries.
+ */
+const COMPOSE_PATH_SEPARATOR_ENV = 'COMPOSE_PATH_SEPARATOR';
+
+/**
+ * Environment variable used by Docker Compose to select active profiles.
+ */
+const COMPOSE_PROFILES_ENV = 'COMPOSE_PROFILES';
+
+/**
+ * Profile name that activates all profiles.
+ */
+const ALL_PROFILES = '*';
+
 /**
  * Converts a glob-style pattern to a regular expression.
  * Supports `*` as a wildcard matching any characters and `?` matching a single character.
@@ -67,56 +201,732 @@ export function matchesExcludePattern(imageName: string, patterns: ReadonlyArray
   });
 }
 
+/**
+ * Resolves the active Compose profiles.
+ * Explicitly specified profiles take precedence over the COMPOSE_PROFILES environment variable,
+ * mirroring how the `--profile` flag overrides it in Docker Compose. Entries may be comma-separated.
+ *
+ * @param profileInputs - Profiles specified via action input (e.g., ["debug", "observability,metrics"]).
+ * @returns Array of active profile names.
+ */
+export function resolveActiveProfiles(profileInputs: ReadonlyArray<string>): ReadonlyArray<string> {
+  const profileEntries = profileInputs.length > 0 ? profileInputs : [process.env[COMPOSE_PROFILES_ENV] ?? ''];
+  return profileEntries
+    .flatMap((profileEntry) => profileEntry.split(','))
+    .map((profileName) => profileName.trim())
+    .filter((profileName) => profileName !== '');
+}
+
+/**
+ * Checks whether a service would be started for the given active profiles.
+ * Services without profiles are always enabled; services with profiles are enabled
+ * only when one of their profiles is active or all profiles are enabled with '*'.
+ *
+ * @param serviceDefinition - Service definition from a Compose file.
+ * @param activeProfiles - Active profile names.
+ * @returns true if the service is enabled.
+ */
+function isServiceEnabled(serviceDefinition: ComposeServiceDefinition, activeProfiles: ReadonlyArray<string>): boolean {
+  const serviceProfiles = serviceDefinition.profiles ?? [];
+  return (
+    serviceProfiles.length === 0 ||
+    activeProfiles.includes(ALL_PROFILES) ||
+    serviceProfiles.some((profileName) => activeProfiles.includes(profileName))
+  );
+}
+
+/**
+ * Returns the Compose file paths specified by the COMPOSE_FILE environment variable.
+ * Entries are separated by COMPOSE_PATH_SEPARATOR, or by the platform path delimiter
+ * (`:` on Linux and macOS, `;` on Windows) when it is not set.
+ *
+ * @returns Array of Compose file paths, or an empty array if COMPOSE_FILE is not set.
+ */
+function getComposeFilePathsFromEnvironment(): ReadonlyArray<string> {
+  const pathSeparator = process.env[COMPOSE_PATH_SEPARATOR_ENV] || path.delimiter;
+  return (process.env[COMPOSE_FILE_ENV] ?? '')
+    .split(pathSeparator)
+    .map((filePath) => filePath.trim())
+    .filter((filePath) => filePath !== '');
+}
+
+/**
+ * Reports missing Compose files according to the configured mode.
+ *
+ * @param message - Description of the missing files.
+ * @param missingComposeFileMode - How to handle missing Compose files.
+ * @throws Error if the mode is `error`.
+ */
+function reportMissingComposeFiles(message: string, missingComposeFileMode: MissingComposeFileMode): void {
+  switch (missingComposeFileMode) {
+    case 'error':
+      throw new Error(message);
+    case 'warn':
+      core.warning(message);
+      break;
+    case 'ignore':
+      core.debug(message);
+      break;
+  }
+}
+
+/**
+ * Filters out Compose file paths that do not exist and reports them.
+ *
+ * @param composeFilePaths - Compose file paths to check.
+ * @param origin - Where the paths were specified, used in the report (e.g., "compose-files input").
+ * @param missingComposeFileMode - How to handle missing Compose files.
+ * @returns Array of existing Compose file paths.
+ */
+function filterExistingComposeFiles(
+  composeFilePaths: ReadonlyArray<string>,
+  origin: string,
+  missingComposeFileMode: MissingComposeFileMode
+): ReadonlyArray<string> {
+  const missingFilePaths = composeFilePaths.filter((filePath) => !fs.existsSync(filePath));
+  if (missingFilePaths.length > 0) {
+    reportMissingComposeFiles(
+      `Compose file(s) from ${origin} not found: ${missingFilePaths.join(', ')}`,
+      missingComposeFileMode
+    );
+  }
+  return composeFilePaths.filter((filePath) => !missingFilePaths.includes(filePath));
+}
+
+/**
+ * Returns the default Compose files that Docker Compose would load from a directory:
+ * the first existing default Compose file, followed by the first existing override file.
+ *
+ * @param directoryPath - Directory to look in. Defaults to the working directory.
+ * @returns Array of existing default Compose file paths.
+ */
+function getDefaultComposeFilePaths(directoryPath = '.'): ReadonlyArray<string> {
+  const [composeFilePath] = DEFAULT_COMPOSE_FILE_NAMES.map((fileName) => path.join(directoryPath, fileName)).filter(
+    (filePath) => fs.existsSync(filePath)
+  );
+  if (composeFilePath === undefined) {
+    return [];
+  }
+  const [overrideFilePath] = DEFAULT_COMPOSE_OVERRIDE_FILE_NAMES.map((fileName) =>
+    path.join(directoryPath, fileName)
+  ).filter((filePath) => fs.existsSync(filePath));
+  return overrideFilePath !== undefined ? [composeFilePath, overrideFilePath] : [composeFilePath];
+}
+
+/**
+ * Checks whether a path refers to an existing directory.
+ *
+ * @param filePath - Path to check.
+ * @returns true if the path is a directory.
+ */
+function isDirectory(filePath: string): boolean {
+  return fs.statSync(filePath, { throwIfNoEntry: false })?.isDirectory() ?? false;
+}
+
 /**
  * Returns the list of Docker Compose file paths to process, based on input or defaults.
+ * Without explicit paths, the files are discovered like `docker compose` does: from the COMPOSE_FILE
+ * environment variable if set, otherwise from the default file names including an automatic override file.
  *
- * @param candidateComposeFilePaths - Array of paths to Docker Compose files to check. If empty, default file names are used.
+ * Missing files, or the absence of any default file, are reported according to `missingComposeFileMode`.
+ *
+ * @param candidateComposeFilePaths - Array of paths to Docker Compose files to check. If empty, COMPOSE_FILE or default file names are used.
+ * @param missingComposeFileMode - How to handle Compose files that do not exist.
  * @returns Array of existing Docker Compose file paths to process.
+ * @throws Error if a Compose file is missing and the mode is `error`.
+ */
+export function getComposeFilePathsToProcess(
+  candidateComposeFilePaths: ReadonlyArray<string>,
+  missingComposeFileMode: MissingComposeFileMode = 'warn'
+): ReadonlyArray<string> {
+  if (candidateComposeFilePaths.length > 0) {
+    return filterExistingComposeFiles(candidateComposeFilePaths, 'compose-files input', missingComposeFileMode);
+  }
+
+  const environmentComposeFilePaths = getComposeFilePathsFromEnvironment();
+  if (environmentComposeFilePaths.length > 0) {
+    core.debug(`Using Compose files from ${COMPOSE_FILE_ENV}: ${environmentComposeFilePaths.join(', ')}`);
+    return filterExistingComposeFiles(environmentComposeFilePaths, COMPOSE_FILE_ENV, missingComposeFileMode);
+  }
+
+  const defaultComposeFilePaths = getDefaultComposeFilePaths();
+  if (defaultComposeFilePaths.length === 0) {
+    reportMissingComposeFiles(
+      `No Compose file found in the working directory. Tried default names: ${DEFAULT_COMPOSE_FILE_NAMES.join(', ')}`,
+      missingComposeFileMode
+    );
+  }
+  return defaultComposeFilePaths;
+}
+
+/**
+ * Returns the Compose projects to process, each as the list of its Compose files in override order.
+ * Literal file paths in the input form a single project, as with `docker compose -f`.
+ * Glob patterns (e.g., `services/**\/compose.yaml`) expand to one project per matching file,
+ * and directory entries expand to a project of the default Compose file and override file inside them.
+ * Without input, the files discovered by `getComposeFilePathsToProcess` form a single project.
+ *
+ * @param candidateComposeFilePaths - Paths, glob patterns or directories from the compose-files input.
+ * @param missingComposeFileMode - How to handle paths, patterns or directories without Compose files.
+ * @returns Array of Compose projects, each an array of existing Compose file paths.
+ * @throws Error if a Compose file is missing and the mode is `error`.
+ */
+export function getComposeProjectsToProcess(
+  candidateComposeFilePaths: ReadonlyArray<string>,
+  missingComposeFileMode: MissingComposeFileMode = 'warn'
+): ReadonlyArray<ReadonlyArray<string>> {
+  const literalFilePaths = candidateComposeFilePaths.filter(
+    (candidatePath) => !isGlobPattern(candidatePath) && !isDirectory(candidatePath)
+  );
+  const literalProject =
+    candidateComposeFilePaths.length === 0 || literalFilePaths.length > 0
+      ? getComposeFilePathsToProcess(literalFilePaths, missingComposeFileMode)
+      : [];
+
+  const discoveredProjects = candidateComposeFilePaths.flatMap((candidatePath): ReadonlyArray<string>[] => {
+    if (isGlobPattern(candidatePath)) {
+      const matchingFilePaths = expandGlobPattern(candidatePath);
+      if (matchingFilePaths.length === 0) {
+        reportMissingComposeFiles(`No Compose files match pattern ${candidatePath}`, missingComposeFileMode);
+      }
+      return matchingFilePaths.map((filePath) => [filePath]);
+    }
+    if (isDirectory(candidatePath)) {
+      const directoryProject = getDefaultComposeFilePaths(candidatePath);
+      if (directoryProject.length === 0) {
+        reportMissingComposeFiles(
+          `No Compose file found in directory ${candidatePath}. Tried default names: ${DEFAULT_COMPOSE_FILE_NAMES.join(', ')}`,
+          missingComposeFileMode
+        );
+        return [];
+      }
+      return [directoryProject];
+    }
+    return [];
+  });
+
+  return [literalProject, ...discoveredProjects].filter((project) => project.length > 0);
+}
+
+/**
+ * Resolves a path declared in a Compose file relative to the directory of that file.
+ *
+ * @param baseDirectory - Directory of the declaring Compose file.
+ * @param filePath - Path as written in the Compose file.
+ * @returns The path itself if absolute, otherwise the path joined to the base directory.
+ */
+function resolveComposePath(baseDirectory: string, filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(baseDirectory, filePath);
+}
+
+/**
+ * Normalizes a service's `build` attribute and resolves a local build context relative to the declaring file.
+ *
+ * @param build - Build attribute as written in the Compose file.
+ * @param baseDirectory - Directory of the declaring Compose file.
+ * @returns Build definition in long syntax with a resolved context.
+ */
+function resolveBuildDefinition(
+  build: string | ComposeBuildDefinition,
+  baseDirectory: string
+): ResolvedBuildDefinition {
+  const { context, ...buildDefinition }: ComposeBuildDefinition =
+    typeof build === 'string' ? { context: build } : build;
+  return {
+    ...buildDefinition,
+    ...(context !== undefined && {
+      context: REMOTE_BUILD_CONTEXT_PATTERN.test(context) ? context : resolveComposePath(baseDirectory, context),
+    }),
+    defaultContext: baseDirectory,
+  };
+}
+
+/**
+ * Converts build arguments from the map or list syntax to the map syntax, so they can be merged by name.
+ * Arguments without a value keep a null value, to be read from the process environment.
+ *
+ * @param args - Build arguments as written in the Compose file.
+ * @returns Build arguments keyed by name.
+ */
+function toBuildArgMap(
+  args: ComposeBuildDefinition['args']
+): Readonly<Record<string, string | number | boolean | null>> {
+  return Object.fromEntries(
+    Array.isArray(args)
+      ? args.map((argEntry: string) => {
+          const [argName = '', ...valueParts] = argEntry.split('=');
+          return [argName, valueParts.length > 0 ? valueParts.join('=') : null];
+        })
+      : Object.entries(args ?? {})
+  );
+}
+
+/**
+ * Merges the build definition of an override into that of the base service key by key, like Docker Compose:
+ * attributes declared by the override take precedence, and build arguments are merged by name.
+ *
+ * @param baseBuild - Build definition of the base service, if any.
+ * @param overrideBuild - Build definition of the override, if any.
+ * @returns Merged build definition, or undefined if neither declares one.
+ */
+function mergeBuildDefinition(
+  baseBuild: ResolvedBuildDefinition | undefined,
+  overrideBuild: ResolvedBuildDefinition | undefined
+): ResolvedBuildDefinition | undefined {
+  if (baseBuild === undefined || overrideBuild === undefined) {
+    return overrideBuild ?? baseBuild;
+  }
+  return {
+    ...baseBuild,
+    ...overrideBuild,
+    ...(baseBuild.args !== undefined &&
+      overrideBuild.args !== undefined && {
+        args: { ...toBuildArgMap(baseBuild.args), ...toBuildArgMap(overrideBuild.args) },
+      }),
+    // An override without a context builds from the context of the base service
+    defaultContext: baseBuild.context ?? baseBuild.defaultContext,
+  };
+}
+
+/**
+ * Normalizes build arguments from the map or list syntax.
+ * Arguments without a value (e.g., `- VERSION` or `VERSION:`) are read from the process environment.
+ *
+ * @param args - Build arguments as written in the Compose file.
+ * @returns Build arguments keyed by name.
+ */
+function normalizeBuildArgs(args: ComposeBuildDefinition['args']): BuildArgs {
+  const argEntries: ReadonlyArray<readonly [string, string | undefined]> = Array.isArray(args)
+    ? args.map((argEntry: string) => {
+        const [argName = '', ...valueParts] = argEntry.split('=');
+        return [argName, valueParts.length > 0 ? valueParts.join('=') : process.env[argName]] as const;
+      })
+    : Object.entries(args ?? {}).map(
+        ([argName, argValue]) => [argName, argValue === null ? process.env[argName] : String(argValue)] as const
+      );
+  return Object.fromEntries(argEntries);
+}
+
+/**
+ * Extracts the external base images of an inline Dockerfile.
+ * Like Dockerfiles on disk, a Dockerfile that fails to parse is reported as a warning and contributes no images.
+ *
+ * @param dockerfileContent - Content of the `dockerfile_inline` attribute.
+ * @param buildArgs - Build arguments of the service.
+ * @param target - Target stage of the build, if any.
+ * @param composeFilePath - Path to the Compose file declaring the inline Dockerfile.
+ * @returns Base images of the inline Dockerfile, or an empty array if it cannot be parsed.
+ */
+function getInlineDockerfileBaseImages(
+  dockerfileContent: string,
+  buildArgs: BuildArgs,
+  target: string | undefined,
+  composeFilePath: string
+): ReadonlyArray<DockerfileBaseImage> {
+  try {
+    return parseDockerfileBaseImages(dockerfileContent, buildArgs, target);
+  } catch (dockerfileError) {
+    core.warning(`Failed to parse inline Dockerfile in ${composeFilePath}: ${dockerfileError}`);
+    return [];
+  }
+}
+
+/**
+ * Extracts the external base images of a service's build from its Dockerfile.
+ * Respects `dockerfile`, `dockerfile_inline`, `target` and `args`. Remote build contexts are skipped.
+ *
+ * @param buildDefinition - Resolved build definition of the service.
+ * @param servicePlatform - Platform of the service, used for stages without `--platform`.
+ * @param composeFilePath - Path to the Compose file declaring the service, attributed to inline Dockerfiles.
+ * @returns Base images as Compose services attributed to their Dockerfile.
+ */
+function getBuildBaseImages(
+  buildDefinition: ResolvedBuildDefinition,
+  servicePlatform: string | undefined,
+  composeFilePath: string
+): ReadonlyArray<ComposeService> {
+  const context = buildDefinition.context ?? buildDefinition.defaultContext;
+  if (REMOTE_BUILD_CONTEXT_PATTERN.test(context)) {
+    core.debug(`Skipping base images of remote build context ${context}`);
+    return [];
+  }
+
+  const buildArgs = normalizeBuildArgs(buildDefinition.args);
+  const dockerfilePath =
+    buildDefinition.dockerfile_inline !== undefined
+      ? composeFilePath
+      : resolveComposePath(context, buildDefinition.dockerfile ?? DEFAULT_DOCKERFILE_NAME);
+  const baseImages =
+    buildDefinition.dockerfile_inline !== undefined
+      ? getInlineDockerfileBaseImages(
+          buildDefinition.dockerfile_inline,
+          buildArgs,
+          buildDefinition.target,
+          composeFilePath
+        )
+      : getDockerfileBaseImages(dockerfilePath, buildArgs, buildDefinition.target);
+
+  return baseImages.map((baseImage) => {
+    const platform = baseImage.platform ?? servicePlatform;
+    return { image: baseImage.image, ...(platform !== undefined && { platform }), sourceFile: dockerfilePath };
+  });
+}
+
+/**
+ * Merges a single service definition into a base definition of the same service.
+ * Attributes of the override definition take precedence, except for `build`, which is merged key by key.
+ * The merged service keeps the source file of the base definition unless the override declares an image.
+ *
+ * @param baseDefinition - Base service definition, if any.
+ * @param overrideDefinition - Service definition overriding the base.
+ * @returns Merged service definition.
+ */
+function mergeServiceDefinition(
+  baseDefinition: SourcedServiceDefinition | undefined,
+  overrideDefinition: SourcedServiceDefinition
+): SourcedServiceDefinition {
+  const build = mergeBuildDefinition(baseDefinition?.build, overrideDefinition.build);
+  return {
+    ...baseDefinition,
+    ...overrideDefinition,
+    ...(build !== undefined && { build }),
+    sourceFile:
+      baseDefinition && overrideDefinition.image === undefined
+        ? baseDefinition.sourceFile
+        : overrideDefinition.sourceFile,
+  };
+}
+
+/**
+ * Merges service definitions from a later Compose file into those of earlier files.
+ * Services are matched by name, and attributes of the later file (such as `image` and `platform`)
+ * override those of the earlier ones, following the Docker Compose merge rules.
+ *
+ * @param baseServiceDefinitions - Service definitions merged from earlier files.
+ * @param overrideServiceDefinitions - Service definitions from the later file.
+ * @returns Merged service definitions keyed by service name.
  */
-export function getComposeFilePathsToProcess(candidateComposeFilePaths: ReadonlyArray<string>): ReadonlyArray<string> {
-  return candidateComposeFilePaths.length > 0
-    ? candidateComposeFilePaths.filter((filePath) => fs.existsSync(filePath))
-    : DEFAULT_COMPOSE_FILE_NAMES.filter((fileName) => fs.existsSync(fileName));
+function mergeComposeServiceDefinitions(
+  baseServiceDefinitions: ComposeServiceDefinitions,
+  overrideServiceDefinitions: ComposeServiceDefinitions
+): ComposeServiceDefinitions {
+  return {
+    ...baseServiceDefinitions,
+    ...mapValues(overrideServiceDefinitions, (overrideDefinition, serviceName) =>
+      mergeServiceDefinition(baseServiceDefinitions[serviceName], overrideDefinition)
+    ),
+  };
+}
+
+/**
+ * Reads a Docker Compose file and interpolates its contents.
+ *
+ * @param composeFilePath - Path to the Docker Compose file.
+ * @param environment - Variables available for interpolating the file.
+ * @returns Parsed Compose file, or undefined if the file is empty.
+ * @throws Error if the file cannot be read, parsed or interpolated.
+ */
+function loadComposeFile(composeFilePath: string, environment: ComposeEnvironment): ComposeFile | undefined {
+  const yamlContent = fs.readFileSync(composeFilePath, 'utf8');
+  return interpolateComposeDefinition(yaml.load(yamlContent), environment) as ComposeFile | undefined;
+}
+
+/**
+ * Resolves a service definition together with the services it `extends`, following same-file
+ * and cross-file chains. Attributes of the extending service override those inherited from its base.
+ * Files referenced by `extends.file` are resolved relative to the extending file.
+ *
+ * @param serviceName - Name of the service to resolve.
+ * @param serviceDefinitions - Raw service definitions of the file declaring the service.
+ * @param composeFilePath - Path to the Compose file declaring the service.
+ * @param environment - Variables available for interpolating referenced files.
+ * @param extendsChain - Services currently being resolved (as `file#service`), used to detect cycles.
+ * @returns Resolved service definition, or undefined if the service does not exist or extends itself.
+ */
+function resolveServiceDefinition(
+  serviceName: string,
+  serviceDefinitions: RawServiceDefinitions,
+  composeFilePath: string,
+  environment: ComposeEnvironment,
+  extendsChain: ReadonlyArray<string>
+): SourcedServiceDefinition | undefined {
+  if (!(serviceName in serviceDefinitions)) {
+    core.warning(`Service ${serviceName} not found in ${composeFilePath}`);
+    return undefined;
+  }
+  const serviceKey = `${path.resolve(composeFilePath)}#${serviceName}`;
+  if (extendsChain.includes(serviceKey)) {
+    core.warning(`Circular extends detected: ${[...extendsChain, serviceKey].join(' -> ')}`);
+    return undefined;
+  }
+
+  const { build, ...rawServiceDefinition } = serviceDefinitions[serviceName] ?? {};
+  const serviceDefinition: SourcedServiceDefinition = {
+    ...rawServiceDefinition,
+    ...(build !== undefined && { build: resolveBuildDefinition(build, path.dirname(composeFilePath)) }),
+    sourceFile: composeFilePath,
+  };
+  if (serviceDefinition.extends === undefined) {
+    return serviceDefinition;
+  }
+
+  const extendsDefinition: ComposeExtendsDefinition =
+    typeof serviceDefinition.extends === 'string' ? { service: serviceDefinition.extends } : serviceDefinition.extends;
+  const baseFilePath =
+    extendsDefinition.file !== undefined
+      ? resolveComposePath(path.dirname(composeFilePath), extendsDefinition.file)
+      : composeFilePath;
+
+  try {
+    const baseServiceDefinitions =
+      extendsDefinition.file !== undefined
+        ? (loadComposeFile(baseFilePath, environment)?.services ?? {})
+        : serviceDefinitions;
+    const baseDefinition = resolveServiceDefinition(
+      extendsDefinition.service,
+      baseServiceDefinitions,
+      baseFilePath,
+      environment,
+      [...extendsChain, serviceKey]
+    );
+    return mergeServiceDefinition(baseDefinition, serviceDefinition);
+  } catch (extendsError) {
+    core.warning(`Failed to resolve extends of service ${serviceName} from ${baseFilePath}: ${extendsError}`);
+    return serviceDefinition;
+  }
+}
+
+/**
+ * Reads the Compose files referenced by a single `include` entry.
+ * Paths are resolved relative to the including file. Included files are interpolated with the env files
+ * of the entry, or with the `.env` file of its project directory (by default the directory of the first path).
+ *
+ * @param includeEntry - Entry of the `include` section, in short (path) or long syntax.
+ * @param includingFilePath - Path to the Compose file that declares the entry.
+ * @param includeChain - Resolved paths of the files currently being included, used to detect cycles.
+ * @returns Merged service definitions of the included files.
+ */
+function readIncludedServiceDefinitions(
+  includeEntry: string | ComposeIncludeDefinition,
+  includingFilePath: string,
+  includeChain: ReadonlyArray<string>
+): ComposeServiceDefinitions {
+  const includeDefinition: ComposeIncludeDefinition =
+    typeof includeEntry === 'string' ? { path: includeEntry } : includeEntry;
+  const baseDirectory = path.dirname(includingFilePath);
+  const includedFilePaths = castArray(includeDefinition.path).map((filePath) =>
+    resolveComposePath(baseDirectory, filePath)
+  );
+  const firstIncludedFilePath = includedFilePaths[0];
+  if (firstIncludedFilePath === undefined) {
+    core.warning(`Invalid include entry without path in ${includingFilePath}`);
+    return {};
+  }
+
+  const projectDirectory =
+    includeDefinition.project_directory !== undefined
+      ? resolveComposePath(baseDirectory, includeDefinition.project_directory)
+      : path.dirname(firstIncludedFilePath);
+  const envFilePaths =
+    includeDefinition.env_file !== undefined
+      ? castArray(includeDefinition.env_file).map((envFilePath) => resolveComposePath(baseDirectory, envFilePath))
+      : undefined;
+  const environment = loadIncludeEnvironment(projectDirectory, envFilePaths, firstIncludedFilePath, includingFilePath);
+  if (environment === undefined) {
+    return {};
+  }
+
+  return includedFilePaths
+    .map((includedFilePath) => {
+      const resolvedFilePath = path.resolve(includedFilePath);
+      if (includeChain.includes(resolvedFilePath)) {
+        core.warning(
+          `Circular include detected: ${[...includeChain, resolvedFilePath].join(' -> ')}. Skipping ${includedFilePath}`
+        );
+        return {};
+      }
+      if (!fs.existsSync(includedFilePath)) {
+        core.warning(`Included Compose file not found: ${includedFilePath} (included from ${includingFilePath})`);
+        return {};
+      }
+      return readComposeServiceDefinitions(includedFilePath, environment, [...includeChain, resolvedFilePath]);
+    })
+    .reduce(mergeComposeServiceDefinitions, {});
+}
+
+/**
+ * Loads the interpolation environment of an include entry.
+ * As in Compose, the env files listed by the entry must exist. When they cannot be read, the entry is skipped
+ * with a warning, so that the services of the including file are still returned.
+ *
+ * @param projectDirectory - Project directory of the included files.
+ * @param envFilePaths - Env files listed by the include entry, or undefined to load the project's `.env` file.
+ * @param includedFilePath - First file of the include entry, used in the warning.
+ * @param includingFilePath - Path of the file declaring the include entry, used in the warning.
+ * @returns Variables available for interpolating the included files, or undefined if they cannot be loaded.
+ */
+function loadIncludeEnvironment(
+  projectDirectory: string,
+  envFilePaths: ReadonlyArray<string> | undefined,
+  includedFilePath: string,
+  includingFilePath: string
+): ComposeEnvironment | undefined {
+  try {
+    const missingEnvFilePath = envFilePaths?.find((envFilePath) => !fs.existsSync(envFilePath));
+    if (missingEnvFilePath !== undefined) {
+      throw new Error(`Env file not found: ${missingEnvFilePath}`);
+    }
+    return loadComposeEnvironment(projectDirectory, envFilePaths);
+  } catch (envFileError) {
+    core.warning(
+      `Skipping include of ${includedFilePath} in ${includingFilePath}, its env files cannot be read: ${envFileError}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Reads a Docker Compose file and returns its interpolated service definitions keyed by service name.
+ * Files referenced by the top-level `include` section are resolved recursively, and their services
+ * are merged beneath the services declared in the file itself. Services using `extends` inherit
+ * the attributes of their base services.
+ *
+ * @param composeFilePath - Path to the Docker Compose file.
+ * @param environment - Variables available for interpolating the file, shared by all files of its project.
+ * @param includeChain - Resolved paths of the files currently being included, including this file.
+ * @returns Service definitions keyed by service name, or an empty object if the file cannot be parsed.
+ */
+function readComposeServiceDefinitions(
+  composeFilePath: string,
+  environment: ComposeEnvironment,
+  includeChain: ReadonlyArray<string>
+): ComposeServiceDefinitions {
+  try {
+    const composeDefinition = loadComposeFile(composeFilePath, environment);
+
+    if (!composeDefinition) {
+      core.debug(`Empty or invalid YAML file: ${composeFilePath}`);
+      return {};
+    }
+
+    if (!composeDefinition.services && !composeDefinition.include) {
+      core.debug(`No services section found in ${composeFilePath}`);
+      return {};
+    }
+
+    const includedServiceDefinitions = (composeDefinition.include ?? [])
+      .map((includeEntry) => readIncludedServiceDefinitions(includeEntry, composeFilePath, includeChain))
+      .reduce(mergeComposeServiceDefinitions, {});
+
+    const rawServiceDefinitions = composeDefinition.services ?? {};
+    const ownServiceDefinitions = mapValues(
+      rawServiceDefinitions,
+      (_serviceDefinition, serviceName): SourcedServiceDefinition =>
+        resolveServiceDefinition(serviceName, rawServiceDefinitions, composeFilePath, environment, []) ?? {
+          sourceFile: composeFilePath,
+        }
+    );
+
+    return mergeComposeServiceDefinitions(includedServiceDefinitions, ownServiceDefinitions);
+  } catch (yamlParsingError) {
+    core.warning(`Failed to parse ${composeFilePath}: ${yamlParsingError}`);
+    return {};
+  }
+}
+
+/**
+ * Loads the interpolation environment of a Compose project from its `.env` file.
+ * An unreadable `.env` file is reported with a warning, and only the process environment is used.
+ *
+ * @param projectDirectory - Directory of the Compose project.
+ * @returns Variables available for interpolating the Compose files of the project.
+ */
+function loadProjectEnvironment(projectDirectory: string): ComposeEnvironment {
+  try {
+    return loadComposeEnvironment(projectDirectory);
+  } catch (envFileError) {
+    core.warning(`Failed to read the .env file of ${projectDirectory}: ${envFileError}`);
+    return loadComposeEnvironment(projectDirectory, []);
+  }
 }
 
 /**
  * Extracts Docker Compose services from specified files and filters them based on exclusion patterns.
+ * The files are treated as a single Compose project: services with the same name are merged,
+ * with later files overriding earlier ones, so only the effective image of each service is returned.
+ * All files are interpolated with the `.env` file of the project directory, the directory of the first file.
+ * Services from files referenced by `include` are resolved recursively and attributed to their source file,
+ * and services using `extends` inherit the image and platform of their base services.
+ * Optionally, the external base images of services with a `build` section are extracted from their Dockerfiles.
+ * Services assigned to profiles are only included when one of their profiles is active.
  * Removes duplicate services (same image and platform).
  *
- * @param composeFilePaths - Array of paths to Docker Compose files to parse. Each file is read and parsed as YAML.
+ * @param composeFilePaths - Array of paths to Docker Compose files to parse, in override order. Each file is read and parsed as YAML.
  * @param excludedImagePatterns - Array of image patterns to exclude from results. Supports exact matches and glob patterns with `*` and `?`.
+ * @param activeProfiles - Active Compose profiles. Services without profiles are always included.
+ * @param includeBuildBaseImages - Whether to include the base images of services with a `build` section.
  * @returns Array of unique ComposeService objects from all valid files (duplicates by image+platform are removed).
  */
 export function getComposeServicesFromFiles(
   composeFilePaths: ReadonlyArray<string>,
-  excludedImagePatterns: ReadonlyArray<string>
+  excludedImagePatterns: ReadonlyArray<string>,
+  activeProfiles: ReadonlyArray<string> = [],
+  includeBuildBaseImages = false
 ): ReadonlyArray<ComposeService> {
-  return chain(composeFilePaths)
-    .flatMap((currentComposeFile) => {
-      try {
-        const yamlContent = fs.readFileSync(currentComposeFile, 'utf8');
-        const composeDefinition = yaml.load(yamlContent) as ComposeFile | undefined;
-
-        if (!composeDefinition) {
-          core.debug(`Empty or invalid YAML file: ${currentComposeFile}`);
-          return [];
-        }
-
-        if (!composeDefinition.services) {
-          core.debug(`No services section found in ${currentComposeFile}`);
-          return [];
-        }
-
-        return Object.values(composeDefinition.services);
-      } catch (yamlParsingError) {
-        core.warning(`Failed to parse ${currentComposeFile}: ${yamlParsingError}`);
-        return [];
-      }
-    })
-    .filter(
-      (composeService) =>
-        composeService.image !== undefined && !matchesExcludePattern(composeService.image, excludedImagePatterns)
+  const [firstComposeFilePath] = composeFilePaths;
+  if (firstComposeFilePath === undefined) {
+    return [];
+  }
+  // Like Docker Compose, the project directory holds the .env file used for every file of the project
+  const projectEnvironment = loadProjectEnvironment(path.dirname(firstComposeFilePath));
+  const mergedServiceDefinitions = composeFilePaths
+    .map((currentComposeFile) =>
+      readComposeServiceDefinitions(currentComposeFile, projectEnvironment, [path.resolve(currentComposeFile)])
     )
+    .reduce(mergeComposeServiceDefinitions, {});
+
+  return chain(Object.values(mergedServiceDefinitions))
+    .filter((serviceDefinition) => isServiceEnabled(serviceDefinition, activeProfiles))
+    .flatMap((serviceDefinition): ComposeService[] => [
+      ...(serviceDefinition.image !== undefined
+        ? [
+            {
+              image: serviceDefinition.image,
+              ...(serviceDefinition.platform !== undefined && { platform: serviceDefinition.platform }),
+              sourceFile: serviceDefinition.sourceFile,
+            },
+          ]
+        : []),
+      ...(includeBuildBaseImages && typeof serviceDefinition.build === 'object'
+        ? getBuildBaseImages(serviceDefinition.build, serviceDefinition.platform, serviceDefinition.sourceFile)
+        : []),
+    ])
+    .filter((composeService) => !matchesExcludePattern(composeService.image, excludedImagePatterns))
     .uniqBy((composeService) => `${composeService.image}|${composeService.platform ?? ''}`)
     .value();
 }
+
+/**
+ * Extracts Docker Compose services from multiple independent Compose projects.
+ * Services are merged within each project only, and duplicate services (same image and platform)
+ * across projects are removed.
+ *
+ * @param composeProjects - Compose projects, each an array of Compose file paths in override order.
+ * @param excludedImagePatterns - Array of image patterns to exclude from results. Supports exact matches and glob patterns with `*` and `?`.
+ * @param activeProfiles - Active Compose profiles. Services without profiles are always included.
+ * @param includeBuildBaseImages - Whether to include the base images of services with a `build` section.
+ * @returns Array of unique ComposeService objects from all projects.
+ */
+export function getComposeServicesFromProjects(
+  composeProjects: ReadonlyArray<ReadonlyArray<string>>,
+  excludedImagePatterns: ReadonlyArray<string>,
+  activeProfiles: ReadonlyArray<string> = [],
+  includeBuildBaseImages = false
+): ReadonlyArray<ComposeService> {
+  return uniqBy(
+    composeProjects.flatMap((composeFilePaths) =>
+      getComposeServicesFromFiles(composeFilePaths, excludedImagePatterns, activeProfiles, includeBuildBaseImages)
+    ),
+    (composeService) => `${composeService.image}|${composeService.platform ?? ''}`
+  );
+}
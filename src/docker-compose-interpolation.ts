@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Docker Compose variable interpolation utilities.
+ * Implements Compose interpolation semantics for `${VAR}`-style expressions
+ * and loads variables from the process environment and `.env` files.
+ * @see https://docs.docker.com/reference/compose-file/interpolation/
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/**
+ * Variables available for interpolation, keyed by name.
+ */
+export type ComposeEnvironment = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Name of the environment file that Docker Compose loads from the project directory.
+ */
+const DEFAULT_ENV_FILE_NAME = '.env';
+
+/**
+ * Pattern for a valid variable name.
+ */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Result of parsing a single interpolation expression.
+ */
+type ParsedExpression = {
+  readonly value: string;
+  readonly endIndex: number;
+};
+
+/**
+ * Finds the index of the closing brace that matches an opening `${`, accounting for nested expressions.
+ *
+ * @param template - String being interpolated.
+ * @param startIndex - Index just after the opening `${`.
+ * @returns Index of the matching closing brace, or -1 if unterminated.
+ */
+function findClosingBrace(template: string, startIndex: number): number {
+  let depth = 1;
+  for (let index = startIndex; index < template.length; index++) {
+    if (template[index] === '$' && template[index + 1] === '$') {
+      index++;
+    } else if (template[index] === '$' && template[index + 1] === '{') {
+      depth++;
+      index++;
+    } else if (template[index] === '}') {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Evaluates the body of a braced expression (the text between `${` and `}`).
+ * Supports `VAR`, `VAR:-default`, `VAR-default`, `VAR:?error`, `VAR?error`, `VAR:+replacement` and `VAR+replacement`.
+ *
+ * @param expression - Expression body.
+ * @param environment - Variables available for interpolation.
+ * @returns Interpolated value.
+ * @throws Error if a required variable is missing or the expression is malformed.
+ */
+function evaluateBracedExpression(expression: string, environment: ComposeEnvironment): string {
+  const variableName = VARIABLE_NAME_PATTERN.exec(expression)?.[0];
+  if (!variableName) {
+    throw new Error(`Invalid interpolation format for "\${${expression}}"`);
+  }
+
+  const variableValue = environment[variableName];
+  const modifier = expression.slice(variableName.length);
+  if (modifier === '') {
+    return variableValue ?? '';
+  }
+
+  // ':' variants treat empty values like unset values
+  const treatEmptyAsUnset = modifier.startsWith(':');
+  const operator = treatEmptyAsUnset ? modifier.charAt(1) : modifier.charAt(0);
+  const operand = modifier.slice(treatEmptyAsUnset ? 2 : 1);
+  const isSet = treatEmptyAsUnset ? !!variableValue : variableValue !== undefined;
+
+  switch (operator) {
+    case '-':
+      return isSet ? (variableValue ?? '') : interpolateString(operand, environment);
+    case '+':
+      return isSet ? interpolateString(operand, environment) : '';
+    case '?':
+      if (!isSet) {
+        const errorMessage = interpolateString(operand, environment);
+        throw new Error(
+          `Required variable ${variableName} is missing a value${errorMessage ? `: ${errorMessage}` : ''}`
+        );
+      }
+      return variableValue ?? '';
+    default:
+      throw new Error(`Invalid interpolation format for "\${${expression}}"`);
+  }
+}
+
+/**
+ * Parses an interpolation expression starting at a `$` character.
+ *
+ * @param template - String being interpolated.
+ * @param dollarIndex - Index of the `$` character.
+ * @param environment - Variables available for interpolation.
+ * @returns Interpolated value and the index just after the expression.
+ */
+function parseExpression(template: string, dollarIndex: number, environment: ComposeEnvironment): ParsedExpression {
+  const nextCharacter = template[dollarIndex + 1];
+
+  // '$$' escapes a literal '$'
+  if (nextCharacter === '$') {
+    return { value: '$', endIndex: dollarIndex + 2 };
+  }
+
+  if (nextCharacter === '{') {
+    const closingIndex = findClosingBrace(template, dollarIndex + 2);
+    if (closingIndex === -1) {
+      throw new Error(`Invalid interpolation format: unterminated expression in "${template}"`);
+    }
+    return {
+      value: evaluateBracedExpression(template.slice(dollarIndex + 2, closingIndex), environment),
+      endIndex: closingIndex + 1,
+    };
+  }
+
+  // Unbraced '$VAR' form
+  const variableName = VARIABLE_NAME_PATTERN.exec(template.slice(dollarIndex + 1))?.[0];
+  if (!variableName) {
+    return { value: '$', endIndex: dollarIndex + 1 };
+  }
+  return { value: environment[variableName] ?? '', endIndex: dollarIndex + 1 + variableName.length };
+}
+
+/**
+ * Interpolates variables in a string using Docker Compose semantics.
+ *
+ * @param template - String that may contain `$VAR`, `${VAR}` or `${VAR<modifier>...}` expressions.
+ * @param environment - Variables available for interpolation.
+ * @returns Interpolated string.
+ * @throws Error if a required variable (`${VAR:?err}`) is missing or an expression is malformed.
+ */
+export function interpolateString(template: string, environment: ComposeEnvironment): string {
+  let result = '';
+  let index = 0;
+  while (index < template.length) {
+    const dollarIndex = template.indexOf('$', index);
+    if (dollarIndex === -1) {
+      return result + template.slice(index);
+    }
+    const parsedExpression = parseExpression(template, dollarIndex, environment);
+    result += template.slice(index, dollarIndex) + parsedExpression.value;
+    index = parsedExpression.endIndex;
+  }
+  return result;
+}
+
+/**
+ * Recursively interpolates all string values in a parsed Compose definition.
+ * Mapping keys are left unchanged, as in Docker Compose.
+ *
+ * @param value - Parsed YAML value (object, array, string, or scalar).
+ * @param environment - Variables available for interpolation.
+ * @returns A copy of the value with all strings interpolated.
+ */
+export function interpolateComposeDefinition(value: unknown, environment: ComposeEnvironment): unknown {
+  if (typeof value === 'string') {
+    return interpolateString(value, environment);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateComposeDefinition(item, environment));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateComposeDefinition(item, environment)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Removes surrounding quotes from an env file value, handling escapes in double-quoted values.
+ *
+ * @param rawValue - Value as written in the env file (after the '=').
+ * @returns Unquoted value and whether it should be interpolated.
+ */
+function unquoteEnvValue(rawValue: string): { readonly value: string; readonly interpolate: boolean } {
+  const trimmedValue = rawValue.trim();
+  const quote = trimmedValue.charAt(0);
+  if ((quote === '"' || quote === "'") && trimmedValue.indexOf(quote, 1) !== -1) {
+    const quotedValue = trimmedValue.slice(1, trimmedValue.indexOf(quote, 1));
+    return quote === "'"
+      ? { value: quotedValue, interpolate: false }
+      : { value: quotedValue.replace(/\\n/g, '\n').replace(/\\t/g, '\t').replace(/\\\\/g, '\\'), interpolate: true };
+  }
+  // Unquoted values end at an inline comment preceded by whitespace
+  return { value: trimmedValue.replace(/\s+#.*$/, ''), interpolate: true };
+}
+
+/**
+ * Parses the contents of a Compose `.env` file.
+ * Supports `KEY=VALUE` lines, optional `export` prefixes, comments, quoted values,
+ * and interpolation of earlier variables in unquoted and double-quoted values.
+ *
+ * @param content - Contents of the env file.
+ * @param environment - Variables available for interpolating values (e.g., the process environment).
+ * @returns Variables defined in the file.
+ */
+export function parseEnvFile(content: string, environment: ComposeEnvironment = {}): Record<string, string> {
+  // Note: Variables are accumulated in place so that later lines can reference earlier ones
+  const variables: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=(.*)$/.exec(line);
+    if (match?.[1]) {
+      const { value, interpolate } = unquoteEnvValue(match[2] ?? '');
+      variables[match[1]] = interpolate ? interpolateString(value, { ...variables, ...environment }) : value;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Builds the interpolation environment for a Compose project.
+ * Variables from the process environment take precedence over those defined in env files,
+ * and later env files take precedence over earlier ones. Env files that do not exist are skipped.
+ *
+ * @param projectDirectory - Directory of the Compose project, used to locate the default `.env` file.
+ * @param envFilePaths - Env files to load instead of the default `.env` file (e.g., from an `include` entry).
+ * @returns Variables available for interpolating the Compose files of the project.
+ */
+export function loadComposeEnvironment(
+  projectDirectory: string,
+  envFilePaths: ReadonlyArray<string> = [path.join(projectDirectory, DEFAULT_ENV_FILE_NAME)]
+): ComposeEnvironment {
+  const envFileVariables = envFilePaths
+    .filter((envFilePath) => fs.existsSync(envFilePath))
+    .map((envFilePath) => parseEnvFile(fs.readFileSync(envFilePath, 'utf8'), process.env))
+    .reduce<Record<string, string>>((variables, fileVariables) => Object.assign(variables, fileVariables), {});
+  return { ...envFileVariables, ...process.env };
+}
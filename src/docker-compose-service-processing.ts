@@ -6,26 +6,86 @@
 import * as core from '@actions/core';
 
 import {
+  type CacheOperationResult,
   generateCacheKey,
   generateCacheKeyPrefix,
+  generateLayerIndexPath,
   generateManifestCacheKey,
   generateManifestPath,
   generateTarPath,
+  lookupInCache,
   readManifestFromFile,
+  restoreArchiveFromCache,
+  restoreArchiveFromLayerStore,
   restoreFromCache,
+  saveArchiveToLayerStore,
   saveManifestToCache,
   saveToCache,
 } from './cache';
 import {
+  type CompressionAlgorithm,
+  type CompressionSettings,
+  type CompressionStats,
+  compressStreamToFile,
+  decompressFileToStream,
+  getCompressedArchivePath,
+  NO_COMPRESSION,
+} from './compression';
+import { type ConcurrencyLimiter, unlimitedConcurrency } from './concurrency';
+import {
+  type CommandResult,
   type ContainerRuntime,
   type DockerImageManifest,
+  type DockerImageMetadata,
+  formatCommandFailure,
   inspectImageLocal,
   inspectImageRemote,
-  loadImageFromTar,
+  loadImageFromStream,
   pullImage,
-  saveImageToTar,
+  saveImagesToStream,
 } from './docker-command';
 import type { ComposeService } from './docker-compose-file';
+import { formatFileSize } from './file-utils';
+import { getFamiliarName, type ImageReference, parseImageReference } from './image-reference';
+import { getCurrentPlatformInfo, parseOciPlatformString } from './oci-platform';
+import { removeTempFiles, trackTempFiles } from './temp-files';
+
+/**
+ * Operating mode of the action.
+ * - full: Restore images from cache, pulling and saving them on cache miss
+ * - restore: Only restore and load cached images, never pulling or saving
+ * - save: Only save images present locally, never restoring or pulling
+ * - lookup-only: Only check whether cache entries exist, without downloading or loading them
+ */
+export type ProcessingMode = 'full' | 'restore' | 'save' | 'lookup-only';
+
+/**
+ * Strategy for storing images in the cache.
+ * - per-image: Each image is stored in its own cache entry
+ * - bundle: All images are stored in a single cache entry
+ * - layers: Each image has its own cache entry referencing layers cached once and shared between images
+ */
+export type CacheStrategy = 'per-image' | 'bundle' | 'layers';
+
+/**
+ * Outcome of processing a service that is not implied by `success` and `restoredFromCache`.
+ * - cache-miss: No cache entry was found and pulling was not allowed
+ * - saved: A locally present image was saved to cache, in save mode or because it had no cache entry yet
+ * - not-present: The image was not present locally, or not in the version or platform to save, and was not saved
+ * - would-hit: A cache entry exists and would be restored (lookup-only mode)
+ * - would-miss: No cache entry exists (lookup-only mode)
+ * - present: The image was already present locally with the expected digest, so nothing was restored or pulled,
+ *   and it was not saved because it is cached already or its bundle could not be saved
+ * - refreshed: The cached image was stale, so a fresh image was pulled and saved under the key of its new digest
+ */
+export type ServiceOutcome =
+  | 'cache-miss'
+  | 'saved'
+  | 'not-present'
+  | 'would-hit'
+  | 'would-miss'
+  | 'present'
+  | 'refreshed';
 
 /**
  * Result of processing a single Docker service.
@@ -33,12 +93,69 @@ import type { ComposeService } from './docker-compose-file';
 export type ServiceResult = {
   readonly success: boolean;
   readonly restoredFromCache: boolean;
+  readonly outcome?: ServiceOutcome | undefined;
   readonly imageName: string;
   readonly cacheKey: string;
   readonly digest?: string | undefined;
   readonly platform?: string | undefined;
   readonly error?: string | undefined;
   readonly imageSize?: number | undefined;
+  readonly compressionStats?: CompressionStats | undefined;
+  readonly pendingSave?: PendingImageSave | undefined;
+};
+
+/**
+ * Image (or bundle of images) to save to cache, possibly deferred to the post step.
+ * The manifest is omitted for digest-pinned images and bundles, which never need staleness checks.
+ * Bundles list all images stored in the single tar file in `bundledImageNames`.
+ * Images stored in the layer store carry the prefix for layer cache keys in `layerCacheKeyPrefix`,
+ * other images are compressed according to `compression` before caching.
+ * Temporary files written while saving are removed once the image is cached, unless `keepTempFiles` is set.
+ */
+export type PendingImageSave = {
+  readonly imageName: string;
+  readonly bundledImageNames?: ReadonlyArray<string> | undefined;
+  readonly imageCacheKey: string;
+  readonly imageTarPath: string;
+  readonly manifestCacheKey?: string | undefined;
+  readonly manifestPath?: string | undefined;
+  readonly manifest?: DockerImageManifest | undefined;
+  readonly layerCacheKeyPrefix?: string | undefined;
+  readonly compression?: CompressionSettings | undefined;
+  readonly keepTempFiles?: boolean | undefined;
+};
+
+/**
+ * Concurrency limiters for the I/O-heavy operations performed while processing services.
+ * Restores cover cache downloads and image loads, saves cover image exports and cache uploads.
+ */
+export type OperationLimiters = {
+  readonly restore: ConcurrencyLimiter;
+  readonly pull: ConcurrencyLimiter;
+  readonly save: ConcurrencyLimiter;
+};
+
+/**
+ * Optional settings for processing a service.
+ */
+export type ServiceProcessingOptions = {
+  readonly operationLimiters?: OperationLimiters;
+  /** Limits the images inspected or processed at the same time where images are processed together, as in bundles. */
+  readonly imageLimiter?: ConcurrencyLimiter;
+  readonly deferSave?: boolean;
+  readonly mode?: ProcessingMode;
+  readonly cacheStrategy?: CacheStrategy;
+  readonly compression?: CompressionSettings;
+  readonly keepTempFiles?: boolean;
+};
+
+/**
+ * Operation limiters used when none are specified.
+ */
+export const UNLIMITED_OPERATION_LIMITERS: OperationLimiters = {
+  restore: unlimitedConcurrency,
+  pull: unlimitedConcurrency,
+  save: unlimitedConcurrency,
 };
 
 /**
@@ -47,56 +164,180 @@ export type ServiceResult = {
 type ImageOperationResult = {
   readonly success: boolean;
   readonly imageSize?: number | undefined;
+  readonly compressionStats?: CompressionStats | undefined;
   readonly error?: string | undefined;
+  readonly pendingSave?: PendingImageSave | undefined;
 };
 
 /**
- * Pulls an image and saves it to cache.
+ * Exports an image (or all bundled images) to the file that is cached.
+ * The output of docker save is piped through the codec, if any, straight into the cached file,
+ * so only the file that is cached is written to disk.
+ *
+ * @param containerRuntime - Container runtime holding the image
+ * @param pendingSave - Image and cache locations to save
+ * @param compression - Codec and compression level of the cached file
+ * @returns Promise resolving to the operation result, with compression stats for compressed files
  */
-async function pullAndCacheImage(
+async function exportImageToArchive(
   containerRuntime: ContainerRuntime,
-  completeImageName: string,
-  platformString: string | undefined,
-  imageCacheKey: string,
-  manifestCacheKey: string,
-  imageTarPath: string,
-  manifestPath: string,
-  imageDigest: string,
-  manifest: DockerImageManifest
+  pendingSave: PendingImageSave,
+  compression: CompressionSettings
 ): Promise<ImageOperationResult> {
-  // Pull the image
-  if (!(await pullImage(containerRuntime, completeImageName, platformString))) {
+  const imageNames = pendingSave.bundledImageNames ?? [pendingSave.imageName];
+  const cachedArchivePath = getCompressedArchivePath(pendingSave.imageTarPath, compression.algorithm);
+  trackTempFiles([cachedArchivePath]);
+  let compressionStats: CompressionStats | undefined;
+  const streamSaveResult = await saveImagesToStream(containerRuntime, imageNames, async (archiveStream) => {
+    compressionStats = await compressStreamToFile(archiveStream, cachedArchivePath, compression);
+  });
+  if (compression.algorithm === 'none') {
+    return streamSaveResult.success
+      ? { success: true }
+      : {
+          success: false,
+          error: formatCommandFailure(`Failed to save image to tar: ${pendingSave.imageName}`, streamSaveResult),
+        };
+  }
+  if (!streamSaveResult.success || !compressionStats) {
     return {
       success: false,
-      error: `Failed to pull image: ${completeImageName}`,
+      error: formatCommandFailure(`Failed to save compressed image: ${pendingSave.imageName}`, streamSaveResult),
     };
   }
 
-  // Verify the digest matches after pull
-  const newManifest = await inspectImageRemote(containerRuntime, completeImageName);
-  const newImageDigest = newManifest?.digest;
-  if (newImageDigest !== imageDigest) {
-    return {
-      success: false,
-      error: `Digest mismatch for ${completeImageName}: expected ${imageDigest}, got ${newImageDigest}`,
-    };
+  core.info(
+    `Compressed ${pendingSave.imageName} with ${compression.algorithm} level ${compression.level}: ` +
+      `${formatFileSize(compressionStats.compressedSize)} from ${formatFileSize(compressionStats.rawSize)}`
+  );
+  return { success: true, compressionStats };
+}
+
+/**
+ * Saves a pulled image to a tar file and uploads it, along with its manifest, to cache.
+ * Cache upload failures are not treated as errors, since the image is already available locally.
+ *
+ * @param containerRuntime - Container runtime holding the image
+ * @param pendingSave - Image and cache locations to save
+ * @returns Promise resolving to the operation result, failing only if the image cannot be exported
+ */
+export async function saveImageToCache(
+  containerRuntime: ContainerRuntime,
+  pendingSave: PendingImageSave
+): Promise<ImageOperationResult> {
+  const compression = pendingSave.compression ?? NO_COMPRESSION;
+  const cachedArchivePath = getCompressedArchivePath(pendingSave.imageTarPath, compression.algorithm);
+  const exportResult = await exportImageToArchive(containerRuntime, pendingSave, compression);
+  if (!exportResult.success) {
+    if (!pendingSave.keepTempFiles) {
+      await removeTempFiles([cachedArchivePath]);
+    }
+    return exportResult;
+  }
+
+  // Save manifest to cache (only needed for staleness checks of mutable references)
+  if (pendingSave.manifest && pendingSave.manifestPath && pendingSave.manifestCacheKey) {
+    await saveManifestToCache(pendingSave.manifest, pendingSave.manifestPath, pendingSave.manifestCacheKey);
+  }
+
+  // Save image tar to cache, splitting it into shared layers when using the layer store
+  const cacheResult =
+    pendingSave.layerCacheKeyPrefix !== undefined
+      ? await saveArchiveToLayerStore(
+          pendingSave.imageTarPath,
+          pendingSave.imageCacheKey,
+          pendingSave.layerCacheKeyPrefix
+        )
+      : await saveToCache([cachedArchivePath], pendingSave.imageCacheKey);
+  if (cacheResult.success) {
+    core.info(`Cached ${pendingSave.imageName} with key ${pendingSave.imageCacheKey}`);
+  }
+
+  // Layer store blobs are shared between images, so they are only removed once all images are processed
+  if (!pendingSave.keepTempFiles) {
+    await removeTempFiles([
+      cachedArchivePath,
+      ...(pendingSave.manifestPath !== undefined ? [pendingSave.manifestPath] : []),
+      ...(pendingSave.layerCacheKeyPrefix !== undefined ? [generateLayerIndexPath(pendingSave.imageTarPath)] : []),
+    ]);
   }
 
-  // Save the image to tar file
-  if (!(await saveImageToTar(containerRuntime, completeImageName, imageTarPath))) {
+  return { success: true, compressionStats: exportResult.compressionStats };
+}
+
+/**
+ * Loads an image (or all bundled images) from a restored tar file, which is piped into docker load.
+ * Compressed files are decompressed on the way, so the uncompressed tar never touches the disk.
+ *
+ * @param containerRuntime - Container runtime to load the image into
+ * @param imageTarPath - Path of the uncompressed tar file the cached file was restored for
+ * @param compressionAlgorithm - Codec the tar file was compressed with before caching
+ * @param keepTempFiles - Whether to keep the restored file after loading it
+ * @returns Promise resolving to the result of the load, with the reason of failures
+ */
+export async function loadImageFromArchive(
+  containerRuntime: ContainerRuntime,
+  imageTarPath: string,
+  compressionAlgorithm: CompressionAlgorithm,
+  keepTempFiles: boolean
+): Promise<CommandResult> {
+  const cachedArchivePath = getCompressedArchivePath(imageTarPath, compressionAlgorithm);
+  const loadResult = await loadImageFromStream(containerRuntime, (archiveStream) =>
+    decompressFileToStream(cachedArchivePath, archiveStream, compressionAlgorithm)
+  );
+
+  if (!keepTempFiles) {
+    await removeTempFiles([cachedArchivePath]);
+  }
+  return loadResult;
+}
+
+/**
+ * Pulls an image and saves it to cache, or records the save for the post step when deferred.
+ * Digest-pinned images skip the post-pull digest verification, since the registry guarantees
+ * the pulled content matches the pinned digest, and their pending save carries no manifest.
+ */
+async function pullAndCacheImage(
+  containerRuntime: ContainerRuntime,
+  pendingSave: PendingImageSave,
+  platformString: string | undefined,
+  imageDigest: string,
+  isDigestPinned: boolean,
+  operationLimiters: OperationLimiters,
+  deferSave: boolean
+): Promise<ImageOperationResult> {
+  const completeImageName = pendingSave.imageName;
+
+  // Pull the image
+  const pullResult = await operationLimiters.pull(() => pullImage(containerRuntime, completeImageName, platformString));
+  if (!pullResult.success) {
     return {
       success: false,
-      error: `Failed to save image to tar: ${completeImageName}`,
+      error: formatCommandFailure(`Failed to pull image: ${completeImageName}`, pullResult),
     };
   }
 
-  // Save manifest to cache
-  await saveManifestToCache(manifest, manifestPath, manifestCacheKey);
+  // Verify the digest matches after pull
+  if (!isDigestPinned) {
+    const newManifest = await inspectImageRemote(containerRuntime, completeImageName);
+    const newImageDigest = newManifest?.digest;
+    if (newImageDigest !== imageDigest) {
+      return {
+        success: false,
+        error: `Digest mismatch for ${completeImageName}: expected ${imageDigest}, got ${newImageDigest}`,
+      };
+    }
+  }
 
-  // Save image tar to cache
-  const cacheResult = await saveToCache([imageTarPath], imageCacheKey);
-  if (cacheResult.success) {
-    core.info(`Cached ${completeImageName} with key ${imageCacheKey}`);
+  let compressionStats: CompressionStats | undefined;
+  if (deferSave) {
+    core.info(`Deferred saving ${completeImageName} to the post step`);
+  } else {
+    const saveResult = await operationLimiters.save(() => saveImageToCache(containerRuntime, pendingSave));
+    if (!saveResult.success) {
+      return saveResult;
+    }
+    compressionStats = saveResult.compressionStats;
   }
 
   // Get image size
@@ -105,6 +346,8 @@ async function pullAndCacheImage(
   return {
     success: true,
     imageSize: inspectInfo?.Size,
+    compressionStats,
+    pendingSave: deferSave ? pendingSave : undefined,
   };
 }
 
@@ -113,31 +356,38 @@ async function pullAndCacheImage(
  * This is a fallback mechanism for when digest cannot be retrieved from the registry.
  *
  * @param completeImageName - Full image name with tag
- * @param imageNameWithoutTag - Image name without tag
- * @param imageTag - Image tag
+ * @param imageReference - Parsed image reference
  * @param platform - Optional platform string
  * @param cacheKeyPrefix - Prefix for cache keys
+ * @param compression - Compression settings tar files are cached with
+ * @param operationLimiters - Concurrency limiters for cache and image operations
+ * @param keepTempFiles - Whether to keep the restored tar file after loading it
  * @returns Promise resolving to ServiceResult if cache found, undefined otherwise
  */
 async function tryRestoreFromCacheWithoutDigest(
   containerRuntime: ContainerRuntime,
   completeImageName: string,
-  imageNameWithoutTag: string,
-  imageTag: string,
+  imageReference: ImageReference,
   platform: string | undefined,
-  cacheKeyPrefix: string
+  cacheKeyPrefix: string,
+  compression: CompressionSettings,
+  operationLimiters: OperationLimiters,
+  keepTempFiles: boolean
 ): Promise<ServiceResult | undefined> {
   // Generate cache key prefix without digest for fallback matching
-  const cacheKeyPrefixWithoutDigest = generateCacheKeyPrefix(cacheKeyPrefix, imageNameWithoutTag, imageTag, platform);
+  const cacheKeyPrefixWithoutDigest = generateCacheKeyPrefix(cacheKeyPrefix, imageReference, platform);
 
   // Generate tar path without digest (we'll use a temporary path for restoration)
-  const fallbackTarPath = generateTarPath(imageNameWithoutTag, imageTag, platform, 'fallback');
+  const fallbackTarPath = generateTarPath(imageReference, platform, 'fallback');
 
   // Try to restore using prefix matching
-  const cacheResult = await restoreFromCache(
-    [fallbackTarPath],
-    `${cacheKeyPrefixWithoutDigest}-fallback`, // This won't match exactly
-    [cacheKeyPrefixWithoutDigest] // But this prefix will match any cached version
+  const cacheResult = await operationLimiters.restore(() =>
+    restoreArchiveFromCache(
+      fallbackTarPath,
+      `${cacheKeyPrefixWithoutDigest}-fallback`, // This won't match exactly
+      compression.algorithm,
+      [cacheKeyPrefixWithoutDigest] // But this prefix will match any cached version
+    )
   );
 
   if (!cacheResult.success) {
@@ -145,8 +395,10 @@ async function tryRestoreFromCacheWithoutDigest(
   }
 
   // Load image from cache
-  const loadSuccess = await loadImageFromTar(containerRuntime, fallbackTarPath);
-  if (!loadSuccess) {
+  const loadResult = await operationLimiters.restore(() =>
+    loadImageFromArchive(containerRuntime, fallbackTarPath, compression.algorithm, keepTempFiles)
+  );
+  if (!loadResult.success) {
     core.debug(`Failed to load image from fallback cache: ${completeImageName}`);
     return undefined;
   }
@@ -166,22 +418,97 @@ async function tryRestoreFromCacheWithoutDigest(
   };
 }
 
+/**
+ * Pulls the current version of an image whose cached copy is stale and saves it under the cache key
+ * of its new digest, so later runs restore the fresh image instead of detecting the mismatch again.
+ *
+ * @param pendingSave - Save of the stale image, whose cache locations are replaced with those of the new digest
+ * @param imageReference - Parsed image reference
+ * @param cacheKeyPrefix - Prefix for cache keys
+ * @param remoteManifest - Manifest of the image currently in the registry
+ * @param refreshedDigest - Digest of the image currently in the registry
+ * @param platform - Optional platform string
+ * @returns Promise resolving to the refreshed service result, or undefined if the image could not be refreshed
+ */
+async function refreshStaleImage(
+  containerRuntime: ContainerRuntime,
+  pendingSave: PendingImageSave,
+  imageReference: ImageReference,
+  cacheKeyPrefix: string,
+  remoteManifest: DockerImageManifest,
+  refreshedDigest: string,
+  platform: string | undefined,
+  operationLimiters: OperationLimiters,
+  deferSave: boolean
+): Promise<ServiceResult | undefined> {
+  const refreshedSave: PendingImageSave = {
+    ...pendingSave,
+    imageCacheKey: generateCacheKey(cacheKeyPrefix, imageReference, platform, refreshedDigest),
+    imageTarPath: generateTarPath(imageReference, platform, refreshedDigest),
+    manifestCacheKey: generateManifestCacheKey(cacheKeyPrefix, imageReference, platform, refreshedDigest),
+    manifestPath: generateManifestPath(imageReference, platform, refreshedDigest),
+    manifest: remoteManifest,
+  };
+
+  const refreshResult = await pullAndCacheImage(
+    containerRuntime,
+    refreshedSave,
+    platform,
+    refreshedDigest,
+    false,
+    operationLimiters,
+    deferSave
+  );
+  if (!refreshResult.success) {
+    core.warning(`Failed to refresh stale image ${pendingSave.imageName}: ${refreshResult.error}`);
+    return undefined;
+  }
+
+  core.info(`Refreshed ${pendingSave.imageName} to digest ${refreshedDigest}`);
+  return {
+    success: true,
+    restoredFromCache: false,
+    outcome: 'refreshed',
+    imageName: pendingSave.imageName,
+    cacheKey: refreshedSave.imageCacheKey,
+    digest: refreshedDigest,
+    platform,
+    imageSize: refreshResult.imageSize,
+    compressionStats: refreshResult.compressionStats,
+    pendingSave: refreshResult.pendingSave,
+  };
+}
+
 /**
  * Processes cache hit scenario with optional manifest validation.
+ * Digest-pinned images are immutable and are never considered stale.
+ * Stale images are only re-pulled when pulling is allowed, which is not the case in restore mode,
+ * and are then saved to cache under their new digest.
  */
 async function processCacheHit(
   containerRuntime: ContainerRuntime,
   completeImageName: string,
   imageTarPath: string,
+  compressionAlgorithm: CompressionAlgorithm,
+  keepTempFiles: boolean,
   manifestPath: string,
   manifestCacheHitKey: string | undefined,
   skipLatestCheck: boolean,
+  isDigestPinned: boolean,
   imageDigest: string,
-  platform: string | undefined
+  platform: string | undefined,
+  operationLimiters: OperationLimiters,
+  pullOnMismatch: boolean,
+  pendingSave: PendingImageSave,
+  imageReference: ImageReference,
+  cacheKeyPrefix: string,
+  deferSave: boolean
 ): Promise<ServiceResult> {
   // Load image from cache
-  const loadSuccess = await loadImageFromTar(containerRuntime, imageTarPath);
-  if (!loadSuccess) {
+  const loadResult = await operationLimiters.restore(() =>
+    loadImageFromArchive(containerRuntime, imageTarPath, compressionAlgorithm, keepTempFiles)
+  );
+  if (!loadResult.success) {
     return {
       success: false,
       restoredFromCache: false,
@@ -189,7 +516,7 @@ async function processCacheHit(
       cacheKey: '',
       digest: imageDigest,
       platform,
-      error: `Failed to load image from cache: ${completeImageName}`,
+      error: formatCommandFailure(`Failed to load image from cache: ${completeImageName}`, loadResult),
     };
   }
 
@@ -211,6 +538,20 @@ async function processCacheHit(
     };
   }
 
+  // Digest-pinned images cannot change, so no manifest validation is needed
+  if (isDigestPinned) {
+    core.info(`${completeImageName} is pinned by digest, using cached version`);
+    return {
+      success: true,
+      restoredFromCache: true,
+      imageName: completeImageName,
+      cacheKey: '',
+      digest: imageDigest,
+      platform,
+      imageSize,
+    };
+  }
+
   // Skip manifest check if no manifest cache hit
   if (!manifestCacheHitKey) {
     core.debug(`No manifest cache for ${completeImageName}`);
@@ -232,7 +573,7 @@ async function processCacheHit(
   ]);
 
   // Skip if manifest can't be loaded or no current manifest
-  if (!cachedManifest || !remoteManifest) {
+  if (!cachedManifest || !remoteManifest?.digest) {
     core.debug(`Cannot compare manifests for ${completeImageName}: missing data`);
     return {
       success: true,
@@ -259,11 +600,33 @@ async function processCacheHit(
     };
   }
 
-  // Handle manifest mismatch - pull fresh image
+  // Handle manifest mismatch - pull fresh image when allowed
+  if (!pullOnMismatch) {
+    core.warning(`Manifest mismatch detected for ${completeImageName}, using cached version without pulling`);
+    return {
+      success: true,
+      restoredFromCache: true,
+      imageName: completeImageName,
+      cacheKey: '',
+      digest: imageDigest,
+      platform,
+      imageSize,
+    };
+  }
   core.info(`Manifest mismatch detected for ${completeImageName}, pulling fresh image`);
-  const pullSuccess = await pullImage(containerRuntime, completeImageName, platform);
-  if (!pullSuccess) {
-    core.warning(`Failed to pull updated image ${completeImageName}`);
+  const refreshedResult = await refreshStaleImage(
+    containerRuntime,
+    pendingSave,
+    imageReference,
+    cacheKeyPrefix,
+    remoteManifest,
+    remoteManifest.digest,
+    platform,
+    operationLimiters,
+    deferSave
+  );
+  if (refreshedResult) {
+    return refreshedResult;
   }
 
   return {
@@ -277,27 +640,296 @@ async function processCacheHit(
   };
 }
 
+/**
+ * Checks whether a local image was built for the target platform.
+ *
+ * @param imageMetadata - Metadata of the local image
+ * @param platform - Optional target platform, defaulting to the platform of the runner
+ * @returns True if the operating system and architecture of the image match the target platform
+ */
+function matchesLocalPlatform(imageMetadata: DockerImageMetadata, platform: string | undefined): boolean {
+  const targetPlatform = platform ? parseOciPlatformString(platform) : getCurrentPlatformInfo();
+  return (
+    !targetPlatform || (targetPlatform.os === imageMetadata.Os && targetPlatform.arch === imageMetadata.Architecture)
+  );
+}
+
+/**
+ * Checks whether a local image is the one referenced by the remote digest for the target platform.
+ * Docker records the digest an image was pulled by in `RepoDigests`, which is the manifest list digest
+ * for multi-platform images, so the operating system and architecture are compared as well.
+ *
+ * @param imageMetadata - Metadata of the local image
+ * @param imageDigest - Digest of the image in the registry
+ * @param platform - Optional target platform, defaulting to the platform of the runner
+ * @returns True if the local image matches the digest and platform
+ */
+function matchesLocalImage(
+  imageMetadata: DockerImageMetadata,
+  imageDigest: string,
+  platform: string | undefined
+): boolean {
+  const hasDigest = (imageMetadata.RepoDigests ?? []).some((repoDigest) => repoDigest.endsWith(`@${imageDigest}`));
+  return hasDigest && matchesLocalPlatform(imageMetadata, platform);
+}
+
+/**
+ * Finds the local image of a service if it is present with the remote digest for the target platform,
+ * in which case it needs neither restoring nor pulling, and can be saved under the key of that digest.
+ *
+ * @param imageName - Name of the image
+ * @param imageDigest - Digest of the image in the registry
+ * @param platform - Optional target platform
+ * @returns Metadata of the local image, or undefined if it is not present with the digest and platform
+ */
+export async function findPresentLocalImage(
+  containerRuntime: ContainerRuntime,
+  imageName: string,
+  imageDigest: string,
+  platform: string | undefined
+): Promise<DockerImageMetadata | undefined> {
+  const localImageMetadata = await inspectImageLocal(containerRuntime, imageName, false);
+  return localImageMetadata && matchesLocalImage(localImageMetadata, imageDigest, platform)
+    ? localImageMetadata
+    : undefined;
+}
+
+/**
+ * Lists the registry digests a local image has in the repository of an image reference.
+ *
+ * @param imageMetadata - Metadata of the local image
+ * @param imageReference - Parsed image reference
+ * @returns Digests recorded in `RepoDigests` for the repository of the reference
+ */
+function getLocalRepositoryDigests(
+  imageMetadata: DockerImageMetadata,
+  imageReference: ImageReference
+): ReadonlyArray<string> {
+  const familiarName = getFamiliarName(imageReference);
+  return (imageMetadata.RepoDigests ?? []).flatMap((repoDigest) => {
+    const [repositoryName = '', digest] = repoDigest.split('@');
+    const repositoryReference = parseImageReference(repositoryName);
+    return digest && repositoryReference && getFamiliarName(repositoryReference) === familiarName ? [digest] : [];
+  });
+}
+
+/**
+ * Resolves the digest a locally present image is saved under in save mode, so the cache entry holds exactly
+ * the image its key names. The registry digest is used when the registry can be reached, but only if the local
+ * image was pulled by it. Without registry access, for example for images that were never pushed, the digest
+ * recorded locally for the repository is used, or the image ID for images that have none.
+ *
+ * @param imageMetadata - Metadata of the local image
+ * @param imageReference - Parsed image reference
+ * @param platform - Optional target platform
+ * @returns Digest and manifest to save the image with, or undefined if the local image must not be saved
+ */
+async function resolveLocalImageDigest(
+  containerRuntime: ContainerRuntime,
+  completeImageName: string,
+  imageMetadata: DockerImageMetadata,
+  imageReference: ImageReference,
+  platform: string | undefined
+): Promise<{ readonly digest: string; readonly manifest?: DockerImageManifest | undefined } | undefined> {
+  // Digest-pinned references already carry their digest, so the registry is not contacted
+  const remoteManifest =
+    imageReference.digest !== undefined
+      ? { digest: imageReference.digest }
+      : await inspectImageRemote(containerRuntime, completeImageName);
+  if (remoteManifest?.digest) {
+    if (!matchesLocalImage(imageMetadata, remoteManifest.digest, platform)) {
+      core.warning(
+        `${completeImageName} present locally does not match digest ${remoteManifest.digest}, skipping save`
+      );
+      return undefined;
+    }
+    return {
+      digest: remoteManifest.digest,
+      manifest: imageReference.digest !== undefined ? undefined : remoteManifest,
+    };
+  }
+
+  const localDigests = getLocalRepositoryDigests(imageMetadata, imageReference);
+  if (localDigests.length > 1) {
+    core.warning(
+      `Could not get digest for ${completeImageName} and it has several local digests, skipping save: ` +
+        localDigests.join(', ')
+    );
+    return undefined;
+  }
+  const [localDigest] = localDigests;
+  core.info(
+    localDigest !== undefined
+      ? `Could not get digest for ${completeImageName}, saving under its local digest ${localDigest}`
+      : `Could not get digest for ${completeImageName}, saving under its image ID ${imageMetadata.Id}`
+  );
+  return localDigest !== undefined
+    ? { digest: localDigest, manifest: { digest: localDigest } }
+    : { digest: imageMetadata.Id };
+}
+
+/**
+ * Saves an image that is already present locally to cache, used in save mode.
+ * Images that are not present, or not present in the version or platform to save, are skipped with a warning
+ * rather than pulled.
+ *
+ * @param imageReference - Parsed image reference
+ * @param platform - Optional target platform
+ * @param cacheKeyPrefix - Prefix for cache keys
+ * @param saveSettings - Layer store, compression and temporary file settings of the save
+ */
+async function saveLocalImage(
+  containerRuntime: ContainerRuntime,
+  completeImageName: string,
+  imageReference: ImageReference,
+  platform: string | undefined,
+  cacheKeyPrefix: string,
+  saveSettings: Pick<PendingImageSave, 'layerCacheKeyPrefix' | 'compression' | 'keepTempFiles'>,
+  operationLimiters: OperationLimiters,
+  deferSave: boolean
+): Promise<ServiceResult> {
+  const notPresentResult: ServiceResult = {
+    success: true,
+    restoredFromCache: false,
+    outcome: 'not-present',
+    imageName: completeImageName,
+    cacheKey: '',
+    digest: undefined,
+    platform,
+  };
+  const inspectInfo = await inspectImageLocal(containerRuntime, completeImageName);
+  if (!inspectInfo) {
+    core.warning(`${completeImageName} is not present locally, skipping save`);
+    return notPresentResult;
+  }
+  if (!matchesLocalPlatform(inspectInfo, platform)) {
+    core.warning(
+      `${completeImageName} is present locally for ${inspectInfo.Os}/${inspectInfo.Architecture} ` +
+        `instead of the target platform, skipping save`
+    );
+    return notPresentResult;
+  }
+
+  const localImage = await resolveLocalImageDigest(
+    containerRuntime,
+    completeImageName,
+    inspectInfo,
+    imageReference,
+    platform
+  );
+  if (!localImage) {
+    return notPresentResult;
+  }
+
+  const imageDigest = localImage.digest;
+  const pendingSave: PendingImageSave = {
+    imageName: completeImageName,
+    imageCacheKey: generateCacheKey(cacheKeyPrefix, imageReference, platform, imageDigest),
+    imageTarPath: generateTarPath(imageReference, platform, imageDigest),
+    manifestCacheKey: generateManifestCacheKey(cacheKeyPrefix, imageReference, platform, imageDigest),
+    manifestPath: generateManifestPath(imageReference, platform, imageDigest),
+    manifest: localImage.manifest,
+    ...saveSettings,
+  };
+  core.info(`Cache key for ${completeImageName}: ${pendingSave.imageCacheKey}`);
+
+  return savePresentImage(
+    containerRuntime,
+    pendingSave,
+    imageDigest,
+    platform,
+    inspectInfo.Size,
+    operationLimiters,
+    deferSave
+  );
+}
+
+/**
+ * Saves a locally present image to cache, or records the save for the post step when deferred.
+ *
+ * @param pendingSave - Cache keys and paths to save the image under
+ * @param imageDigest - Digest the image is saved under
+ * @param platform - Optional target platform
+ * @param imageSize - Size of the local image
+ * @returns Result with the saved outcome, or the error if the image could not be saved
+ */
+async function savePresentImage(
+  containerRuntime: ContainerRuntime,
+  pendingSave: PendingImageSave,
+  imageDigest: string,
+  platform: string | undefined,
+  imageSize: number | undefined,
+  operationLimiters: OperationLimiters,
+  deferSave: boolean
+): Promise<ServiceResult> {
+  const completeImageName = pendingSave.imageName;
+  let compressionStats: CompressionStats | undefined;
+  if (deferSave) {
+    core.info(`Deferred saving ${completeImageName} to the post step`);
+  } else {
+    const saveResult = await operationLimiters.save(() => saveImageToCache(containerRuntime, pendingSave));
+    if (!saveResult.success) {
+      return {
+        success: false,
+        restoredFromCache: false,
+        imageName: completeImageName,
+        cacheKey: pendingSave.imageCacheKey,
+        digest: imageDigest,
+        platform,
+        error: saveResult.error,
+        imageSize,
+      };
+    }
+    compressionStats = saveResult.compressionStats;
+  }
+
+  return {
+    success: true,
+    restoredFromCache: false,
+    outcome: 'saved',
+    imageName: completeImageName,
+    cacheKey: pendingSave.imageCacheKey,
+    digest: imageDigest,
+    platform,
+    imageSize,
+    compressionStats,
+    pendingSave: deferSave ? pendingSave : undefined,
+  };
+}
+
 /**
  * Processes a single Docker Compose service.
  * Tries to restore from cache, if cache miss, pulls and caches the image.
+ * Images already present locally with the expected digest are not restored, and only saved if they are not cached yet.
+ * In restore mode cache misses are reported without pulling, in save mode locally present images are saved,
+ * and in lookup-only mode only the existence of cache entries is checked.
  *
  * @param serviceDefinition - The Docker Compose service to process
  * @param cacheKeyPrefix - Prefix for cache keys
  * @param skipLatestCheck - Whether to skip digest verification
  * @param forceRefresh - Whether to ignore existing cache and pull fresh images
+ * @param options - Optional settings such as the operating mode, concurrency limiters and deferring cache saves
  */
 export async function processService(
   containerRuntime: ContainerRuntime,
   serviceDefinition: ComposeService,
   cacheKeyPrefix: string,
   skipLatestCheck: boolean,
-  forceRefresh = false
+  forceRefresh = false,
+  options: ServiceProcessingOptions = {}
 ): Promise<ServiceResult> {
+  const operationLimiters = options.operationLimiters ?? UNLIMITED_OPERATION_LIMITERS;
+  const deferSave = options.deferSave ?? false;
+  const keepTempFiles = options.keepTempFiles ?? false;
+  const mode = options.mode ?? 'full';
+  const useLayerStore = options.cacheStrategy === 'layers';
+  // The layer store splits the uncompressed tar file, so images stored there are never compressed
+  const compression = useLayerStore ? NO_COMPRESSION : (options.compression ?? NO_COMPRESSION);
   const completeImageName = serviceDefinition.image;
-  const [imageNamePart, imageTagOrLatest = 'latest'] = completeImageName.split(':');
+  const imageReference = parseImageReference(completeImageName);
 
-  // Guard against undefined or empty image name
-  if (!imageNamePart) {
+  // Guard against empty or malformed image references
+  if (!imageReference) {
     return {
       success: false,
       restoredFromCache: false,
@@ -308,20 +940,40 @@ export async function processService(
       error: `Invalid image name format: ${completeImageName}`,
     };
   }
-  const imageNameWithoutTag = imageNamePart;
 
-  // Get image manifest with digest for cache key generation
-  const manifest = await inspectImageRemote(containerRuntime, completeImageName);
-  if (!manifest || !manifest.digest) {
-    // Registry unavailable - try fallback to cached version if skip-digest-verification is enabled
-    if (skipLatestCheck && !forceRefresh) {
+  // Save mode only saves what is already present locally, under the digest of the local image
+  if (mode === 'save') {
+    return saveLocalImage(
+      containerRuntime,
+      completeImageName,
+      imageReference,
+      serviceDefinition.platform,
+      cacheKeyPrefix,
+      { layerCacheKeyPrefix: useLayerStore ? cacheKeyPrefix : undefined, compression, keepTempFiles },
+      operationLimiters,
+      deferSave
+    );
+  }
+
+  // Get image manifest with digest for cache key generation.
+  // Digest-pinned references already carry their digest, so the registry is not contacted.
+  const isDigestPinned = imageReference.digest !== undefined;
+  const manifest: DockerImageManifest | undefined = isDigestPinned
+    ? { digest: imageReference.digest }
+    : await inspectImageRemote(containerRuntime, completeImageName);
+  if (!manifest?.digest) {
+    // Registry unavailable - try fallback to cached version if skip-digest-verification is enabled.
+    // Layer indexes are restored to digest-specific paths, so the layer store cannot be matched by prefix.
+    if (skipLatestCheck && !forceRefresh && !useLayerStore && (mode === 'full' || mode === 'restore')) {
       const fallbackResult = await tryRestoreFromCacheWithoutDigest(
         containerRuntime,
         completeImageName,
-        imageNameWithoutTag,
-        imageTagOrLatest,
+        imageReference,
         serviceDefinition.platform,
-        cacheKeyPrefix
+        cacheKeyPrefix,
+        compression,
+        operationLimiters,
+        keepTempFiles
       );
 
       if (fallbackResult) {
@@ -346,27 +998,26 @@ export async function processService(
   }
 
   const imageDigest = manifest.digest;
-  const imageCacheKey = generateCacheKey(
-    cacheKeyPrefix,
-    imageNameWithoutTag,
-    imageTagOrLatest,
-    serviceDefinition.platform,
-    imageDigest
-  );
-  const imageTarPath = generateTarPath(imageNameWithoutTag, imageTagOrLatest, serviceDefinition.platform, imageDigest);
+  const imageCacheKey = generateCacheKey(cacheKeyPrefix, imageReference, serviceDefinition.platform, imageDigest);
+  const imageTarPath = generateTarPath(imageReference, serviceDefinition.platform, imageDigest);
   const manifestCacheKey = generateManifestCacheKey(
     cacheKeyPrefix,
-    imageNameWithoutTag,
-    imageTagOrLatest,
-    serviceDefinition.platform,
-    imageDigest
-  );
-  const manifestPath = generateManifestPath(
-    imageNameWithoutTag,
-    imageTagOrLatest,
+    imageReference,
     serviceDefinition.platform,
     imageDigest
   );
+  const manifestPath = generateManifestPath(imageReference, serviceDefinition.platform, imageDigest);
+  const pendingSave: PendingImageSave = {
+    imageName: completeImageName,
+    imageCacheKey,
+    imageTarPath,
+    manifestCacheKey,
+    manifestPath,
+    manifest: isDigestPinned ? undefined : manifest,
+    layerCacheKeyPrefix: useLayerStore ? cacheKeyPrefix : undefined,
+    compression,
+    keepTempFiles,
+  };
 
   if (serviceDefinition.platform) {
     core.info(`Using platform ${serviceDefinition.platform} for ${completeImageName}`);
@@ -374,19 +1025,35 @@ export async function processService(
   core.info(`Cache key for ${completeImageName}: ${imageCacheKey}`);
   core.debug(`Cache path: ${imageTarPath}`);
 
-  // Skip cache restore if force refresh is enabled
-  if (forceRefresh) {
+  // Lookup-only mode reports whether the entry exists without downloading it
+  const lookupPath = useLayerStore
+    ? generateLayerIndexPath(imageTarPath)
+    : getCompressedArchivePath(imageTarPath, compression.algorithm);
+  if (mode === 'lookup-only') {
+    const lookupResult = await operationLimiters.restore(() => lookupInCache([lookupPath], imageCacheKey));
+    core.info(`Cache ${lookupResult.success ? 'hit' : 'miss'} for ${completeImageName} (lookup only)`);
+    return {
+      success: true,
+      restoredFromCache: false,
+      outcome: lookupResult.success ? 'would-hit' : 'would-miss',
+      imageName: completeImageName,
+      cacheKey: imageCacheKey,
+      digest: imageDigest,
+      platform: serviceDefinition.platform,
+    };
+  }
+
+  // Skip cache restore if force refresh is enabled (restore mode never pulls)
+  if (forceRefresh && mode === 'full') {
     core.info(`Force refresh enabled for ${completeImageName}, pulling fresh image`);
     const pullResult = await pullAndCacheImage(
       containerRuntime,
-      completeImageName,
+      pendingSave,
       serviceDefinition.platform,
-      imageCacheKey,
-      manifestCacheKey,
-      imageTarPath,
-      manifestPath,
       imageDigest,
-      manifest
+      isDigestPinned,
+      operationLimiters,
+      deferSave
     );
 
     return {
@@ -398,28 +1065,82 @@ export async function processService(
       platform: serviceDefinition.platform,
       error: pullResult.error,
       imageSize: pullResult.imageSize,
+      compressionStats: pullResult.compressionStats,
+      pendingSave: pullResult.pendingSave,
+    };
+  }
+
+  // Images left in the local image store, e.g. on self-hosted runners, need neither restoring nor pulling
+  const localImageMetadata = await findPresentLocalImage(
+    containerRuntime,
+    completeImageName,
+    imageDigest,
+    serviceDefinition.platform
+  );
+  if (localImageMetadata) {
+    core.info(`${completeImageName} is already present locally with digest ${imageDigest}, skipping restore`);
+    // Present images are still saved when they are not cached yet, as they would be after pulling them
+    const isCached =
+      mode !== 'full' || (await operationLimiters.restore(() => lookupInCache([lookupPath], imageCacheKey))).success;
+    if (!isCached) {
+      core.info(`${completeImageName} is not cached yet, saving the present image`);
+      return savePresentImage(
+        containerRuntime,
+        pendingSave,
+        imageDigest,
+        serviceDefinition.platform,
+        localImageMetadata.Size,
+        operationLimiters,
+        deferSave
+      );
+    }
+    return {
+      success: true,
+      restoredFromCache: false,
+      outcome: 'present',
+      imageName: completeImageName,
+      cacheKey: imageCacheKey,
+      digest: imageDigest,
+      platform: serviceDefinition.platform,
+      imageSize: localImageMetadata.Size,
     };
   }
 
   // Try to restore from cache first
   const [cacheResult, manifestCacheResult] = await Promise.all([
-    restoreFromCache([imageTarPath], imageCacheKey),
-    restoreFromCache([manifestPath], manifestCacheKey),
+    operationLimiters.restore(() =>
+      useLayerStore
+        ? restoreArchiveFromLayerStore(imageTarPath, imageCacheKey)
+        : restoreArchiveFromCache(imageTarPath, imageCacheKey, compression.algorithm)
+    ),
+    isDigestPinned
+      ? Promise.resolve<CacheOperationResult>({ success: false })
+      : operationLimiters.restore(() => restoreFromCache([manifestPath], manifestCacheKey)),
   ]);
 
-  // If no cache hit, proceed to pull the image
+  // If no cache hit, proceed to pull the image unless in restore mode
+  if (!cacheResult.success && mode === 'restore') {
+    core.info(`Cache miss for ${completeImageName}, skipping pull in restore mode`);
+    return {
+      success: true,
+      restoredFromCache: false,
+      outcome: 'cache-miss',
+      imageName: completeImageName,
+      cacheKey: imageCacheKey,
+      digest: imageDigest,
+      platform: serviceDefinition.platform,
+    };
+  }
   if (!cacheResult.success) {
     core.info(`Cache miss for ${completeImageName}, pulling and saving`);
     const pullResult = await pullAndCacheImage(
       containerRuntime,
-      completeImageName,
+      pendingSave,
       serviceDefinition.platform,
-      imageCacheKey,
-      manifestCacheKey,
-      imageTarPath,
-      manifestPath,
       imageDigest,
-      manifest
+      isDigestPinned,
+      operationLimiters,
+      deferSave
     );
 
     return {
@@ -431,6 +1152,8 @@ export async function processService(
       platform: serviceDefinition.platform,
       error: pullResult.error,
       imageSize: pullResult.imageSize,
+      compressionStats: pullResult.compressionStats,
+      pendingSave: pullResult.pendingSave,
     };
   }
 
@@ -440,15 +1163,24 @@ export async function processService(
     containerRuntime,
     completeImageName,
     imageTarPath,
+    compression.algorithm,
+    keepTempFiles,
     manifestPath,
     manifestCacheResult.cacheKey,
     skipLatestCheck,
+    isDigestPinned,
     imageDigest,
-    serviceDefinition.platform
+    serviceDefinition.platform,
+    operationLimiters,
+    mode === 'full',
+    pendingSave,
+    imageReference,
+    cacheKeyPrefix,
+    deferSave
   );
 
   return {
     ...result,
-    cacheKey: imageCacheKey,
+    cacheKey: result.cacheKey || imageCacheKey,
   };
 }
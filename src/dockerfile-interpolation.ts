@@ -0,0 +1,222 @@
+/**
+ * @fileoverview Dockerfile variable substitution utilities.
+ * Implements the BuildKit substitution semantics for `$VAR` and `${VAR...}` expressions in
+ * Dockerfile instructions, which differ from Compose interpolation (e.g., pattern removal and replacement).
+ * @see https://docs.docker.com/reference/dockerfile/#environment-replacement
+ */
+
+/**
+ * Variables available for substitution, keyed by name.
+ */
+export type DockerfileVariables = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Pattern for a valid variable name.
+ */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+/**
+ * Pattern for the operator following the variable name in a braced expression.
+ */
+const OPERATOR_PATTERN = /^(?::[-+?]|[-+?]|##?|%%?|\/\/?)/;
+
+/**
+ * Escapes a character for use in a regular expression.
+ *
+ * @param character - Character to escape.
+ * @returns Escaped character.
+ */
+function escapeRegexCharacter(character: string): string {
+  return character.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a shell pattern to regular expression source.
+ * Supports `*`, `?`, `[...]` character classes and backslash escapes.
+ *
+ * @param pattern - Shell pattern to convert.
+ * @returns Regular expression source matching the pattern.
+ */
+function patternToRegexSource(pattern: string): string {
+  let regexSource = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const character = pattern.charAt(index);
+    const closingIndex = character === '[' ? pattern.indexOf(']', index + 1) : -1;
+    if (character === '\\' && index + 1 < pattern.length) {
+      index++;
+      regexSource += escapeRegexCharacter(pattern.charAt(index));
+    } else if (character === '*') {
+      regexSource += '.*';
+    } else if (character === '?') {
+      regexSource += '.';
+    } else if (closingIndex !== -1) {
+      regexSource += `[${pattern
+        .slice(index + 1, closingIndex)
+        .replace(/^!/, '^')
+        .replace(/\\/g, '\\\\')}]`;
+      index = closingIndex;
+    } else {
+      regexSource += escapeRegexCharacter(character);
+    }
+  }
+  return regexSource;
+}
+
+/**
+ * Removes the shortest or longest prefix or suffix of a value matching a shell pattern.
+ *
+ * @param value - Value to remove the match from.
+ * @param pattern - Shell pattern to match.
+ * @param fromStart - Whether to remove a prefix (`#`) rather than a suffix (`%`).
+ * @param longest - Whether to remove the longest match (`##`, `%%`) rather than the shortest.
+ * @returns Value without the matching prefix or suffix, or unchanged if nothing matches.
+ */
+function removePattern(value: string, pattern: string, fromStart: boolean, longest: boolean): string {
+  const patternRegex = new RegExp(`^(?:${patternToRegexSource(pattern)})$`, 's');
+  for (let step = 0; step <= value.length; step++) {
+    const matchLength = longest ? value.length - step : step;
+    const matchedPart = fromStart ? value.slice(0, matchLength) : value.slice(value.length - matchLength);
+    if (patternRegex.test(matchedPart)) {
+      return fromStart ? value.slice(matchLength) : value.slice(0, value.length - matchLength);
+    }
+  }
+  return value;
+}
+
+/**
+ * Replaces the first or every longest match of a shell pattern in a value.
+ *
+ * @param value - Value to replace matches in.
+ * @param pattern - Shell pattern to match. An empty pattern leaves the value unchanged.
+ * @param replacement - Replacement for the matches.
+ * @param replaceAll - Whether to replace every match (`//`) rather than the first one (`/`).
+ * @returns Value with the matches replaced.
+ */
+function replacePattern(value: string, pattern: string, replacement: string, replaceAll: boolean): string {
+  if (pattern === '') {
+    return value;
+  }
+  return value.replace(new RegExp(patternToRegexSource(pattern), replaceAll ? 'gs' : 's'), () => replacement);
+}
+
+/**
+ * Finds the index of the closing brace that matches an opening `${`, accounting for nested expressions.
+ *
+ * @param template - String being expanded.
+ * @param startIndex - Index just after the opening `${`.
+ * @returns Index of the matching closing brace, or -1 if unterminated.
+ */
+function findClosingBrace(template: string, startIndex: number): number {
+  let depth = 1;
+  for (let index = startIndex; index < template.length; index++) {
+    if (template[index] === '\\') {
+      index++;
+    } else if (template[index] === '$' && template[index + 1] === '{') {
+      depth++;
+      index++;
+    } else if (template[index] === '}') {
+      depth--;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Evaluates the body of a braced expression (the text between `${` and `}`).
+ * Supports `VAR`, `VAR:-word`, `VAR-word`, `VAR:+word`, `VAR+word`, `VAR:?message`, `VAR?message`,
+ * `VAR#pattern`, `VAR##pattern`, `VAR%pattern`, `VAR%%pattern`, `VAR/pattern/replacement`
+ * and `VAR//pattern/replacement`.
+ *
+ * @param expression - Expression body.
+ * @param variables - Variables available for substitution.
+ * @returns Substituted value.
+ * @throws Error if a required variable is missing or the expression is not supported.
+ */
+function evaluateBracedExpression(expression: string, variables: DockerfileVariables): string {
+  const variableName = VARIABLE_NAME_PATTERN.exec(expression)?.[0];
+  const modifier = expression.slice(variableName?.length ?? 0);
+  const operator = OPERATOR_PATTERN.exec(modifier)?.[0];
+  if (!variableName || (modifier !== '' && operator === undefined)) {
+    throw new Error(`Unsupported variable substitution "\${${expression}}"`);
+  }
+
+  const variableValue = variables[variableName];
+  const value = variableValue ?? '';
+  const operand = modifier.slice(operator?.length ?? 0);
+  switch (operator) {
+    case undefined:
+      return value;
+    case ':-':
+      return value !== '' ? value : expandDockerfileVariables(operand, variables);
+    case '-':
+      return variableValue ?? expandDockerfileVariables(operand, variables);
+    case ':+':
+      return value !== '' ? expandDockerfileVariables(operand, variables) : '';
+    case '+':
+      return variableValue !== undefined ? expandDockerfileVariables(operand, variables) : '';
+    case ':?':
+    case '?':
+      if (operator === ':?' ? value === '' : variableValue === undefined) {
+        const errorMessage = expandDockerfileVariables(operand, variables);
+        throw new Error(
+          `Required variable ${variableName} is missing a value${errorMessage ? `: ${errorMessage}` : ''}`
+        );
+      }
+      return value;
+    case '#':
+    case '##':
+      return removePattern(value, expandDockerfileVariables(operand, variables), true, operator === '##');
+    case '%':
+    case '%%':
+      return removePattern(value, expandDockerfileVariables(operand, variables), false, operator === '%%');
+    default: {
+      // The pattern ends at the first unescaped slash, the rest is the replacement
+      const [, pattern = '', replacement = ''] = /^((?:\\.|[^\\/])*)(?:\/(.*))?$/s.exec(operand) ?? [];
+      return replacePattern(
+        value,
+        expandDockerfileVariables(pattern, variables),
+        expandDockerfileVariables(replacement, variables),
+        operator === '//'
+      );
+    }
+  }
+}
+
+/**
+ * Expands variables in a Dockerfile instruction argument using BuildKit semantics.
+ * A backslash before `$` escapes a literal `$`.
+ *
+ * @param template - String that may contain `$VAR`, `${VAR}` or `${VAR<operator>...}` expressions.
+ * @param variables - Variables available for substitution.
+ * @returns Expanded string.
+ * @throws Error if a required variable (`${VAR:?message}`) is missing or an expression is not supported.
+ */
+export function expandDockerfileVariables(template: string, variables: DockerfileVariables): string {
+  let result = '';
+  for (let index = 0; index < template.length; index++) {
+    const character = template.charAt(index);
+    const nextCharacter = template.charAt(index + 1);
+    if (character === '\\' && nextCharacter === '$') {
+      result += '$';
+      index++;
+    } else if (character === '$' && nextCharacter === '{') {
+      const closingIndex = findClosingBrace(template, index + 2);
+      if (closingIndex === -1) {
+        throw new Error(`Unterminated variable substitution in "${template}"`);
+      }
+      result += evaluateBracedExpression(template.slice(index + 2, closingIndex), variables);
+      index = closingIndex;
+    } else if (character === '$') {
+      // Unbraced '$VAR' form, a '$' not followed by a variable name is kept
+      const variableName = VARIABLE_NAME_PATTERN.exec(template.slice(index + 1))?.[0];
+      result += variableName ? (variables[variableName] ?? '') : '$';
+      index += variableName?.length ?? 0;
+    } else {
+      result += character;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Dockerfile parsing utilities.
+ * Extracts the external base images of the stages needed to build a Dockerfile target.
+ * @see https://docs.docker.com/reference/dockerfile/
+ */
+
+import * as fs from 'node:fs';
+import * as core from '@actions/core';
+import { uniqBy } from 'lodash';
+
+import { expandDockerfileVariables } from './dockerfile-interpolation';
+
+/**
+ * Represents an external image referenced by a Dockerfile.
+ */
+export type DockerfileBaseImage = {
+  readonly image: string;
+  readonly platform?: string;
+};
+
+/**
+ * Build arguments passed to the build, keyed by name.
+ */
+export type BuildArgs = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Represents a single Dockerfile instruction after joining line continuations.
+ */
+type DockerfileInstruction = {
+  readonly keyword: string;
+  readonly args: string;
+};
+
+/**
+ * Represents a build stage started by a FROM instruction.
+ * The base image is undefined when the FROM instruction could not be expanded.
+ */
+type DockerfileStage = {
+  readonly name?: string;
+  readonly baseImage: string | undefined;
+  readonly platform?: string;
+  readonly copySources: ReadonlyArray<string>;
+};
+
+/**
+ * Reserved image name for empty base images.
+ */
+const SCRATCH_IMAGE = 'scratch';
+
+/**
+ * Splits Dockerfile content into instructions.
+ * Joins lines ending with a backslash and skips comment lines, including those inside continuations.
+ *
+ * @param content - Contents of the Dockerfile.
+ * @returns Instructions in order of appearance.
+ */
+function splitInstructions(content: string): ReadonlyArray<DockerfileInstruction> {
+  const instructions: DockerfileInstruction[] = [];
+  let pendingLine = '';
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim().startsWith('#')) {
+      continue;
+    }
+    if (line.trimEnd().endsWith('\\')) {
+      pendingLine += `${line.trimEnd().slice(0, -1)} `;
+      continue;
+    }
+    const match = /^\s*(\w+)\s*(.*)$/.exec(pendingLine + line);
+    pendingLine = '';
+    if (match?.[1]) {
+      instructions.push({ keyword: match[1].toUpperCase(), args: (match[2] ?? '').trim() });
+    }
+  }
+  return instructions;
+}
+
+/**
+ * Expands variables in an instruction argument, warning instead of throwing when it cannot be expanded,
+ * so that one unsupported expression only affects its own instruction.
+ *
+ * @param template - Instruction argument to expand.
+ * @param variables - Variables available for substitution.
+ * @returns Expanded argument, or undefined if it cannot be expanded.
+ */
+function tryExpandVariables(template: string, variables: BuildArgs): string | undefined {
+  try {
+    return expandDockerfileVariables(template, variables);
+  } catch (expansionError) {
+    core.warning(`Skipping ${template} in Dockerfile: ${expansionError}`);
+    return undefined;
+  }
+}
+
+/**
+ * Parses the declarations of an ARG instruction (e.g., `ARG BASE=node:20 VARIANT`).
+ * Values passed as build arguments take precedence over defaults declared in the Dockerfile.
+ *
+ * @param args - Arguments of the ARG instruction.
+ * @param declaredArgs - Arguments declared by earlier ARG instructions, used to expand defaults.
+ * @param buildArgs - Build arguments passed to the build.
+ * @returns Declared arguments with their resolved values.
+ */
+function parseArgInstruction(
+  args: string,
+  declaredArgs: BuildArgs,
+  buildArgs: BuildArgs
+): Record<string, string | undefined> {
+  return Object.fromEntries(
+    args
+      .split(/\s+/)
+      .filter((declaration) => declaration !== '')
+      .map((declaration) => {
+        const [argName = '', ...defaultParts] = declaration.split('=');
+        const defaultValue =
+          defaultParts.length > 0
+            ? tryExpandVariables(defaultParts.join('=').replace(/^"|"$/g, ''), declaredArgs)
+            : undefined;
+        return [argName, buildArgs[argName] ?? defaultValue];
+      })
+  );
+}
+
+/**
+ * Parses a FROM instruction (e.g., `FROM --platform=linux/amd64 ${BASE} AS build`).
+ *
+ * @param args - Arguments of the FROM instruction.
+ * @param globalArgs - Arguments declared before the first FROM instruction.
+ * @returns Stage without copy sources, or undefined if the instruction has no image.
+ *   The stage has no base image if the image or platform cannot be expanded.
+ */
+function parseFromInstruction(args: string, globalArgs: BuildArgs): Omit<DockerfileStage, 'copySources'> | undefined {
+  const tokens = args.split(/\s+/).filter((token) => token !== '');
+  const platformFlag = tokens.find((token) => token.startsWith('--platform='));
+  const [rawImage, asKeyword, stageName] = tokens.filter((token) => !token.startsWith('--'));
+  if (rawImage === undefined) {
+    return undefined;
+  }
+
+  // Automatic platform args (e.g., $BUILDPLATFORM) are not declared and expand to an empty string
+  const platform = platformFlag ? tryExpandVariables(platformFlag.slice('--platform='.length), globalArgs) : '';
+  return {
+    baseImage: platform !== undefined ? tryExpandVariables(rawImage, globalArgs) : undefined,
+    ...(platform && { platform }),
+    ...(asKeyword?.toUpperCase() === 'AS' && stageName !== undefined && { name: stageName }),
+  };
+}
+
+/**
+ * Extracts the sources referenced by `COPY --from=...` and `RUN --mount=...,from=...` flags.
+ *
+ * @param instruction - Instruction to inspect.
+ * @returns Referenced stage names, stage indexes or image names.
+ */
+function extractCopySources(instruction: DockerfileInstruction): ReadonlyArray<string> {
+  if (instruction.keyword === 'COPY' || instruction.keyword === 'ADD') {
+    return [...instruction.args.matchAll(/--from=(\S+)/g)].flatMap((match) => (match[1] ? [match[1]] : []));
+  }
+  if (instruction.keyword === 'RUN') {
+    return [...instruction.args.matchAll(/--mount=\S*?\bfrom=([^,\s]+)/g)].flatMap((match) =>
+      match[1] ? [match[1]] : []
+    );
+  }
+  return [];
+}
+
+/**
+ * Parses the build stages of a Dockerfile.
+ * Only ARG instructions before the first FROM are in scope for FROM instructions.
+ *
+ * @param content - Contents of the Dockerfile.
+ * @param buildArgs - Build arguments passed to the build.
+ * @returns Build stages in order of appearance.
+ */
+function parseStages(content: string, buildArgs: BuildArgs): ReadonlyArray<DockerfileStage> {
+  // Note: Stages and global args are accumulated in place while walking the instructions
+  const stages: DockerfileStage[] = [];
+  let globalArgs: BuildArgs = {};
+  for (const instruction of splitInstructions(content)) {
+    const currentStage = stages[stages.length - 1];
+    if (instruction.keyword === 'ARG' && currentStage === undefined) {
+      globalArgs = { ...globalArgs, ...parseArgInstruction(instruction.args, globalArgs, buildArgs) };
+    } else if (instruction.keyword === 'FROM') {
+      const stage = parseFromInstruction(instruction.args, globalArgs);
+      if (stage) {
+        stages.push({ ...stage, copySources: [] });
+      }
+    } else if (currentStage !== undefined) {
+      const copySources = extractCopySources(instruction);
+      if (copySources.length > 0) {
+        stages[stages.length - 1] = { ...currentStage, copySources: [...currentStage.copySources, ...copySources] };
+      }
+    }
+  }
+  return stages;
+}
+
+/**
+ * Finds the stage referenced by name or index among the stages preceding a given stage.
+ *
+ * @param stages - All build stages.
+ * @param reference - Stage name (case-insensitive) or index, or an image name.
+ * @param beforeIndex - Index of the referencing stage. Only earlier stages can be referenced.
+ * @returns Index of the referenced stage, or undefined if the reference is an external image.
+ */
+function findStageIndex(
+  stages: ReadonlyArray<DockerfileStage>,
+  reference: string,
+  beforeIndex: number
+): number | undefined {
+  if (/^\d+$/.test(reference)) {
+    const stageIndex = Number(reference);
+    return stageIndex < beforeIndex ? stageIndex : undefined;
+  }
+  const stageIndex = stages.findIndex((stage) => stage.name?.toLowerCase() === reference.toLowerCase());
+  return stageIndex !== -1 && stageIndex < beforeIndex ? stageIndex : undefined;
+}
+
+/**
+ * Extracts the external images needed to build a Dockerfile target.
+ * Only stages the target depends on (through FROM, `COPY --from` or `RUN --mount=from`) are considered,
+ * as with BuildKit. Stage references and `scratch` are not external images.
+ *
+ * @param content - Contents of the Dockerfile.
+ * @param buildArgs - Build arguments passed to the build, used to expand ARGs in FROM instructions.
+ * @param target - Name of the target stage. Defaults to the last stage.
+ * @returns Unique external images in order of appearance.
+ */
+export function parseDockerfileBaseImages(
+  content: string,
+  buildArgs: BuildArgs = {},
+  target?: string
+): ReadonlyArray<DockerfileBaseImage> {
+  const stages = parseStages(content, buildArgs);
+  const targetIndex =
+    target !== undefined
+      ? stages.findIndex((stage) => stage.name?.toLowerCase() === target.toLowerCase())
+      : stages.length - 1;
+  if (targetIndex === -1) {
+    if (target !== undefined) {
+      core.warning(`Target stage ${target} not found in Dockerfile`);
+    }
+    return [];
+  }
+
+  // Note: Required stage indexes are collected in place while walking stage dependencies
+  const requiredStageIndexes = new Set<number>();
+  const pendingStageIndexes = [targetIndex];
+  while (pendingStageIndexes.length > 0) {
+    const stageIndex = pendingStageIndexes.pop() ?? 0;
+    const stage = stages[stageIndex];
+    if (stage !== undefined && !requiredStageIndexes.has(stageIndex)) {
+      requiredStageIndexes.add(stageIndex);
+      for (const reference of [...(stage.baseImage !== undefined ? [stage.baseImage] : []), ...stage.copySources]) {
+        const referencedStageIndex = findStageIndex(stages, reference, stageIndex);
+        if (referencedStageIndex !== undefined) {
+          pendingStageIndexes.push(referencedStageIndex);
+        }
+      }
+    }
+  }
+
+  const externalImages = stages.flatMap((stage, stageIndex): DockerfileBaseImage[] => {
+    if (!requiredStageIndexes.has(stageIndex)) {
+      return [];
+    }
+    const isExternal = (reference: string) =>
+      reference.toLowerCase() !== SCRATCH_IMAGE &&
+      !/^\d+$/.test(reference) &&
+      findStageIndex(stages, reference, stageIndex) === undefined;
+    return [
+      ...(stage.baseImage !== undefined && isExternal(stage.baseImage)
+        ? [{ image: stage.baseImage, ...(stage.platform !== undefined && { platform: stage.platform }) }]
+        : []),
+      ...stage.copySources.filter(isExternal).map((image) => ({ image })),
+    ];
+  });
+  return uniqBy(externalImages, (baseImage) => `${baseImage.image}|${baseImage.platform ?? ''}`);
+}
+
+/**
+ * Reads a Dockerfile and extracts the external images needed to build a target.
+ *
+ * @param dockerfilePath - Path to the Dockerfile.
+ * @param buildArgs - Build arguments passed to the build.
+ * @param target - Name of the target stage. Defaults to the last stage.
+ * @returns External images, or an empty array if the Dockerfile cannot be read.
+ */
+export function getDockerfileBaseImages(
+  dockerfilePath: string,
+  buildArgs: BuildArgs = {},
+  target?: string
+): ReadonlyArray<DockerfileBaseImage> {
+  try {
+    return parseDockerfileBaseImages(fs.readFileSync(dockerfilePath, 'utf8'), buildArgs, target);
+  } catch (dockerfileError) {
+    core.warning(`Failed to read Dockerfile ${dockerfilePath}: ${dockerfileError}`);
+    return [];
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Failure policy for images that cannot be cached.
+ * Decides which failed or uncached images fail the step, so critical images stop the job early
+ * while images allowed to fail only produce warnings.
+ */
+
+import * as core from '@actions/core';
+
+import { isServedFromCache } from './action-outputs';
+import { type ContainerRuntime, inspectImageLocal } from './docker-command';
+import { matchesExcludePattern } from './docker-compose-file';
+import type { ServiceResult } from './docker-compose-service-processing';
+
+/**
+ * Which images fail the step.
+ * - never: No image fails the step, failures are only reported
+ * - any-error: Images that failed to be processed, including images that could not be saved to cache,
+ *   and images not available locally, such as images not found in cache in restore mode
+ * - pull-error: Images not available locally, since they could be neither pulled nor loaded from cache,
+ *   or were not present locally in save mode
+ * - cache-miss: Images that were looked up in cache but not found, in addition to the images failing any-error
+ */
+export type FailOn = 'never' | 'any-error' | 'pull-error' | 'cache-miss';
+
+/**
+ * Which images fail the step, and which are allowed to fail.
+ */
+export type FailurePolicy = {
+  readonly failOn: FailOn;
+  /** Image name patterns whose failures are reported as warnings. Supports glob patterns with `*` and `?`. */
+  readonly allowedFailures: ReadonlyArray<string>;
+};
+
+/**
+ * Image that fails the step, and why.
+ */
+export type PolicyViolation = {
+  readonly imageName: string;
+  readonly reason: string;
+};
+
+/**
+ * Gets why an image processed successfully is not available locally, from the outcome of processing it.
+ * Restore mode does not pull images missing from cache, and save mode does not pull images missing locally.
+ *
+ * @param serviceResult - Result of processing the image
+ * @returns Reason the image is not available locally, or undefined if it is
+ */
+function getUnavailableReason(serviceResult: ServiceResult): string | undefined {
+  switch (serviceResult.outcome) {
+    case 'cache-miss':
+      return 'Not found in cache';
+    case 'not-present':
+      return 'Not present locally in the version to save';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets why an image was not served from cache although it was looked up in cache.
+ * Images saved in save mode were not looked up, and stale images refreshed from the registry were found in cache.
+ *
+ * @param serviceResult - Result of processing the image
+ * @returns Reason the image counts as a cache miss, or undefined if it does not
+ */
+function getCacheMissReason(serviceResult: ServiceResult): string | undefined {
+  if (isServedFromCache(serviceResult)) {
+    return undefined;
+  }
+  switch (serviceResult.outcome) {
+    case 'cache-miss':
+    case 'would-miss':
+      return 'Not found in cache';
+    case undefined:
+      return 'Not served from cache';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Gets why an image fails the step under the given policy.
+ *
+ * @param containerRuntime - Container runtime the images were processed with
+ * @param serviceResult - Result of processing the image
+ * @param failOn - Which images fail the step
+ * @returns Reason the image fails the step, or undefined if it does not
+ */
+async function getViolationReason(
+  containerRuntime: ContainerRuntime,
+  serviceResult: ServiceResult,
+  failOn: FailOn
+): Promise<string | undefined> {
+  const errorReason = serviceResult.error ?? `Failed to process ${serviceResult.imageName}`;
+  switch (failOn) {
+    case 'never':
+      return undefined;
+    case 'any-error':
+      return serviceResult.success ? getUnavailableReason(serviceResult) : errorReason;
+    case 'pull-error':
+      if (serviceResult.success) {
+        return getUnavailableReason(serviceResult);
+      }
+      // Failures to save an image that is present locally do not keep later steps from using it
+      return (await inspectImageLocal(containerRuntime, serviceResult.imageName, false)) === undefined
+        ? errorReason
+        : undefined;
+    case 'cache-miss':
+      return serviceResult.success
+        ? (getUnavailableReason(serviceResult) ?? getCacheMissReason(serviceResult))
+        : errorReason;
+  }
+}
+
+/**
+ * Finds the images that fail the step under the given policy.
+ * Images matching the allowed failures are reported with a warning instead.
+ *
+ * @param containerRuntime - Container runtime the images were processed with
+ * @param serviceResults - Results of processing the images
+ * @param failurePolicy - Which images fail the step, and which are allowed to fail
+ * @returns Images that fail the step, empty if the step succeeds
+ */
+export async function findPolicyViolations(
+  containerRuntime: ContainerRuntime,
+  serviceResults: ReadonlyArray<ServiceResult>,
+  failurePolicy: FailurePolicy
+): Promise<ReadonlyArray<PolicyViolation>> {
+  const policyViolations: PolicyViolation[] = [];
+  for (const serviceResult of serviceResults) {
+    const reason = await getViolationReason(containerRuntime, serviceResult, failurePolicy.failOn);
+    if (reason === undefined) {
+      continue;
+    }
+    if (matchesExcludePattern(serviceResult.imageName, failurePolicy.allowedFailures)) {
+      core.warning(`${serviceResult.imageName} is allowed to fail: ${reason}`);
+      continue;
+    }
+    policyViolations.push({ imageName: serviceResult.imageName, reason });
+  }
+  return policyViolations;
+}
@@ -1,8 +1,11 @@
 /**
  * @fileoverview File and path utility functions.
- * Provides utilities for path sanitization and file size formatting.
+ * Provides utilities for path sanitization, file size formatting and glob pattern expansion.
  */
 
+import * as fs from 'node:fs';
+import * as core from '@actions/core';
+
 /**
  * File size formatting units.
  */
@@ -13,6 +16,11 @@ const FILE_SIZE_UNITS = ['Bytes', 'KB', 'MB', 'GB', 'TB', 'PB'] as const;
  */
 const FILE_SIZE_BASE = 1024;
 
+/**
+ * Directory names that are never traversed when expanding glob patterns.
+ */
+const GLOB_IGNORED_DIRECTORY_NAMES: ReadonlyArray<string> = ['.git', 'node_modules'];
+
 /**
  * Sanitizes a string to make it safe for use in file paths.
  *
@@ -46,3 +54,136 @@ export function formatFileSize(fileSizeBytes: number | undefined): string {
 
   return `${(fileSizeBytes / FILE_SIZE_BASE ** safeUnitIndex).toFixed(2).replace(/\.0+$|(\.[0-9]*[1-9])0+$/, '$1')} ${sizeUnit}`;
 }
+
+/**
+ * Checks whether a path contains glob syntax (`*`, `?`, `[...]` or `{...}`).
+ *
+ * @param value - Path or pattern to check.
+ * @returns true if the value is a glob pattern.
+ */
+export function isGlobPattern(value: string): boolean {
+  return /[*?[\]{}]/.test(value);
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching slash-separated paths.
+ * Supports `**` (any number of directories), `*`, `?`, `[...]` character classes and `{a,b}` alternatives.
+ *
+ * @param pattern - Glob pattern to convert.
+ * @returns RegExp matching the full path.
+ */
+function globToRegex(pattern: string): RegExp {
+  let regexSource = '';
+  let alternationDepth = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const character = pattern.charAt(index);
+    if (character === '*' && pattern.charAt(index + 1) === '*') {
+      // '**/' matches zero or more directories, a trailing '**' matches everything below
+      const followedBySlash = pattern.charAt(index + 2) === '/';
+      regexSource += followedBySlash ? '(?:.*/)?' : '.*';
+      index += followedBySlash ? 2 : 1;
+    } else if (character === '*') {
+      regexSource += '[^/]*';
+    } else if (character === '?') {
+      regexSource += '[^/]';
+    } else if (character === '[') {
+      const closingIndex = pattern.indexOf(']', index + 1);
+      if (closingIndex === -1) {
+        regexSource += '\\[';
+      } else {
+        regexSource += `[${pattern
+          .slice(index + 1, closingIndex)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\')}]`;
+        index = closingIndex;
+      }
+    } else if (character === '{') {
+      regexSource += '(?:';
+      alternationDepth++;
+    } else if (character === '}' && alternationDepth > 0) {
+      regexSource += ')';
+      alternationDepth--;
+    } else if (character === ',' && alternationDepth > 0) {
+      regexSource += '|';
+    } else {
+      regexSource += character.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regexSource}$`);
+}
+
+/**
+ * Gets the file stats of the target of a symbolic link.
+ *
+ * @param linkPath - Path to the symbolic link.
+ * @returns Stats of the link target, or undefined if the link is dangling or cyclic.
+ */
+function getSymbolicLinkTargetStats(linkPath: string): fs.Stats | undefined {
+  try {
+    return fs.statSync(linkPath);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Expands a glob pattern to the matching files, relative to the working directory unless the pattern is absolute.
+ * Directories named `.git` or `node_modules` are not traversed. Symbolic links are followed unless they point
+ * back to a directory being traversed, and unreadable directories are skipped with a warning.
+ *
+ * @param pattern - Glob pattern (e.g., "services/**\/compose.yaml").
+ * @returns Sorted array of matching file paths.
+ */
+export function expandGlobPattern(pattern: string): ReadonlyArray<string> {
+  const normalizedPattern = pattern.replace(/^\.\//, '');
+  const patternSegments = normalizedPattern.split('/');
+  const firstGlobSegmentIndex = patternSegments.findIndex((segment) => isGlobPattern(segment));
+  const baseDirectory =
+    firstGlobSegmentIndex === 0 ? '.' : patternSegments.slice(0, firstGlobSegmentIndex).join('/') || '/';
+  const patternRegex = globToRegex(normalizedPattern);
+  // Without '**', files can only match at the depth of the pattern
+  const maxDepth = normalizedPattern.includes('**')
+    ? Number.POSITIVE_INFINITY
+    : patternSegments.length - firstGlobSegmentIndex;
+
+  const matchingFilePaths: string[] = [];
+  // Real paths of the directories being traversed, to stop at symbolic link cycles
+  const ancestorDirectoryPaths = new Set<string>();
+  const walkDirectory = (directoryPath: string, depth: number): void => {
+    let realDirectoryPath: string;
+    let directoryEntries: ReadonlyArray<fs.Dirent>;
+    try {
+      realDirectoryPath = fs.realpathSync(directoryPath);
+      directoryEntries = fs.readdirSync(directoryPath, { withFileTypes: true });
+    } catch (directoryError) {
+      core.warning(`Failed to read directory ${directoryPath} while expanding ${pattern}: ${directoryError}`);
+      return;
+    }
+    if (ancestorDirectoryPaths.has(realDirectoryPath)) {
+      return;
+    }
+
+    ancestorDirectoryPaths.add(realDirectoryPath);
+
+    for (const directoryEntry of directoryEntries) {
+      const entryPath =
+        directoryPath === '.' ? directoryEntry.name : `${directoryPath.replace(/\/$/, '')}/${directoryEntry.name}`;
+      const entryStats = directoryEntry.isSymbolicLink() ? getSymbolicLinkTargetStats(entryPath) : directoryEntry;
+      if (
+        entryStats?.isDirectory() &&
+        depth < maxDepth &&
+        !GLOB_IGNORED_DIRECTORY_NAMES.includes(directoryEntry.name)
+      ) {
+        walkDirectory(entryPath, depth + 1);
+      } else if (entryStats?.isFile() && patternRegex.test(entryPath)) {
+        matchingFilePaths.push(entryPath);
+      }
+    }
+    ancestorDirectoryPaths.delete(realDirectoryPath);
+  };
+
+  if (fs.statSync(baseDirectory, { throwIfNoEntry: false })?.isDirectory()) {
+    walkDirectory(baseDirectory, 1);
+  }
+  return matchingFilePaths.sort();
+}
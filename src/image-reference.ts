@@ -0,0 +1,161 @@
+/**
+ * @fileoverview OCI image reference parsing utilities.
+ * Splits image references into registry, repository path, tag, and digest components
+ * following the grammar used by the Docker distribution reference implementation.
+ */
+
+/**
+ * Represents the components of a parsed image reference
+ * (e.g., "localhost:5000/team/api:1.2", "ghcr.io/org/app@sha256:...").
+ * @see https://github.com/distribution/reference/blob/main/reference.go
+ */
+export type ImageReference = {
+  /** Registry host with optional port (e.g., 'docker.io', 'localhost:5000'). */
+  readonly registry: string;
+  /** Repository path within the registry (e.g., 'library/nginx', 'team/api'). */
+  readonly repository: string;
+  /** Tag, if specified or implied (e.g., 'latest', '1.2'). Undefined for digest-only references. */
+  readonly tag?: string | undefined;
+  /** Content digest, if the reference is pinned (e.g., 'sha256:abc123...'). */
+  readonly digest?: string | undefined;
+};
+
+/**
+ * Registry used when a reference does not include a registry host.
+ */
+const DEFAULT_REGISTRY = 'docker.io';
+
+/**
+ * Legacy registry host names that are equivalent to the default registry.
+ */
+const LEGACY_DEFAULT_REGISTRIES: ReadonlyArray<string> = ['index.docker.io', 'registry-1.docker.io'];
+
+/**
+ * Namespace implied for single-component repositories on the default registry.
+ */
+const DEFAULT_NAMESPACE = 'library';
+
+/**
+ * Tag implied when a reference has neither a tag nor a digest.
+ */
+const DEFAULT_TAG = 'latest';
+
+/**
+ * Pattern for a single repository path component (lowercase alphanumerics with separators).
+ */
+const PATH_COMPONENT_PATTERN = /^[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*$/;
+
+/**
+ * Pattern for a registry host with optional port (domain name, IPv4, or bracketed IPv6 address).
+ */
+const REGISTRY_PATTERN =
+  /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]*[a-zA-Z0-9])?)*|\[[a-fA-F0-9:]+\])(?::[0-9]+)?$/;
+
+/**
+ * Pattern for an image tag.
+ */
+const TAG_PATTERN = /^[\w][\w.-]{0,127}$/;
+
+/**
+ * Pattern for a content digest (algorithm and hex-encoded value).
+ */
+const DIGEST_PATTERN = /^[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9a-fA-F]{32,}$/;
+
+/**
+ * Determines whether the first path component of a reference is a registry host.
+ * A component is treated as a registry if it contains a '.' or ':' or equals 'localhost',
+ * matching the heuristic used by Docker.
+ *
+ * @param component - First '/'-separated component of the reference name.
+ * @returns true if the component denotes a registry host.
+ */
+function isRegistryComponent(component: string): boolean {
+  return component.includes('.') || component.includes(':') || component === 'localhost';
+}
+
+/**
+ * Parses an image reference string into its components.
+ * References without a registry are normalized to 'docker.io', single-component repositories
+ * on Docker Hub are prefixed with 'library/', and references with neither a tag nor a digest
+ * are given the implicit 'latest' tag.
+ *
+ * @param imageReference - Image reference to parse (e.g., "nginx", "localhost:5000/team/api:1.2", "app@sha256:...").
+ * @returns Parsed `ImageReference`, or `undefined` if the reference is invalid.
+ */
+export function parseImageReference(imageReference: string): ImageReference | undefined {
+  const trimmedReference = imageReference.trim();
+  if (!trimmedReference) {
+    return undefined;
+  }
+
+  // Split off the digest first, as it may itself contain ':'
+  const digestSeparatorIndex = trimmedReference.indexOf('@');
+  const nameWithTag = digestSeparatorIndex === -1 ? trimmedReference : trimmedReference.slice(0, digestSeparatorIndex);
+  const digest = digestSeparatorIndex === -1 ? undefined : trimmedReference.slice(digestSeparatorIndex + 1);
+  if (digest !== undefined && !DIGEST_PATTERN.test(digest)) {
+    return undefined;
+  }
+
+  // A ':' after the last '/' separates the tag; earlier colons belong to the registry port
+  const tagSeparatorIndex = nameWithTag.lastIndexOf(':');
+  const hasTag = tagSeparatorIndex > nameWithTag.lastIndexOf('/');
+  const name = hasTag ? nameWithTag.slice(0, tagSeparatorIndex) : nameWithTag;
+  const tag = hasTag ? nameWithTag.slice(tagSeparatorIndex + 1) : undefined;
+  if (tag !== undefined && !TAG_PATTERN.test(tag)) {
+    return undefined;
+  }
+
+  const [firstComponent = '', ...remainingComponents] = name.split('/');
+  const hasRegistry = remainingComponents.length > 0 && isRegistryComponent(firstComponent);
+  const rawRegistry = hasRegistry ? firstComponent : DEFAULT_REGISTRY;
+  if (!REGISTRY_PATTERN.test(rawRegistry)) {
+    return undefined;
+  }
+  const registry = LEGACY_DEFAULT_REGISTRIES.includes(rawRegistry) ? DEFAULT_REGISTRY : rawRegistry;
+
+  const pathComponents = hasRegistry ? remainingComponents : [firstComponent, ...remainingComponents];
+  if (!pathComponents.every((component) => PATH_COMPONENT_PATTERN.test(component))) {
+    return undefined;
+  }
+  const repository =
+    registry === DEFAULT_REGISTRY && pathComponents.length === 1
+      ? `${DEFAULT_NAMESPACE}/${pathComponents.join('/')}`
+      : pathComponents.join('/');
+
+  return {
+    registry,
+    repository,
+    tag: tag ?? (digest === undefined ? DEFAULT_TAG : undefined),
+    digest,
+  };
+}
+
+/**
+ * Returns the shortest equivalent name of an image reference, without tag or digest.
+ * Omits the default registry and the implicit 'library/' namespace, as Docker does when displaying images.
+ *
+ * @param imageReference - Parsed image reference.
+ * @returns Familiar image name (e.g., 'nginx', 'bitnami/redis', 'localhost:5000/team/api').
+ */
+export function getFamiliarName(imageReference: ImageReference): string {
+  if (imageReference.registry !== DEFAULT_REGISTRY) {
+    return `${imageReference.registry}/${imageReference.repository}`;
+  }
+  const libraryPrefix = `${DEFAULT_NAMESPACE}/`;
+  return imageReference.repository.startsWith(libraryPrefix) &&
+    !imageReference.repository.slice(libraryPrefix.length).includes('/')
+    ? imageReference.repository.slice(libraryPrefix.length)
+    : imageReference.repository;
+}
+
+/**
+ * Formats a parsed image reference as a fully qualified reference string.
+ *
+ * @param imageReference - Parsed image reference.
+ * @returns Fully qualified reference (e.g., 'docker.io/library/nginx:latest', 'ghcr.io/org/app@sha256:...').
+ */
+export function formatImageReference(imageReference: ImageReference): string {
+  const tagSuffix = imageReference.tag ? `:${imageReference.tag}` : '';
+  const digestSuffix = imageReference.digest ? `@${imageReference.digest}` : '';
+  return `${imageReference.registry}/${imageReference.repository}${tagSuffix}${digestSuffix}`;
+}
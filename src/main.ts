@@ -4,6 +4,7 @@
  */
 
 import * as core from '@actions/core';
+import { uniq } from 'lodash';
 
 import {
   buildProcessedImageList,
@@ -13,27 +14,102 @@ import {
   setActionOutputs,
   type TimedServiceResult,
 } from './action-outputs';
+import { saveDeferredSaveState } from './action-state';
+import {
+  COMPRESSION_LEVELS,
+  type CompressionAlgorithm,
+  type CompressionSettings,
+  isZstdSupported,
+  NO_COMPRESSION,
+} from './compression';
+import { createConcurrencyLimiter } from './concurrency';
 import { formatTimeBetween } from './date-utils';
-import type { ContainerRuntime } from './docker-command';
-import { getComposeFilePathsToProcess, getComposeServicesFromFiles } from './docker-compose-file';
-import { processService } from './docker-compose-service-processing';
+import {
+  type CommandTimeouts,
+  type ContainerRuntime,
+  cancelCommandsOnSignals,
+  DEFAULT_COMMAND_TIMEOUTS,
+  setCommandTimeouts,
+} from './docker-command';
+import { processServiceBundle } from './docker-compose-bundle-processing';
+import {
+  type ComposeService,
+  getComposeProjectsToProcess,
+  getComposeServicesFromProjects,
+  type MissingComposeFileMode,
+  resolveActiveProfiles,
+} from './docker-compose-file';
+import {
+  type CacheStrategy,
+  type ProcessingMode,
+  processService,
+  type ServiceProcessingOptions,
+} from './docker-compose-service-processing';
+import { type FailOn, type FailurePolicy, findPolicyViolations } from './failure-policy';
+import { DEFAULT_RETRY_POLICY, type RetryPolicy, setRetryPolicy } from './retry';
+import { removeTrackedTempFiles } from './temp-files';
 
 /**
  * Default cache key prefix when none is provided.
  */
 const DEFAULT_CACHE_KEY_PREFIX = 'docker-compose-image';
 
+/**
+ * Supported values of the missing-compose-file input.
+ */
+const MISSING_COMPOSE_FILE_MODES: ReadonlyArray<MissingComposeFileMode> = ['error', 'warn', 'ignore'];
+
+/**
+ * Supported values of the mode input.
+ */
+const PROCESSING_MODES: ReadonlyArray<ProcessingMode> = ['full', 'restore', 'save', 'lookup-only'];
+
+/**
+ * Supported values of the cache-strategy input.
+ */
+const CACHE_STRATEGIES: ReadonlyArray<CacheStrategy> = ['per-image', 'bundle', 'layers'];
+
+/**
+ * Supported compression codecs.
+ */
+const COMPRESSION_ALGORITHMS: ReadonlyArray<CompressionAlgorithm> = ['none', 'gzip', 'zstd'];
+
+/**
+ * Supported values of the fail-on input.
+ */
+const FAIL_ON_VALUES: ReadonlyArray<FailOn> = ['never', 'any-error', 'pull-error', 'cache-miss'];
+
+/**
+ * Default maximum number of images processed at the same time.
+ */
+const DEFAULT_MAX_CONCURRENCY = 4;
+
 /**
  * Configuration for action inputs.
  */
 type ActionConfig = {
+  readonly mode: ProcessingMode;
+  readonly cacheStrategy: CacheStrategy;
   readonly composeFilePaths: ReadonlyArray<string>;
+  readonly missingComposeFileMode: MissingComposeFileMode;
   readonly excludeImageNames: ReadonlyArray<string>;
+  readonly activeProfiles: ReadonlyArray<string>;
+  readonly buildBaseImages: boolean;
   readonly additionalImages: ReadonlyArray<string>;
   readonly cacheKeyPrefix: string;
   readonly skipDigestVerification: boolean;
   readonly forceRefresh: boolean;
   readonly containerRuntime: string;
+  readonly maxConcurrency: number;
+  readonly restoreConcurrency: number;
+  readonly pullConcurrency: number;
+  readonly saveConcurrency: number;
+  readonly deferSave: boolean;
+  readonly compression: CompressionSettings;
+  readonly keepTempFiles: boolean;
+  readonly retryPolicy: RetryPolicy;
+  readonly commandTimeouts: CommandTimeouts;
+  readonly failurePolicy: FailurePolicy;
 };
 
 /**
@@ -63,18 +139,250 @@ function getSkipDigestVerification(): boolean {
   return false;
 }
 
+/**
+ * Gets the missing compose file mode from action inputs.
+ * Unsupported values are reported with a warning and fall back to 'warn'.
+ *
+ * @returns How to handle Compose files that do not exist
+ */
+function getMissingComposeFileMode(): MissingComposeFileMode {
+  const missingComposeFileInput = core.getInput('missing-compose-file') || 'warn';
+  const missingComposeFileMode = MISSING_COMPOSE_FILE_MODES.find((mode) => mode === missingComposeFileInput);
+  if (missingComposeFileMode === undefined) {
+    core.warning(
+      `Unsupported missing-compose-file value '${missingComposeFileInput}' specified. Defaulting to 'warn'.`
+    );
+    return 'warn';
+  }
+  return missingComposeFileMode;
+}
+
+/**
+ * Gets the operating mode from action inputs.
+ * Unsupported values are reported with a warning and fall back to 'full'.
+ *
+ * @returns Whether to restore and save, only restore, or only save images
+ */
+function getProcessingMode(): ProcessingMode {
+  const modeInput = core.getInput('mode') || 'full';
+  const processingMode = PROCESSING_MODES.find((mode) => mode === modeInput);
+  if (processingMode === undefined) {
+    core.warning(`Unsupported mode '${modeInput}' specified. Defaulting to 'full'.`);
+    return 'full';
+  }
+  return processingMode;
+}
+
+/**
+ * Gets the cache strategy from action inputs.
+ * Unsupported values are reported with a warning and fall back to 'per-image'.
+ *
+ * @returns Whether to store each image in its own cache entry or all images in one
+ */
+function getCacheStrategy(): CacheStrategy {
+  const cacheStrategyInput = core.getInput('cache-strategy') || 'per-image';
+  const cacheStrategy = CACHE_STRATEGIES.find((strategy) => strategy === cacheStrategyInput);
+  if (cacheStrategy === undefined) {
+    core.warning(`Unsupported cache-strategy '${cacheStrategyInput}' specified. Defaulting to 'per-image'.`);
+    return 'per-image';
+  }
+  return cacheStrategy;
+}
+
+/**
+ * Gets the compression settings from action inputs.
+ * Unsupported codecs fall back to no compression, and zstd falls back to gzip should the Node.js runtime lack zstd,
+ * for example when the action is run on a Node.js version older than the node24 runtime declared in action.yml.
+ * Empty levels use the codec's default, and levels outside the codec's range are reported with a warning
+ * and fall back to the default as well.
+ *
+ * @returns Codec and compression level for tar files
+ */
+function getCompressionSettings(): CompressionSettings {
+  const compressionInput = core.getInput('compression') || 'none';
+  let algorithm = COMPRESSION_ALGORITHMS.find((compressionAlgorithm) => compressionAlgorithm === compressionInput);
+  if (algorithm === undefined) {
+    core.warning(`Unsupported compression '${compressionInput}' specified. Defaulting to 'none'.`);
+    return NO_COMPRESSION;
+  }
+  if (algorithm === 'none') {
+    return NO_COMPRESSION;
+  }
+  if (algorithm === 'zstd' && !isZstdSupported()) {
+    core.warning(`zstd compression is not supported by Node.js ${process.version}. Defaulting to 'gzip'.`);
+    algorithm = 'gzip';
+  }
+
+  const compressionLevels = COMPRESSION_LEVELS[algorithm];
+  const levelInput = core.getInput('compression-level');
+  if (levelInput === '') {
+    return { algorithm, level: compressionLevels.default };
+  }
+  const level = Number(levelInput);
+  if (!/^\d+$/.test(levelInput) || level < compressionLevels.min || level > compressionLevels.max) {
+    core.warning(
+      `Invalid compression-level value '${levelInput}' specified for ${algorithm}. Defaulting to ${compressionLevels.default}.`
+    );
+    return { algorithm, level: compressionLevels.default };
+  }
+  return { algorithm, level };
+}
+
+/**
+ * Processes all images as a single bundle stored in one cache entry.
+ * Every image is attributed the processing time of the whole bundle.
+ *
+ * @returns Results with timing information, in the order of the images
+ */
+async function processImagesAsBundle(
+  containerRuntime: ContainerRuntime,
+  targetImages: ReadonlyArray<ComposeService>,
+  cacheKeyPrefix: string,
+  skipDigestVerification: boolean,
+  forceRefresh: boolean,
+  processingOptions: ServiceProcessingOptions
+): Promise<readonly TimedServiceResult[]> {
+  const bundleStartTime = performance.now();
+  const bundleResults = await processServiceBundle(
+    containerRuntime,
+    targetImages,
+    cacheKeyPrefix,
+    skipDigestVerification,
+    forceRefresh,
+    processingOptions
+  );
+  const bundleEndTime = performance.now();
+
+  return bundleResults.map((serviceResult, imageIndex) => ({
+    ...serviceResult,
+    sourceFile: targetImages[imageIndex]?.sourceFile,
+    processingDuration: bundleEndTime - bundleStartTime,
+    humanReadableDuration: formatTimeBetween(bundleStartTime, bundleEndTime),
+  }));
+}
+
+/**
+ * Gets a concurrency limit from action inputs.
+ * Empty values use the fallback, and invalid values are reported with a warning and fall back as well.
+ *
+ * @param inputName - Name of the input to read
+ * @param fallbackValue - Limit used when the input is empty or invalid
+ * @returns Concurrency limit, where 0 means unlimited
+ */
+function getConcurrencyInput(inputName: string, fallbackValue: number): number {
+  const concurrencyInput = core.getInput(inputName);
+  if (concurrencyInput === '') {
+    return fallbackValue;
+  }
+  if (!/^\d+$/.test(concurrencyInput)) {
+    core.warning(`Invalid ${inputName} value '${concurrencyInput}' specified. Defaulting to ${fallbackValue}.`);
+    return fallbackValue;
+  }
+  return Number(concurrencyInput);
+}
+
+/**
+ * Gets the retry policy for registry and cache operations from action inputs.
+ * Empty values use the defaults, and invalid values are reported with a warning and fall back as well.
+ *
+ * @returns Retry policy with the configured number of attempts and initial backoff
+ */
+function getRetryPolicy(): RetryPolicy {
+  const attemptsInput = core.getInput('retry-attempts');
+  let maxAttempts = DEFAULT_RETRY_POLICY.maxAttempts;
+  if (/^[1-9]\d*$/.test(attemptsInput)) {
+    maxAttempts = Number(attemptsInput);
+  } else if (attemptsInput !== '') {
+    core.warning(`Invalid retry-attempts value '${attemptsInput}' specified. Defaulting to ${maxAttempts}.`);
+  }
+
+  const delayInput = core.getInput('retry-delay');
+  let initialDelayMs = DEFAULT_RETRY_POLICY.initialDelayMs;
+  if (/^\d+(\.\d+)?$/.test(delayInput)) {
+    initialDelayMs = Number(delayInput) * 1000;
+  } else if (delayInput !== '') {
+    core.warning(
+      `Invalid retry-delay value '${delayInput}' specified. Defaulting to ${DEFAULT_RETRY_POLICY.initialDelayMs / 1000}.`
+    );
+  }
+
+  return { maxAttempts, initialDelayMs, maxDelayMs: DEFAULT_RETRY_POLICY.maxDelayMs };
+}
+
+/**
+ * Gets the timeouts of container runtime commands from the inspect-timeout, pull-timeout,
+ * save-timeout and load-timeout inputs.
+ * Empty values use the defaults, and invalid values are reported with a warning and fall back as well.
+ *
+ * @returns Timeouts in seconds of each kind of operation, where 0 means no timeout
+ */
+function getCommandTimeouts(): CommandTimeouts {
+  const getTimeoutInput = (operation: keyof CommandTimeouts): number => {
+    const inputName = `${operation}-timeout`;
+    const timeoutInput = core.getInput(inputName);
+    const defaultTimeout = DEFAULT_COMMAND_TIMEOUTS[operation];
+    if (timeoutInput === '') {
+      return defaultTimeout;
+    }
+    if (!/^\d+$/.test(timeoutInput)) {
+      core.warning(`Invalid ${inputName} value '${timeoutInput}' specified. Defaulting to ${defaultTimeout}.`);
+      return defaultTimeout;
+    }
+    return Number(timeoutInput);
+  };
+
+  return {
+    inspect: getTimeoutInput('inspect'),
+    pull: getTimeoutInput('pull'),
+    save: getTimeoutInput('save'),
+    load: getTimeoutInput('load'),
+  };
+}
+
+/**
+ * Gets the failure policy from the fail-on and allowed-failures inputs.
+ * Unsupported fail-on values are reported with a warning and fall back to 'never'.
+ *
+ * @returns Which images fail the step, and which are allowed to fail
+ */
+function getFailurePolicy(): FailurePolicy {
+  const failOnInput = core.getInput('fail-on') || 'never';
+  let failOn = FAIL_ON_VALUES.find((value) => value === failOnInput);
+  if (failOn === undefined) {
+    core.warning(`Unsupported fail-on value '${failOnInput}' specified. Defaulting to 'never'.`);
+    failOn = 'never';
+  }
+  return { failOn, allowedFailures: core.getMultilineInput('allowed-failures') };
+}
+
 /**
  * Gets action configuration from GitHub Actions environment.
  */
 function getActionConfig(): ActionConfig {
+  const maxConcurrency = getConcurrencyInput('max-concurrency', DEFAULT_MAX_CONCURRENCY);
   return {
+    mode: getProcessingMode(),
+    cacheStrategy: getCacheStrategy(),
     composeFilePaths: core.getMultilineInput('compose-files'),
+    missingComposeFileMode: getMissingComposeFileMode(),
     excludeImageNames: core.getMultilineInput('exclude-images'),
+    activeProfiles: resolveActiveProfiles(core.getMultilineInput('profiles')),
+    buildBaseImages: core.getBooleanInput('build-base-images'),
     additionalImages: core.getMultilineInput('additional-images'),
     cacheKeyPrefix: core.getInput('cache-key-prefix') || DEFAULT_CACHE_KEY_PREFIX,
     skipDigestVerification: getSkipDigestVerification(),
     forceRefresh: core.getBooleanInput('force-refresh'),
     containerRuntime: core.getInput('container-runtime') || 'docker',
+    maxConcurrency,
+    restoreConcurrency: getConcurrencyInput('restore-concurrency', maxConcurrency),
+    pullConcurrency: getConcurrencyInput('pull-concurrency', maxConcurrency),
+    saveConcurrency: getConcurrencyInput('save-concurrency', maxConcurrency),
+    deferSave: core.getBooleanInput('defer-save'),
+    compression: getCompressionSettings(),
+    keepTempFiles: core.getBooleanInput('keep-temp-files'),
+    retryPolicy: getRetryPolicy(),
+    commandTimeouts: getCommandTimeouts(),
+    failurePolicy: getFailurePolicy(),
   };
 }
 
@@ -84,13 +392,35 @@ function getActionConfig(): ActionConfig {
  */
 export async function run(): Promise<void> {
   const actionStartTime = performance.now();
+  // Note: Files not removed after their load or save, such as layer store blobs shared between images,
+  // are removed once the step ends
+  let keepTempFiles = false;
 
   try {
     const actionConfig = getActionConfig();
+    keepTempFiles = actionConfig.keepTempFiles;
+    setRetryPolicy(actionConfig.retryPolicy);
+    setCommandTimeouts(actionConfig.commandTimeouts);
 
-    const discoveredComposeFiles = getComposeFilePathsToProcess(actionConfig.composeFilePaths);
-    const targetServices = getComposeServicesFromFiles(discoveredComposeFiles, actionConfig.excludeImageNames);
-    const targetImages = [...targetServices, ...actionConfig.additionalImages.map((image) => ({ image }))];
+    const discoveredComposeProjects = getComposeProjectsToProcess(
+      actionConfig.composeFilePaths,
+      actionConfig.missingComposeFileMode
+    );
+    const targetServices = getComposeServicesFromProjects(
+      discoveredComposeProjects,
+      actionConfig.excludeImageNames,
+      actionConfig.activeProfiles,
+      actionConfig.buildBaseImages
+    );
+    const targetImages = [
+      ...targetServices,
+      ...actionConfig.additionalImages.map((image): ComposeService => ({ image })),
+    ];
+    // Files pulled in via `include` are referenced alongside the explicitly processed files
+    const referencedComposeFiles = uniq([
+      ...discoveredComposeProjects.flat(),
+      ...targetServices.flatMap((service) => (service.sourceFile !== undefined ? [service.sourceFile] : [])),
+    ]);
 
     if (targetImages.length === 0) {
       core.info('No Docker services found in compose files or all services were excluded');
@@ -100,9 +430,22 @@ export async function run(): Promise<void> {
 
     core.info(`Found ${targetImages.length} images to cache`);
 
-    if (actionConfig.forceRefresh) {
+    if (actionConfig.mode !== 'full') {
+      core.info(`Running in ${actionConfig.mode} mode`);
+    }
+    // Force refresh only applies when images are pulled, which happens in full mode only
+    const forceRefresh = actionConfig.forceRefresh && actionConfig.mode === 'full';
+    if (actionConfig.forceRefresh && !forceRefresh) {
+      core.warning(`force-refresh is ignored in ${actionConfig.mode} mode`);
+    }
+    if (forceRefresh) {
       core.info('Force refresh enabled - ignoring existing cache');
     }
+    // The layer store splits uncompressed tar files into layers, so whole tar files are never compressed
+    const compression = actionConfig.cacheStrategy === 'layers' ? NO_COMPRESSION : actionConfig.compression;
+    if (compression !== actionConfig.compression && actionConfig.compression.algorithm !== 'none') {
+      core.warning('compression is ignored with the layers cache strategy');
+    }
     let containerRuntime = actionConfig.containerRuntime as ContainerRuntime;
     if (!['docker', 'podman'].includes(actionConfig.containerRuntime)) {
       core.warning(
@@ -111,26 +454,68 @@ export async function run(): Promise<void> {
       containerRuntime = 'docker';
     }
 
-    // Process all services concurrently
-    const serviceProcessingResults: readonly TimedServiceResult[] = await Promise.all(
-      targetImages.map(async (currentImage) => {
-        const serviceStartTime = performance.now();
-        const serviceResult = await processService(
-          containerRuntime,
-          currentImage,
-          actionConfig.cacheKeyPrefix,
-          actionConfig.skipDigestVerification,
-          actionConfig.forceRefresh
-        );
-        const serviceEndTime = performance.now();
-
-        return {
-          ...serviceResult,
-          processingDuration: serviceEndTime - serviceStartTime,
-          humanReadableDuration: formatTimeBetween(serviceStartTime, serviceEndTime),
-        };
-      })
-    );
+    // Process services through a bounded pool, with separate limits for restores, pulls and saves
+    const imageLimiter = createConcurrencyLimiter(actionConfig.maxConcurrency);
+    const processingOptions: ServiceProcessingOptions = {
+      operationLimiters: {
+        restore: createConcurrencyLimiter(actionConfig.restoreConcurrency),
+        pull: createConcurrencyLimiter(actionConfig.pullConcurrency),
+        save: createConcurrencyLimiter(actionConfig.saveConcurrency),
+      },
+      imageLimiter,
+      deferSave: actionConfig.deferSave,
+      mode: actionConfig.mode,
+      cacheStrategy: actionConfig.cacheStrategy,
+      compression,
+      keepTempFiles: actionConfig.keepTempFiles,
+    };
+    const serviceProcessingResults: readonly TimedServiceResult[] =
+      actionConfig.cacheStrategy === 'bundle'
+        ? await processImagesAsBundle(
+            containerRuntime,
+            targetImages,
+            actionConfig.cacheKeyPrefix,
+            actionConfig.skipDigestVerification,
+            forceRefresh,
+            processingOptions
+          )
+        : await Promise.all(
+            targetImages.map((currentImage) =>
+              imageLimiter(async () => {
+                const serviceStartTime = performance.now();
+                const serviceResult = await processService(
+                  containerRuntime,
+                  currentImage,
+                  actionConfig.cacheKeyPrefix,
+                  actionConfig.skipDigestVerification,
+                  forceRefresh,
+                  processingOptions
+                );
+                const serviceEndTime = performance.now();
+
+                return {
+                  ...serviceResult,
+                  sourceFile: currentImage.sourceFile,
+                  processingDuration: serviceEndTime - serviceStartTime,
+                  humanReadableDuration: formatTimeBetween(serviceStartTime, serviceEndTime),
+                };
+              })
+            )
+          );
+
+    if (actionConfig.deferSave) {
+      const pendingSaves = serviceProcessingResults.flatMap((result) =>
+        result.pendingSave !== undefined ? [result.pendingSave] : []
+      );
+      saveDeferredSaveState({
+        containerRuntime,
+        saveConcurrency: actionConfig.saveConcurrency,
+        retryPolicy: actionConfig.retryPolicy,
+        commandTimeouts: actionConfig.commandTimeouts,
+        pendingSaves,
+      });
+      core.info(`${pendingSaves.length} cache entries will be saved in the post step`);
+    }
 
     const actionEndTime = performance.now();
     const executionTimeMs = actionEndTime - actionStartTime;
@@ -139,16 +524,40 @@ export async function run(): Promise<void> {
     const imageListOutput = buildProcessedImageList(serviceProcessingResults);
 
     setActionOutputs(summary.allServicesFromCache, imageListOutput);
-    createActionSummary(serviceProcessingResults, summary, discoveredComposeFiles, actionConfig.skipDigestVerification);
+    createActionSummary(
+      serviceProcessingResults,
+      summary,
+      referencedComposeFiles,
+      actionConfig.skipDigestVerification,
+      compression
+    );
     logActionCompletion(summary);
+
+    const policyViolations = await findPolicyViolations(
+      containerRuntime,
+      serviceProcessingResults,
+      actionConfig.failurePolicy
+    );
+    if (policyViolations.length > 0) {
+      core.setFailed(
+        `${policyViolations.length} images failed with fail-on '${actionConfig.failurePolicy.failOn}': ` +
+          policyViolations.map((violation) => `${violation.imageName} (${violation.reason})`).join(', ')
+      );
+    }
   } catch (executionError) {
     if (executionError instanceof Error) {
       core.setFailed(executionError.message);
     } else {
       core.setFailed('Unknown error occurred');
     }
+  } finally {
+    // Removed here whatever the outcome, since the post step only runs when the job succeeds or save-on-failure is set
+    if (!keepTempFiles) {
+      await removeTrackedTempFiles();
+    }
   }
 }
 
-// Execute the action
+// Execute the action, stopping running commands if the job is cancelled
+cancelCommandsOnSignals();
 run();
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Post step entry point for the Docker Compose Cache GitHub Action.
+ * Saves images pulled by the main step to cache after the job finishes, when saving was deferred,
+ * and removes temporary files the main step or the deferred saves left behind.
+ */
+
+import * as core from '@actions/core';
+
+import { getDeferredSaveState, getTempFileState } from './action-state';
+import { createConcurrencyLimiter } from './concurrency';
+import { formatTimeBetween } from './date-utils';
+import { cancelCommandsOnSignals, setCommandTimeouts } from './docker-command';
+import { saveImageToCache } from './docker-compose-service-processing';
+import { setRetryPolicy } from './retry';
+import { removeTempFiles, removeTrackedTempFiles } from './temp-files';
+
+/**
+ * Performs the image saves deferred by the main step.
+ */
+async function performDeferredSaves(): Promise<void> {
+  const deferredSaveState = getDeferredSaveState();
+  if (!deferredSaveState || deferredSaveState.pendingSaves.length === 0) {
+    core.info('No deferred image saves to perform');
+    return;
+  }
+
+  const { containerRuntime, saveConcurrency, retryPolicy, commandTimeouts, pendingSaves } = deferredSaveState;
+
+  setRetryPolicy(retryPolicy);
+  setCommandTimeouts(commandTimeouts);
+  core.info(`Saving ${pendingSaves.length} deferred images to cache`);
+
+  const saveLimiter = createConcurrencyLimiter(saveConcurrency);
+  const saveResults = await Promise.all(
+    pendingSaves.map((pendingSave) =>
+      saveLimiter(async () => {
+        const saveResult = await saveImageToCache(containerRuntime, pendingSave);
+        if (!saveResult.success) {
+          core.warning(saveResult.error || `Failed to save ${pendingSave.imageName}`);
+        }
+        return saveResult;
+      })
+    )
+  );
+
+  const savedImageCount = saveResults.filter((saveResult) => saveResult.success).length;
+  core.info(`${savedImageCount} of ${pendingSaves.length} deferred images saved to cache`);
+}
+
+/**
+ * Removes temporary files the main step did not remove, for example because it was stopped before it could,
+ * and files written by the deferred saves.
+ */
+async function removeLeftoverTempFiles(): Promise<void> {
+  if (core.getBooleanInput('keep-temp-files')) {
+    return;
+  }
+  const leftoverTempFiles = getTempFileState();
+  if (leftoverTempFiles.length > 0) {
+    core.info(`Removing ${leftoverTempFiles.length} temporary files left behind by the main step`);
+    await removeTempFiles(leftoverTempFiles);
+  }
+  await removeTrackedTempFiles();
+}
+
+/**
+ * Post function that runs after the job finishes, when the job succeeded or `save-on-failure` is enabled.
+ * Failures are reported as warnings, since the job's outcome is already decided.
+ */
+export async function runPost(): Promise<void> {
+  const postStartTime = performance.now();
+
+  try {
+    await performDeferredSaves();
+  } catch (postError) {
+    core.warning(`Failed to save deferred images: ${postError instanceof Error ? postError.message : postError}`);
+  }
+
+  // Leftover files do not affect the outcome of the job, so failing to remove them is only a warning
+  try {
+    await removeLeftoverTempFiles();
+  } catch (cleanupError) {
+    core.warning(
+      `Failed to remove temporary files: ${cleanupError instanceof Error ? cleanupError.message : cleanupError}`
+    );
+  }
+
+  core.info(`Post step completed in ${formatTimeBetween(postStartTime, performance.now())}`);
+}
+
+// Execute the post step, stopping running commands if the job is cancelled
+cancelCommandsOnSignals();
+runPost();
@@ -0,0 +1,143 @@
+/**
+ * @fileoverview Retry policy for registry and cache operations.
+ * Retries operations failing with transient errors, such as registry rate limiting or server errors,
+ * with exponential backoff and jitter.
+ */
+
+import * as core from '@actions/core';
+
+/**
+ * Number of attempts and backoff delays of retried operations.
+ */
+export type RetryPolicy = {
+  /** Maximum number of attempts including the first one, where 1 disables retries. */
+  readonly maxAttempts: number;
+  /** Backoff before the first retry, doubled for each further retry. */
+  readonly initialDelayMs: number;
+  /** Upper bound of the backoff between two attempts. */
+  readonly maxDelayMs: number;
+};
+
+/**
+ * Retry policy used until another one is set.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Error messages of transient failures worth retrying: rate limiting, server errors and network hiccups.
+ * Other failures, such as missing images or denied access, fail the same way on every attempt.
+ */
+const RETRYABLE_ERROR_PATTERNS: ReadonlyArray<RegExp> = [
+  /toomanyrequests|too many requests|rate limit/i,
+  /\b(429|500|502|503|504)\b/,
+  /internal server error|bad gateway|service unavailable|gateway time-?out/i,
+  /timeout|timed out|deadline exceeded/i,
+  /connection reset|connection refused|broken pipe|unexpected EOF/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|temporary failure in name resolution/i,
+];
+
+/**
+ * Error messages of commands stopped because they exceeded their timeout or the job was cancelled.
+ * A command that hung until its timeout is likely to hang again, and cancelled commands must not be rerun,
+ * so these are never retried even though they mention a timeout.
+ */
+const NON_RETRYABLE_ERROR_PATTERNS: ReadonlyArray<RegExp> = [
+  / timed out after \d+(\.\d+)? s\b/,
+  / was cancelled: /,
+  / was not started: /,
+];
+
+// Note: Set once per step from the action inputs, before any operation is retried
+let activeRetryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+/**
+ * Sets the retry policy applied by `withRetry`.
+ *
+ * @param retryPolicy - Retry policy to apply
+ */
+export function setRetryPolicy(retryPolicy: RetryPolicy): void {
+  activeRetryPolicy = retryPolicy;
+}
+
+/**
+ * Checks whether an error message describes a transient failure.
+ *
+ * @param errorMessage - Error message or stderr output of the failed operation
+ * @returns True if the operation may succeed when retried
+ */
+export function isRetryableError(errorMessage: string): boolean {
+  return (
+    !NON_RETRYABLE_ERROR_PATTERNS.some((nonRetryablePattern) => nonRetryablePattern.test(errorMessage)) &&
+    RETRYABLE_ERROR_PATTERNS.some((retryablePattern) => retryablePattern.test(errorMessage))
+  );
+}
+
+/**
+ * Computes the backoff before retrying an operation.
+ * Half of the exponential delay is randomized, so operations failing together do not retry in lockstep.
+ *
+ * @param retryPolicy - Retry policy to apply
+ * @param failedAttemptCount - Number of attempts that failed so far
+ * @param random - Source of random numbers in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  retryPolicy: RetryPolicy,
+  failedAttemptCount: number,
+  random: () => number = Math.random
+): number {
+  const exponentialDelayMs = Math.min(
+    retryPolicy.maxDelayMs,
+    retryPolicy.initialDelayMs * 2 ** Math.max(0, failedAttemptCount - 1)
+  );
+  return Math.round(exponentialDelayMs / 2 + (random() * exponentialDelayMs) / 2);
+}
+
+/**
+ * Runs an operation, retrying it according to the active retry policy while it fails with a transient error.
+ * Failures are either thrown errors or results for which `getFailureMessage` returns a message;
+ * the last result is returned, or the last error rethrown, once retries are exhausted.
+ *
+ * @param operationDescription - Description of the operation for log messages
+ * @param operation - Operation to run
+ * @param getFailureMessage - Gets the error message of a failed result, or undefined for successful results
+ * @returns Promise resolving to the result of the last attempt
+ */
+export async function withRetry<T>(
+  operationDescription: string,
+  operation: () => Promise<T>,
+  getFailureMessage: (result: T) => string | undefined = () => undefined
+): Promise<T> {
+  const retryPolicy = activeRetryPolicy;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    let attemptResult: { readonly result: T } | { readonly error: unknown };
+    let failureMessage: string | undefined;
+    try {
+      const result = await operation();
+      attemptResult = { result };
+      failureMessage = getFailureMessage(result);
+    } catch (error) {
+      attemptResult = { error };
+      failureMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    if (failureMessage === undefined || attemptNumber >= retryPolicy.maxAttempts || !isRetryableError(failureMessage)) {
+      if ('error' in attemptResult) {
+        throw attemptResult.error;
+      }
+      return attemptResult.result;
+    }
+
+    const retryDelayMs = computeRetryDelay(retryPolicy, attemptNumber);
+    core.info(
+      `${operationDescription} failed with a transient error (attempt ${attemptNumber} of ${retryPolicy.maxAttempts}), ` +
+        `retrying in ${retryDelayMs}ms: ${failureMessage.trim()}`
+    );
+    await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+  }
+}
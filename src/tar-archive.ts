@@ -0,0 +1,402 @@
+/**
+ * @fileoverview Minimal tar archive reading and writing.
+ * Supports the subset of the tar format produced by `docker save` and `podman save`:
+ * regular files, directories, symbolic links and hard links, with PAX and GNU long names.
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { pipeline } from 'node:stream/promises';
+
+/**
+ * Size of a tar header and of the blocks entry data is padded to.
+ */
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Maximum length of the name field in a tar header.
+ */
+const TAR_NAME_FIELD_LENGTH = 100;
+
+/**
+ * Tar header type flags handled when reading and writing archives.
+ */
+const TAR_TYPE_FLAGS = {
+  FILE: '0',
+  LEGACY_FILE: '\0',
+  HARDLINK: '1',
+  SYMLINK: '2',
+  DIRECTORY: '5',
+  PAX_HEADER: 'x',
+  PAX_GLOBAL_HEADER: 'g',
+  GNU_LONG_NAME: 'L',
+} as const;
+
+/**
+ * Kind of a tar archive entry.
+ */
+export type TarEntryType = 'file' | 'directory' | 'symlink' | 'hardlink';
+
+/**
+ * Entry read from a tar archive.
+ * The data of file entries starts at dataOffset within the archive.
+ */
+export type TarEntry = {
+  readonly name: string;
+  readonly type: TarEntryType;
+  readonly mode: number;
+  readonly size: number;
+  readonly dataOffset: number;
+  readonly linkName?: string | undefined;
+};
+
+/**
+ * Entry to write to a tar archive.
+ * File entries take their data either from a file on disk or from an in-memory buffer.
+ */
+export type TarEntrySource = {
+  readonly name: string;
+  readonly type: TarEntryType;
+  readonly mode: number;
+  readonly linkName?: string | undefined;
+  readonly sourcePath?: string | undefined;
+  readonly content?: Buffer | undefined;
+};
+
+/**
+ * Rounds a data size up to a whole number of tar blocks.
+ *
+ * @param size - Data size in bytes
+ * @returns Padded size in bytes
+ */
+function padToBlockSize(size: number): number {
+  return Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+}
+
+/**
+ * Reads a NUL-terminated string field from a tar header.
+ *
+ * @param header - Tar header block
+ * @param offset - Field offset
+ * @param length - Field length
+ * @returns Field value
+ */
+function readStringField(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const terminatorIndex = field.indexOf(0);
+  return field.toString('utf8', 0, terminatorIndex === -1 ? length : terminatorIndex);
+}
+
+/**
+ * Reads a numeric field from a tar header.
+ * Supports both octal notation and the base-256 notation used for sizes above 8 GB.
+ *
+ * @param header - Tar header block
+ * @param offset - Field offset
+ * @param length - Field length
+ * @returns Field value
+ */
+function readNumericField(header: Buffer, offset: number, length: number): number {
+  const firstByte = header[offset] ?? 0;
+  if (firstByte & 0x80) {
+    let value = firstByte & 0x7f;
+    for (let byteIndex = offset + 1; byteIndex < offset + length; byteIndex++) {
+      value = value * 256 + (header[byteIndex] ?? 0);
+    }
+    return value;
+  }
+  const octalValue = readStringField(header, offset, length).trim();
+  return octalValue ? Number.parseInt(octalValue, 8) : 0;
+}
+
+/**
+ * Parses PAX extended header records.
+ *
+ * @param paxData - Content of a PAX extended header entry
+ * @returns Record keys mapped to their values
+ */
+function parsePaxRecords(paxData: Buffer): Map<string, string> {
+  const paxRecords = new Map<string, string>();
+  let recordOffset = 0;
+  while (recordOffset < paxData.length) {
+    const spaceIndex = paxData.indexOf(0x20, recordOffset);
+    if (spaceIndex === -1) {
+      break;
+    }
+    const recordLength = Number.parseInt(paxData.toString('utf8', recordOffset, spaceIndex), 10);
+    if (!Number.isInteger(recordLength) || recordLength <= 0) {
+      break;
+    }
+    // Each record is "<length> <key>=<value>\n"
+    const record = paxData.toString('utf8', spaceIndex + 1, recordOffset + recordLength - 1);
+    const separatorIndex = record.indexOf('=');
+    if (separatorIndex !== -1) {
+      paxRecords.set(record.substring(0, separatorIndex), record.substring(separatorIndex + 1));
+    }
+    recordOffset += recordLength;
+  }
+  return paxRecords;
+}
+
+/**
+ * Reads a range of bytes from an open file.
+ *
+ * @param fileHandle - Open file handle
+ * @param position - Offset to start reading at
+ * @param length - Number of bytes to read
+ * @returns Bytes read, shorter than length at the end of the file
+ */
+async function readBytes(fileHandle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fileHandle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Reads the entry list of a tar archive without loading entry data into memory.
+ *
+ * @param archivePath - Path to the tar archive
+ * @returns Entries in archive order
+ * @throws Error if the archive contains an entry type that is not supported
+ */
+export async function readTarEntries(archivePath: string): Promise<TarEntry[]> {
+  const fileHandle = await fs.open(archivePath, 'r');
+  try {
+    const tarEntries: TarEntry[] = [];
+    let headerOffset = 0;
+    let pendingName: string | undefined;
+    let pendingLinkName: string | undefined;
+
+    while (true) {
+      const header = await readBytes(fileHandle, headerOffset, TAR_BLOCK_SIZE);
+      // The archive ends with zero-filled blocks
+      if (header.length < TAR_BLOCK_SIZE || header.every((byte) => byte === 0)) {
+        break;
+      }
+
+      const typeFlag = readStringField(header, 156, 1) || TAR_TYPE_FLAGS.LEGACY_FILE;
+      const size = readNumericField(header, 124, 12);
+      const dataOffset = headerOffset + TAR_BLOCK_SIZE;
+      headerOffset = dataOffset + padToBlockSize(size);
+
+      if (typeFlag === TAR_TYPE_FLAGS.PAX_HEADER) {
+        const paxRecords = parsePaxRecords(await readBytes(fileHandle, dataOffset, size));
+        pendingName = paxRecords.get('path') ?? pendingName;
+        pendingLinkName = paxRecords.get('linkpath') ?? pendingLinkName;
+        continue;
+      }
+      if (typeFlag === TAR_TYPE_FLAGS.GNU_LONG_NAME) {
+        pendingName = readStringField(await readBytes(fileHandle, dataOffset, size), 0, size);
+        continue;
+      }
+      if (typeFlag === TAR_TYPE_FLAGS.PAX_GLOBAL_HEADER) {
+        continue;
+      }
+
+      const headerName = readStringField(header, 0, TAR_NAME_FIELD_LENGTH);
+      const namePrefix = readStringField(header, 345, 155);
+      const name = pendingName ?? (namePrefix ? `${namePrefix}/${headerName}` : headerName);
+      const mode = readNumericField(header, 100, 8);
+
+      if (typeFlag === TAR_TYPE_FLAGS.FILE || typeFlag === TAR_TYPE_FLAGS.LEGACY_FILE) {
+        tarEntries.push({ name, type: 'file', mode, size, dataOffset });
+      } else if (typeFlag === TAR_TYPE_FLAGS.DIRECTORY) {
+        tarEntries.push({ name, type: 'directory', mode, size: 0, dataOffset });
+      } else if (typeFlag === TAR_TYPE_FLAGS.SYMLINK || typeFlag === TAR_TYPE_FLAGS.HARDLINK) {
+        const linkName = pendingLinkName ?? readStringField(header, 157, TAR_NAME_FIELD_LENGTH);
+        const type = typeFlag === TAR_TYPE_FLAGS.SYMLINK ? 'symlink' : 'hardlink';
+        tarEntries.push({ name, type, mode, size: 0, dataOffset, linkName });
+      } else {
+        throw new Error(`Unsupported tar entry type '${typeFlag}' for ${name}`);
+      }
+
+      pendingName = undefined;
+      pendingLinkName = undefined;
+    }
+
+    return tarEntries;
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Reads the data of a file entry into memory.
+ * Intended for small entries such as archive metadata.
+ *
+ * @param archivePath - Path to the tar archive
+ * @param tarEntry - File entry to read
+ * @returns Entry data
+ */
+export async function readTarEntryContent(archivePath: string, tarEntry: TarEntry): Promise<Buffer> {
+  const fileHandle = await fs.open(archivePath, 'r');
+  try {
+    return await readBytes(fileHandle, tarEntry.dataOffset, tarEntry.size);
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/**
+ * Copies the data of a file entry out of a tar archive.
+ *
+ * @param archivePath - Path to the tar archive
+ * @param tarEntry - File entry to copy
+ * @param outputPath - Path to write the entry data to
+ * @returns Hex-encoded SHA-256 digest of the entry data
+ */
+export async function extractTarEntry(archivePath: string, tarEntry: TarEntry, outputPath: string): Promise<string> {
+  const dataHash = createHash('sha256');
+  if (tarEntry.size === 0) {
+    await fs.writeFile(outputPath, '');
+    return dataHash.digest('hex');
+  }
+  const entryStream = createReadStream(archivePath, {
+    start: tarEntry.dataOffset,
+    end: tarEntry.dataOffset + tarEntry.size - 1,
+  });
+  entryStream.on('data', (chunk) => dataHash.update(chunk));
+  await pipeline(entryStream, createWriteStream(outputPath));
+  return dataHash.digest('hex');
+}
+
+/**
+ * Writes a numeric field to a tar header.
+ * Values that do not fit in octal notation, such as sizes of 8 GB and above, are written in base-256 notation.
+ *
+ * @param header - Tar header block
+ * @param offset - Field offset
+ * @param length - Field length, including the terminating NUL of octal values
+ * @param value - Value to write
+ */
+function writeNumericField(header: Buffer, offset: number, length: number, value: number): void {
+  if (value < 8 ** (length - 1)) {
+    header.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+    return;
+  }
+  let remainingValue = value;
+  for (let byteIndex = offset + length - 1; byteIndex > offset; byteIndex--) {
+    header[byteIndex] = remainingValue % 256;
+    remainingValue = Math.floor(remainingValue / 256);
+  }
+  header[offset] = 0x80;
+}
+
+/**
+ * Creates a ustar header block.
+ *
+ * @param name - Entry name, at most 100 bytes
+ * @param typeFlag - Tar type flag
+ * @param mode - File mode
+ * @param size - Data size in bytes
+ * @param linkName - Link target for symbolic and hard links
+ * @returns Header block
+ */
+function createTarHeader(name: string, typeFlag: string, mode: number, size: number, linkName: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  header.write(name, 0, TAR_NAME_FIELD_LENGTH, 'utf8');
+  writeNumericField(header, 100, 8, mode);
+  writeNumericField(header, 108, 8, 0);
+  writeNumericField(header, 116, 8, 0);
+  writeNumericField(header, 124, 12, size);
+  writeNumericField(header, 136, 12, 0);
+  header.write(typeFlag, 156, 1, 'ascii');
+  header.write(linkName, 157, TAR_NAME_FIELD_LENGTH, 'utf8');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+
+  // The checksum is computed with the checksum field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Creates a PAX extended header entry carrying names that do not fit in a ustar header.
+ *
+ * @param name - Entry name
+ * @param linkName - Link target for symbolic and hard links
+ * @returns Header block followed by the padded PAX records
+ */
+function createPaxHeaderEntry(name: string, linkName: string): Buffer {
+  const paxRecords = [`path=${name}`, ...(linkName ? [`linkpath=${linkName}`] : [])].map((record) => {
+    // The record length includes its own digits, so grow it until it is self-consistent
+    const recordBody = ` ${record}\n`;
+    let recordLength = Buffer.byteLength(recordBody);
+    while (Buffer.byteLength(`${recordLength}${recordBody}`) !== recordLength) {
+      recordLength = Buffer.byteLength(`${recordLength}${recordBody}`);
+    }
+    return `${recordLength}${recordBody}`;
+  });
+  const paxData = Buffer.from(paxRecords.join(''), 'utf8');
+  const paddedData = Buffer.alloc(padToBlockSize(paxData.length));
+  paxData.copy(paddedData);
+  return Buffer.concat([
+    createTarHeader('PaxHeader', TAR_TYPE_FLAGS.PAX_HEADER, 0o644, paxData.length, ''),
+    paddedData,
+  ]);
+}
+
+/**
+ * Writes a tar archive from a list of entries.
+ * File data is streamed from disk, so archives larger than memory can be written.
+ *
+ * @param archivePath - Path to write the archive to
+ * @param tarEntrySources - Entries to write, in archive order
+ */
+export async function writeTarArchive(archivePath: string, tarEntrySources: readonly TarEntrySource[]): Promise<void> {
+  const fileHandle = await fs.open(archivePath, 'w');
+  try {
+    let writeOffset = 0;
+    const writeBuffer = async (buffer: Buffer): Promise<void> => {
+      await fileHandle.write(buffer, 0, buffer.length, writeOffset);
+      writeOffset += buffer.length;
+    };
+
+    for (const tarEntrySource of tarEntrySources) {
+      const linkName = tarEntrySource.linkName ?? '';
+      if (
+        Buffer.byteLength(tarEntrySource.name) > TAR_NAME_FIELD_LENGTH ||
+        Buffer.byteLength(linkName) > TAR_NAME_FIELD_LENGTH
+      ) {
+        await writeBuffer(createPaxHeaderEntry(tarEntrySource.name, linkName));
+      }
+
+      if (tarEntrySource.type === 'directory') {
+        await writeBuffer(createTarHeader(tarEntrySource.name, TAR_TYPE_FLAGS.DIRECTORY, tarEntrySource.mode, 0, ''));
+        continue;
+      }
+      if (tarEntrySource.type === 'symlink' || tarEntrySource.type === 'hardlink') {
+        const typeFlag = tarEntrySource.type === 'symlink' ? TAR_TYPE_FLAGS.SYMLINK : TAR_TYPE_FLAGS.HARDLINK;
+        await writeBuffer(createTarHeader(tarEntrySource.name, typeFlag, tarEntrySource.mode, 0, linkName));
+        continue;
+      }
+
+      const size = tarEntrySource.content
+        ? tarEntrySource.content.length
+        : tarEntrySource.sourcePath
+          ? (await fs.stat(tarEntrySource.sourcePath)).size
+          : 0;
+      await writeBuffer(createTarHeader(tarEntrySource.name, TAR_TYPE_FLAGS.FILE, tarEntrySource.mode, size, ''));
+
+      if (tarEntrySource.content) {
+        await writeBuffer(tarEntrySource.content);
+      } else if (tarEntrySource.sourcePath && size > 0) {
+        for await (const chunk of createReadStream(tarEntrySource.sourcePath)) {
+          await writeBuffer(chunk as Buffer);
+        }
+      }
+      const paddingSize = padToBlockSize(size) - size;
+      if (paddingSize > 0) {
+        await writeBuffer(Buffer.alloc(paddingSize));
+      }
+    }
+
+    // The archive ends with two zero-filled blocks
+    await writeBuffer(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+  } finally {
+    await fileHandle.close();
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Tracking and removal of temporary files written by the action.
+ * Image tar files, manifests and layer store files are written to the runner temp directory, which persists
+ * across jobs on self-hosted runners. Tracked files are recorded in the action state, so the post step can
+ * remove files the main step left behind.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as core from '@actions/core';
+
+import { saveTempFileState } from './action-state';
+
+/**
+ * Temporary files and directories written by this process that have not been removed yet.
+ */
+const trackedTempFiles = new Set<string>();
+
+/**
+ * Tracks temporary files or directories, before they are written, so they are removed even if writing them fails.
+ *
+ * @param tempFilePaths - Paths of the temporary files or directories
+ */
+export function trackTempFiles(tempFilePaths: ReadonlyArray<string>): void {
+  for (const tempFilePath of tempFilePaths) {
+    trackedTempFiles.add(tempFilePath);
+  }
+  saveTempFileState([...trackedTempFiles]);
+}
+
+/**
+ * Removes temporary files or directories and stops tracking them.
+ * Failures are only logged, since leftover files do not affect the outcome of the action.
+ *
+ * @param tempFilePaths - Paths of the temporary files or directories, which need not exist
+ */
+export async function removeTempFiles(tempFilePaths: ReadonlyArray<string>): Promise<void> {
+  await Promise.all(
+    tempFilePaths.map(async (tempFilePath) => {
+      try {
+        await fs.rm(tempFilePath, { recursive: true, force: true });
+        trackedTempFiles.delete(tempFilePath);
+      } catch (error) {
+        core.debug(`Failed to remove temporary file ${tempFilePath}: ${error}`);
+      }
+    })
+  );
+  saveTempFileState([...trackedTempFiles]);
+}
+
+/**
+ * Removes all temporary files and directories tracked by this process.
+ */
+export async function removeTrackedTempFiles(): Promise<void> {
+  if (trackedTempFiles.size > 0) {
+    core.info(`Removing ${trackedTempFiles.size} temporary files`);
+    await removeTempFiles([...trackedTempFiles]);
+  }
+}
@@ -5,11 +5,13 @@ import {
   buildProcessedImageList,
   calculateActionSummary,
   createActionSummary,
+  isServedFromCache,
   logActionCompletion,
   type ProcessedImageList,
   setActionOutputs,
   type TimedServiceResult,
 } from '../src/action-outputs';
+import { NO_COMPRESSION } from '../src/compression';
 
 jest.mock('@actions/core', () => ({
   setOutput: jest.fn(),
@@ -160,6 +162,50 @@ describe('action-outputs', () => {
       expect(output[0].size).toBe(0);
       expect(output[0].digest).toBe('');
     });
+    it('should report explicit outcomes as their own statuses', () => {
+      const createResult = (outcome: TimedServiceResult['outcome']): TimedServiceResult => ({
+        success: true,
+        restoredFromCache: false,
+        outcome,
+        imageName: 'nginx:latest',
+        cacheKey: 'cache-key',
+        processingDuration: 100,
+        humanReadableDuration: '100 ms',
+      });
+
+      const output = buildProcessedImageList([
+        createResult('cache-miss'),
+        createResult('saved'),
+        createResult('not-present'),
+        createResult('present'),
+        createResult('refreshed'),
+        createResult('would-hit'),
+        createResult('would-miss'),
+      ]);
+
+      expect(output.map((image) => image.status)).toEqual([
+        'Missed',
+        'Saved',
+        'Not Present',
+        'Present',
+        'Refreshed',
+        'Would Hit',
+        'Would Miss',
+      ]);
+    });
+  });
+
+  describe('isServedFromCache', () => {
+    it.each([
+      [{ restoredFromCache: true }, true],
+      [{ restoredFromCache: false, outcome: 'would-hit' as const }, true],
+      [{ restoredFromCache: false, outcome: 'present' as const }, false],
+      [{ restoredFromCache: false }, false],
+      [{ restoredFromCache: false, outcome: 'refreshed' as const }, false],
+      [{ restoredFromCache: false, outcome: 'would-miss' as const }, false],
+    ])('should classify %o as served from cache: %s', (serviceResult, expected) => {
+      expect(isServedFromCache(serviceResult)).toBe(expected);
+    });
   });
 
   describe('calculateActionSummary', () => {
@@ -228,6 +274,97 @@ describe('action-outputs', () => {
       expect(summary.allServicesSuccessful).toBe(true);
     });
 
+    it('should count services that would hit as cached', () => {
+      const results: TimedServiceResult[] = ['would-hit' as const, 'would-hit' as const].map((outcome) => ({
+        success: true,
+        restoredFromCache: false,
+        outcome,
+        imageName: 'nginx:latest',
+        cacheKey: 'cache-key',
+        processingDuration: 100,
+        humanReadableDuration: '100 ms',
+      }));
+
+      const summary = calculateActionSummary(results, 500);
+
+      expect(summary.cachedServiceCount).toBe(2);
+      expect(summary.allServicesFromCache).toBe(true);
+    });
+
+    it('should not count refreshed images as cached', () => {
+      const results: TimedServiceResult[] = [
+        {
+          success: true,
+          restoredFromCache: true,
+          imageName: 'nginx:latest',
+          cacheKey: 'cache-key',
+          processingDuration: 100,
+          humanReadableDuration: '100 ms',
+        },
+        {
+          success: true,
+          restoredFromCache: false,
+          outcome: 'refreshed',
+          imageName: 'redis:alpine',
+          cacheKey: 'cache-key',
+          processingDuration: 100,
+          humanReadableDuration: '100 ms',
+        },
+      ];
+
+      const summary = calculateActionSummary(results, 500);
+
+      expect(summary.cachedServiceCount).toBe(1);
+      expect(summary.allServicesFromCache).toBe(false);
+    });
+
+    it('should not count images already present locally as cached', () => {
+      const results: TimedServiceResult[] = [
+        {
+          success: true,
+          restoredFromCache: true,
+          imageName: 'nginx:latest',
+          cacheKey: 'cache-key',
+          processingDuration: 100,
+          humanReadableDuration: '100 ms',
+        },
+        {
+          success: true,
+          restoredFromCache: false,
+          outcome: 'present',
+          imageName: 'redis:alpine',
+          cacheKey: 'cache-key',
+          processingDuration: 100,
+          humanReadableDuration: '100 ms',
+        },
+      ];
+
+      const summary = calculateActionSummary(results, 500);
+
+      expect(summary.cachedServiceCount).toBe(1);
+      expect(summary.allServicesFromCache).toBe(false);
+    });
+
+    it('should total compression stats of compressed images', () => {
+      const results: TimedServiceResult[] = [
+        { rawSize: 4096, compressedSize: 1024 },
+        undefined,
+        { rawSize: 2048, compressedSize: 1024 },
+      ].map((compressionStats) => ({
+        success: true,
+        restoredFromCache: false,
+        imageName: 'nginx:latest',
+        cacheKey: 'cache-key',
+        compressionStats,
+        processingDuration: 100,
+        humanReadableDuration: '100 ms',
+      }));
+
+      const summary = calculateActionSummary(results, 500);
+
+      expect(summary.compressionStats).toEqual({ rawSize: 6144, compressedSize: 2048 });
+    });
+
     it('should handle empty results', () => {
       const summary = calculateActionSummary([], 1000);
 
@@ -293,6 +430,7 @@ describe('action-outputs', () => {
           digest: 'sha256:digest1',
           platform: 'linux/amd64',
           imageSize: 1024000,
+          sourceFile: 'infra/compose.yaml',
           processingDuration: 1500,
           humanReadableDuration: '1.5 seconds',
         },
@@ -318,7 +456,7 @@ describe('action-outputs', () => {
       const referencedComposeFiles = ['docker-compose.yml', 'docker-compose.override.yml'];
       const skipLatestCheck = true;
 
-      createActionSummary(results, summary, referencedComposeFiles, skipLatestCheck);
+      createActionSummary(results, summary, referencedComposeFiles, skipLatestCheck, NO_COMPRESSION);
 
       // Verify main heading was added
       expect(mockCoreSummary.addHeading).toHaveBeenCalledWith('Docker Compose Cache Results', 2);
@@ -328,6 +466,7 @@ describe('action-outputs', () => {
         [
           { data: 'Image Name', header: true },
           { data: 'Platform', header: true },
+          { data: 'Source', header: true },
           { data: 'Status', header: true },
           { data: 'Size', header: true },
           { data: 'Processing Time', header: true },
@@ -336,6 +475,7 @@ describe('action-outputs', () => {
         [
           { data: 'nginx:latest' },
           { data: 'linux/amd64' },
+          { data: 'infra/compose.yaml' },
           { data: '✅ Cached' },
           { data: '1000.0 KB' },
           { data: '1.5 seconds' },
@@ -344,6 +484,7 @@ describe('action-outputs', () => {
         [
           { data: 'invalid:image' },
           { data: 'default' },
+          { data: 'N/A' },
           { data: '❌ Error: Image not found' },
           { data: 'N/A' },
           { data: '1 second' },
@@ -381,12 +522,13 @@ describe('action-outputs', () => {
         executionTimeMs: 1000,
       };
 
-      createActionSummary([], summary, ['docker-compose.yml'], false);
+      createActionSummary([], summary, ['docker-compose.yml'], false, NO_COMPRESSION);
 
       expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(1, [
         [
           { data: 'Image Name', header: true },
           { data: 'Platform', header: true },
+          { data: 'Source', header: true },
           { data: 'Status', header: true },
           { data: 'Size', header: true },
           { data: 'Processing Time', header: true },
@@ -404,7 +546,7 @@ describe('action-outputs', () => {
         executionTimeMs: 2000,
       };
 
-      createActionSummary([], summary, ['docker-compose.yml'], false);
+      createActionSummary([], summary, ['docker-compose.yml'], false, NO_COMPRESSION);
 
       expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(
         2,
@@ -412,6 +554,26 @@ describe('action-outputs', () => {
       );
     });
 
+    it('should show compressed and raw sizes when images were compressed', () => {
+      const summary: ActionSummary = {
+        totalServiceCount: 1,
+        cachedServiceCount: 0,
+        allServicesSuccessful: true,
+        allServicesFromCache: false,
+        executionTimeMs: 2000,
+        compressionStats: { rawSize: 4096, compressedSize: 1024 },
+      };
+
+      createActionSummary([], summary, ['docker-compose.yml'], false, { algorithm: 'zstd', level: 19 });
+
+      expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(
+        2,
+        expect.arrayContaining([
+          [{ data: 'Compression' }, { data: '1.0 KB compressed from 4.0 KB raw (25.0%, zstd level 19)' }],
+        ])
+      );
+    });
+
     it('should handle missing platform and error information', () => {
       const results: TimedServiceResult[] = [
         {
@@ -432,12 +594,13 @@ describe('action-outputs', () => {
         executionTimeMs: 3000,
       };
 
-      createActionSummary(results, summary, ['docker-compose.yml'], false);
+      createActionSummary(results, summary, ['docker-compose.yml'], false, NO_COMPRESSION);
 
       expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(1, [
         [
           { data: 'Image Name', header: true },
           { data: 'Platform', header: true },
+          { data: 'Source', header: true },
           { data: 'Status', header: true },
           { data: 'Size', header: true },
           { data: 'Processing Time', header: true },
@@ -446,6 +609,7 @@ describe('action-outputs', () => {
         [
           { data: 'redis:alpine' },
           { data: 'default' },
+          { data: 'N/A' },
           { data: '⬇️ Pulled' },
           { data: 'N/A' },
           { data: '2 seconds' },
@@ -454,6 +618,34 @@ describe('action-outputs', () => {
       ]);
     });
 
+    it('should label explicit outcomes in the summary table', () => {
+      const results: TimedServiceResult[] = [
+        {
+          success: true,
+          restoredFromCache: false,
+          outcome: 'saved',
+          imageName: 'redis:alpine',
+          cacheKey: 'cache-key',
+          processingDuration: 2000,
+          humanReadableDuration: '2 seconds',
+        },
+      ];
+      const summary: ActionSummary = {
+        totalServiceCount: 1,
+        cachedServiceCount: 0,
+        allServicesSuccessful: true,
+        allServicesFromCache: false,
+        executionTimeMs: 3000,
+      };
+
+      createActionSummary(results, summary, ['docker-compose.yml'], false, NO_COMPRESSION);
+
+      expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(1, [
+        expect.anything(),
+        expect.arrayContaining([{ data: '💾 Saved' }]),
+      ]);
+    });
+
     it('should handle error without specific error message', () => {
       const results: TimedServiceResult[] = [
         {
@@ -474,12 +666,13 @@ describe('action-outputs', () => {
         executionTimeMs: 1000,
       };
 
-      createActionSummary(results, summary, ['docker-compose.yml'], false);
+      createActionSummary(results, summary, ['docker-compose.yml'], false, NO_COMPRESSION);
 
       expect(mockCoreSummary.addTable).toHaveBeenNthCalledWith(1, [
         [
           { data: 'Image Name', header: true },
           { data: 'Platform', header: true },
+          { data: 'Source', header: true },
           { data: 'Status', header: true },
           { data: 'Size', header: true },
           { data: 'Processing Time', header: true },
@@ -488,6 +681,7 @@ describe('action-outputs', () => {
         [
           { data: 'broken:image' },
           { data: 'default' },
+          { data: 'N/A' },
           { data: '❌ Error: Unknown' },
           { data: 'N/A' },
           { data: '0.5 seconds' },
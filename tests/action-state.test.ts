@@ -0,0 +1,90 @@
+import * as core from '@actions/core';
+
+import { getDeferredSaveState, getTempFileState, saveDeferredSaveState, saveTempFileState } from '../src/action-state';
+
+jest.mock('@actions/core', () => ({
+  saveState: jest.fn(),
+  getState: jest.fn(),
+  warning: jest.fn(),
+}));
+
+describe('action-state', () => {
+  const deferredSaveState = {
+    containerRuntime: 'docker' as const,
+    saveConcurrency: 2,
+    pendingSaves: [
+      {
+        imageName: 'nginx:latest',
+        imageCacheKey: 'image-key',
+        imageTarPath: '/tmp/nginx.tar',
+        manifestCacheKey: 'manifest-key',
+        manifestPath: '/tmp/nginx-manifest.json',
+        manifest: { digest: 'sha256:abc' },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveDeferredSaveState', () => {
+    it('should store the deferred saves as JSON', () => {
+      saveDeferredSaveState(deferredSaveState);
+
+      expect(core.saveState).toHaveBeenCalledWith('deferred-saves', JSON.stringify(deferredSaveState));
+    });
+  });
+
+  describe('getDeferredSaveState', () => {
+    it('should read the deferred saves recorded by the main step', () => {
+      (core.getState as jest.Mock).mockReturnValue(JSON.stringify(deferredSaveState));
+
+      expect(getDeferredSaveState()).toEqual(deferredSaveState);
+      expect(core.getState).toHaveBeenCalledWith('deferred-saves');
+    });
+
+    it('should return undefined when no state was recorded', () => {
+      (core.getState as jest.Mock).mockReturnValue('');
+
+      expect(getDeferredSaveState()).toBeUndefined();
+    });
+
+    it('should warn and return undefined when the state cannot be parsed', () => {
+      (core.getState as jest.Mock).mockReturnValue('{invalid');
+
+      expect(getDeferredSaveState()).toBeUndefined();
+      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to parse deferred saves state'));
+    });
+  });
+
+  describe('saveTempFileState', () => {
+    it('should store the temporary file paths as JSON', () => {
+      saveTempFileState(['/tmp/nginx.tar', '/tmp/layer-store']);
+
+      expect(core.saveState).toHaveBeenCalledWith('temp-files', '["/tmp/nginx.tar","/tmp/layer-store"]');
+    });
+  });
+
+  describe('getTempFileState', () => {
+    it('should read the temporary files recorded by the main step', () => {
+      (core.getState as jest.Mock).mockReturnValue('["/tmp/nginx.tar"]');
+
+      expect(getTempFileState()).toEqual(['/tmp/nginx.tar']);
+      expect(core.getState).toHaveBeenCalledWith('temp-files');
+    });
+
+    it('should return no files when no state was recorded', () => {
+      (core.getState as jest.Mock).mockReturnValue('');
+
+      expect(getTempFileState()).toEqual([]);
+    });
+
+    it('should warn and return no files when the state cannot be parsed', () => {
+      (core.getState as jest.Mock).mockReturnValue('[invalid');
+
+      expect(getTempFileState()).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to parse temporary files state'));
+    });
+  });
+});
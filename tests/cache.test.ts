@@ -4,19 +4,31 @@ import * as core from '@actions/core';
 
 import {
   extractDigestPrefix,
+  generateBundleCacheKey,
+  generateBundleTarPath,
   generateCacheKey,
   generateCacheKeyPrefix,
+  generateLayerCacheKey,
+  generateLayerIndexPath,
   generateManifestCacheKey,
   generateManifestPath,
   generateTarPath,
   getTempDirectory,
+  lookupInCache,
   readManifestFromFile,
+  restoreArchiveFromCache,
+  restoreArchiveFromLayerStore,
   restoreFromCache,
+  saveArchiveToLayerStore,
   saveManifestToCache,
   saveToCache,
   writeManifestToFile,
 } from '../src/cache';
 import type { DockerImageManifest } from '../src/docker-command';
+import type { ImageReference } from '../src/image-reference';
+import { DEFAULT_RETRY_POLICY, setRetryPolicy } from '../src/retry';
+import { extractTarEntry, readTarEntries, readTarEntryContent, writeTarArchive } from '../src/tar-archive';
+import { trackTempFiles } from '../src/temp-files';
 
 jest.mock('@actions/cache', () => ({
   restoreCache: jest.fn(),
@@ -24,6 +36,7 @@ jest.mock('@actions/cache', () => ({
 }));
 
 jest.mock('@actions/core', () => ({
+  info: jest.fn(),
   warning: jest.fn(),
   debug: jest.fn(),
 }));
@@ -31,12 +44,25 @@ jest.mock('@actions/core', () => ({
 jest.mock('fs/promises', () => ({
   writeFile: jest.fn(),
   readFile: jest.fn(),
+  mkdir: jest.fn(),
+  rename: jest.fn(),
+}));
+
+jest.mock('../src/tar-archive', () => ({
+  readTarEntries: jest.fn(),
+  readTarEntryContent: jest.fn(),
+  extractTarEntry: jest.fn(),
+  writeTarArchive: jest.fn(),
 }));
 
 jest.mock('../src/file-utils', () => ({
   sanitizePathComponent: jest.fn((value: string) => value.replace(/[/\\:*?"<>|]/g, '-')),
 }));
 
+jest.mock('../src/temp-files', () => ({
+  trackTempFiles: jest.fn(),
+}));
+
 jest.mock('../src/oci-platform', () => ({
   getCurrentPlatformInfo: jest.fn(() => ({
     os: 'linux',
@@ -53,6 +79,9 @@ jest.mock('../src/oci-platform', () => ({
 }));
 
 describe('cache', () => {
+  const nginxReference: ImageReference = { registry: 'docker.io', repository: 'library/nginx', tag: 'latest' };
+  const customReference: ImageReference = { registry: 'docker.io', repository: 'nginx/custom', tag: 'v1.0' };
+
   const mockCacheRestore = cache.restoreCache as jest.Mock;
   const mockCacheSave = cache.saveCache as jest.Mock;
   const mockCoreWarning = core.warning as jest.Mock;
@@ -63,6 +92,7 @@ describe('cache', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     process.env.RUNNER_TEMP = '/tmp';
+    setRetryPolicy({ ...DEFAULT_RETRY_POLICY, initialDelayMs: 0, maxDelayMs: 0 });
   });
 
   describe('getTempDirectory', () => {
@@ -106,75 +136,112 @@ describe('cache', () => {
 
   describe('generateCacheKey', () => {
     it('should generate cache key with all components including digest', () => {
-      const result = generateCacheKey('test-prefix', 'nginx', 'latest', 'linux/amd64', 'sha256:abc123def456789');
+      const result = generateCacheKey('test-prefix', nginxReference, 'linux/amd64', 'sha256:abc123def456789');
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none-abc123def456');
     });
 
     it('should generate cache key without platform but with digest', () => {
-      const result = generateCacheKey('test-prefix', 'nginx', 'latest', undefined, 'sha256:abc123def456789');
+      const result = generateCacheKey('test-prefix', nginxReference, undefined, 'sha256:abc123def456789');
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none-abc123def456');
     });
 
     it('should generate cache key without digest', () => {
-      const result = generateCacheKey('test-prefix', 'nginx', 'latest', undefined, undefined);
+      const result = generateCacheKey('test-prefix', nginxReference, undefined, undefined);
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none-none');
     });
 
     it('should sanitize unsafe characters', () => {
-      const result = generateCacheKey('test-prefix', 'nginx/custom', 'v1.0', undefined, 'sha256:xyz789');
+      const result = generateCacheKey('test-prefix', customReference, undefined, 'sha256:xyz789');
       expect(result).toBe('test-prefix-nginx-custom-v1.0-linux-amd64-none-xyz789');
     });
+
+    it('should include registry host and port in image name component', () => {
+      const registryReference: ImageReference = { registry: 'localhost:5000', repository: 'team/api', tag: '1.2' };
+      const result = generateCacheKey('test-prefix', registryReference, undefined, 'sha256:abc123def456789');
+      expect(result).toBe('test-prefix-localhost-5000-team-api-1.2-linux-amd64-none-abc123def456');
+    });
+
+    it('should use "none" as tag component for digest-only references', () => {
+      const digestReference: ImageReference = {
+        registry: 'ghcr.io',
+        repository: 'org/app',
+        digest: 'sha256:abc123def456789',
+      };
+      const result = generateCacheKey('test-prefix', digestReference, undefined, 'sha256:abc123def456789');
+      expect(result).toBe('test-prefix-ghcr.io-org-app-none-linux-amd64-none-abc123def456');
+    });
   });
 
   describe('generateCacheKeyPrefix', () => {
     it('should generate cache key prefix without digest', () => {
-      const result = generateCacheKeyPrefix('test-prefix', 'nginx', 'latest', 'linux/amd64');
+      const result = generateCacheKeyPrefix('test-prefix', nginxReference, 'linux/amd64');
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none');
     });
 
     it('should generate cache key prefix without platform', () => {
-      const result = generateCacheKeyPrefix('test-prefix', 'nginx', 'latest', undefined);
+      const result = generateCacheKeyPrefix('test-prefix', nginxReference, undefined);
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none');
     });
 
     it('should sanitize unsafe characters in prefix', () => {
-      const result = generateCacheKeyPrefix('test-prefix', 'nginx/custom', 'v1.0', undefined);
+      const result = generateCacheKeyPrefix('test-prefix', customReference, undefined);
       expect(result).toBe('test-prefix-nginx-custom-v1.0-linux-amd64-none');
     });
   });
 
   describe('generateManifestCacheKey', () => {
     it('should append manifest suffix to cache key with digest', () => {
-      const result = generateManifestCacheKey('test-prefix', 'nginx', 'latest', undefined, 'sha256:abc123def456');
+      const result = generateManifestCacheKey('test-prefix', nginxReference, undefined, 'sha256:abc123def456');
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none-abc123def456-manifest');
     });
 
     it('should append manifest suffix to cache key without digest', () => {
-      const result = generateManifestCacheKey('test-prefix', 'nginx', 'latest', undefined, undefined);
+      const result = generateManifestCacheKey('test-prefix', nginxReference, undefined, undefined);
       expect(result).toBe('test-prefix-nginx-latest-linux-amd64-none-none-manifest');
     });
   });
 
+  describe('generateBundleCacheKey', () => {
+    it('should derive the key from the image cache keys regardless of order', () => {
+      const bundleKey = generateBundleCacheKey('prefix', ['prefix-nginx-a', 'prefix-redis-b']);
+
+      expect(bundleKey).toMatch(/^prefix-bundle-[0-9a-f]{16}$/);
+      expect(generateBundleCacheKey('prefix', ['prefix-redis-b', 'prefix-nginx-a'])).toBe(bundleKey);
+    });
+
+    it('should change when any image cache key changes', () => {
+      expect(generateBundleCacheKey('prefix', ['prefix-nginx-a', 'prefix-redis-b'])).not.toBe(
+        generateBundleCacheKey('prefix', ['prefix-nginx-a', 'prefix-redis-c'])
+      );
+    });
+  });
+
+  describe('generateBundleTarPath', () => {
+    it('should generate the bundle tar path in the temp directory', () => {
+      expect(generateBundleTarPath('prefix-bundle-0123456789abcdef')).toBe('/tmp/prefix-bundle-0123456789abcdef.tar');
+    });
+  });
+
   describe('generateTarPath', () => {
     it('should generate tar file path with digest', () => {
-      const result = generateTarPath('nginx', 'latest', undefined, 'sha256:abc123def456');
+      const result = generateTarPath(nginxReference, undefined, 'sha256:abc123def456');
       expect(result).toBe('/tmp/-nginx-latest-linux-amd64-none-abc123def456.tar');
     });
 
     it('should generate tar file path without digest', () => {
-      const result = generateTarPath('nginx', 'latest', undefined, undefined);
+      const result = generateTarPath(nginxReference, undefined, undefined);
       expect(result).toBe('/tmp/-nginx-latest-linux-amd64-none-none.tar');
     });
   });
 
   describe('generateManifestPath', () => {
     it('should generate manifest file path with digest', () => {
-      const result = generateManifestPath('nginx', 'latest', undefined, 'sha256:abc123def456');
+      const result = generateManifestPath(nginxReference, undefined, 'sha256:abc123def456');
       expect(result).toBe('/tmp/-nginx-latest-linux-amd64-none-abc123def456-manifest.json');
     });
 
     it('should generate manifest file path without digest', () => {
-      const result = generateManifestPath('nginx', 'latest', undefined, undefined);
+      const result = generateManifestPath(nginxReference, undefined, undefined);
       expect(result).toBe('/tmp/-nginx-latest-linux-amd64-none-none-manifest.json');
     });
   });
@@ -192,6 +259,7 @@ describe('cache', () => {
       const result = await writeManifestToFile(manifest, '/tmp/manifest.json');
 
       expect(result).toBe(true);
+      expect(trackTempFiles).toHaveBeenCalledWith(['/tmp/manifest.json']);
       expect(mockFsWriteFile).toHaveBeenCalledWith('/tmp/manifest.json', JSON.stringify(manifest, null, 2));
     });
 
@@ -249,9 +317,10 @@ describe('cache', () => {
         success: true,
         cacheKey: 'cache-key-hit',
       });
+      expect(trackTempFiles).toHaveBeenCalledWith(['/tmp/file.tar']);
     });
 
-    it('should handle cache miss', async () => {
+    it('should handle cache miss without retrying', async () => {
       mockCacheRestore.mockResolvedValue(undefined);
 
       const result = await restoreFromCache(['/tmp/file.tar'], 'cache-key');
@@ -260,6 +329,7 @@ describe('cache', () => {
         success: false,
         cacheKey: undefined,
       });
+      expect(mockCacheRestore).toHaveBeenCalledTimes(1);
     });
 
     it('should handle cache restore errors', async () => {
@@ -273,6 +343,17 @@ describe('cache', () => {
       });
     });
 
+    it('should retry transient cache service errors', async () => {
+      mockCacheRestore
+        .mockRejectedValueOnce(new Error('Cache service responded with 503'))
+        .mockResolvedValueOnce('cache-key');
+
+      const result = await restoreFromCache(['/tmp/file.tar'], 'cache-key');
+
+      expect(result).toEqual({ success: true, cacheKey: 'cache-key' });
+      expect(mockCacheRestore).toHaveBeenCalledTimes(2);
+    });
+
     it('should restore cache with restoreKeys for prefix matching', async () => {
       mockCacheRestore.mockResolvedValue('cache-key-prefix-abc123');
 
@@ -297,6 +378,54 @@ describe('cache', () => {
     });
   });
 
+  describe('restoreArchiveFromCache', () => {
+    it('should restore uncompressed tar files directly', async () => {
+      mockCacheRestore.mockResolvedValue('image-key');
+
+      const result = await restoreArchiveFromCache('/tmp/image.tar', 'image-key', 'none');
+
+      expect(result).toEqual({ success: true, cacheKey: 'image-key' });
+      expect(mockCacheRestore).toHaveBeenCalledWith(['/tmp/image.tar'], 'image-key', undefined);
+    });
+
+    it('should restore the compressed tar file without decompressing it', async () => {
+      mockCacheRestore.mockResolvedValue('image-key');
+
+      const result = await restoreArchiveFromCache('/tmp/image.tar', 'image-key', 'zstd', ['image-']);
+
+      expect(result).toEqual({ success: true, cacheKey: 'image-key' });
+      expect(mockCacheRestore).toHaveBeenCalledWith(['/tmp/image.tar.zst'], 'image-key', ['image-']);
+    });
+  });
+
+  describe('lookupInCache', () => {
+    it('should report an existing entry without downloading it', async () => {
+      mockCacheRestore.mockResolvedValue('cache-key');
+
+      const result = await lookupInCache(['/tmp/file.tar'], 'cache-key');
+
+      expect(result).toEqual({ success: true, cacheKey: 'cache-key' });
+      expect(mockCacheRestore).toHaveBeenCalledWith(['/tmp/file.tar'], 'cache-key', undefined, { lookupOnly: true });
+    });
+
+    it('should report a missing entry without retrying', async () => {
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      const result = await lookupInCache(['/tmp/file.tar'], 'cache-key');
+
+      expect(result).toEqual({ success: false, cacheKey: undefined });
+      expect(mockCacheRestore).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle lookup errors', async () => {
+      mockCacheRestore.mockRejectedValue(new Error('Cache error'));
+
+      const result = await lookupInCache(['/tmp/file.tar'], 'cache-key');
+
+      expect(result).toEqual({ success: false, error: 'Cache error' });
+    });
+  });
+
   describe('saveToCache', () => {
     it('should save to cache successfully', async () => {
       mockCacheSave.mockResolvedValue(123);
@@ -309,7 +438,8 @@ describe('cache', () => {
       });
     });
 
-    it('should handle invalid cache ID', async () => {
+    it('should handle invalid cache ID without retrying', async () => {
+      // @actions/cache returns -1 when another job is creating the same cache entry
       mockCacheSave.mockResolvedValue(-1);
 
       const result = await saveToCache(['/tmp/file.tar'], 'cache-key');
@@ -318,6 +448,7 @@ describe('cache', () => {
         success: false,
         error: 'Cache save returned invalid ID',
       });
+      expect(mockCacheSave).toHaveBeenCalledTimes(1);
     });
 
     it('should handle "already exists" error as success', async () => {
@@ -331,6 +462,15 @@ describe('cache', () => {
       });
     });
 
+    it('should report transient cache save errors once all attempts are used', async () => {
+      mockCacheSave.mockRejectedValue(new Error('Cache service responded with 429'));
+
+      const result = await saveToCache(['/tmp/file.tar'], 'cache-key');
+
+      expect(result).toEqual({ success: false, error: 'Cache service responded with 429' });
+      expect(mockCacheSave).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+    });
+
     it('should handle other cache save errors', async () => {
       mockCacheSave.mockRejectedValue(new Error('Network error'));
 
@@ -376,4 +516,207 @@ describe('cache', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('generateLayerIndexPath', () => {
+    it('should replace the tar extension with the layer index suffix', () => {
+      expect(generateLayerIndexPath('/tmp/nginx-latest.tar')).toBe('/tmp/nginx-latest-layers.json');
+    });
+  });
+
+  describe('generateLayerCacheKey', () => {
+    it('should key layers by their digest', () => {
+      expect(generateLayerCacheKey('prefix', 'abc123')).toBe('prefix-layer-abc123');
+    });
+  });
+
+  describe('layer store', () => {
+    const mockReadTarEntries = readTarEntries as jest.Mock;
+    const mockReadTarEntryContent = readTarEntryContent as jest.Mock;
+    const mockExtractTarEntry = extractTarEntry as jest.Mock;
+    const mockWriteTarArchive = writeTarArchive as jest.Mock;
+
+    describe('saveArchiveToLayerStore', () => {
+      const manifestEntry = { name: 'manifest.json', type: 'file', mode: 0o644, size: 20, dataOffset: 512 };
+      const directoryEntry = { name: 'blobs/', type: 'directory', mode: 0o755, size: 0, dataOffset: 1536 };
+      const firstLayerEntry = { name: 'blobs/first', type: 'file', mode: 0o644, size: 1048576, dataOffset: 2048 };
+      const secondLayerEntry = { name: 'blobs/second', type: 'file', mode: 0o644, size: 2097152, dataOffset: 1050624 };
+
+      beforeEach(() => {
+        mockReadTarEntries.mockResolvedValue([manifestEntry, directoryEntry, firstLayerEntry, secondLayerEntry]);
+        mockReadTarEntryContent.mockResolvedValue(Buffer.from('[{"Layers":[]}]'));
+      });
+
+      it('should upload only layers that are not already cached, then the layer index', async () => {
+        mockExtractTarEntry.mockResolvedValueOnce('cached1').mockResolvedValueOnce('missing1');
+        // The first layer is found by the lookup, the second is not
+        mockCacheRestore.mockImplementation((_paths: string[], key: string) =>
+          Promise.resolve(key === 'prefix-layer-cached1' ? key : undefined)
+        );
+        mockCacheSave.mockResolvedValue(1);
+
+        const result = await saveArchiveToLayerStore('/tmp/image.tar', 'image-key', 'prefix');
+
+        expect(result).toEqual({ success: true, cacheKey: 'image-key' });
+        expect(mockCacheSave).toHaveBeenCalledTimes(2);
+        expect(mockCacheSave).toHaveBeenCalledWith(['/tmp/layer-store/missing1'], 'prefix-layer-missing1');
+        expect(mockCacheSave).toHaveBeenCalledWith(['/tmp/image-layers.json'], 'image-key');
+        expect(mockCacheSave).not.toHaveBeenCalledWith(['/tmp/layer-store/cached1'], expect.anything());
+        expect(core.info).toHaveBeenCalledWith('Uploaded 1 of 2 layers for image-key');
+
+        const layerIndex = JSON.parse(mockFsWriteFile.mock.calls[0][1]);
+        expect(layerIndex).toEqual({
+          version: 1,
+          entries: [
+            { name: 'manifest.json', type: 'file', mode: 0o644, content: 'W3siTGF5ZXJzIjpbXX1d' },
+            { name: 'blobs/', type: 'directory', mode: 0o755 },
+            {
+              name: 'blobs/first',
+              type: 'file',
+              mode: 0o644,
+              blob: { digest: 'cached1', cacheKey: 'prefix-layer-cached1' },
+            },
+            {
+              name: 'blobs/second',
+              type: 'file',
+              mode: 0o644,
+              blob: { digest: 'missing1', cacheKey: 'prefix-layer-missing1' },
+            },
+          ],
+        });
+      });
+
+      it('should move extracted layers to paths named by their digest', async () => {
+        mockExtractTarEntry.mockResolvedValueOnce('moved1').mockResolvedValueOnce('moved2');
+        mockCacheRestore.mockResolvedValue(undefined);
+        mockCacheSave.mockResolvedValue(1);
+
+        await saveArchiveToLayerStore('/tmp/image.tar', 'image-key', 'prefix');
+
+        expect(mockExtractTarEntry).toHaveBeenCalledWith('/tmp/image.tar', firstLayerEntry, expect.any(String));
+        expect(fs.rename).toHaveBeenCalledWith(mockExtractTarEntry.mock.calls[0][2], '/tmp/layer-store/moved1');
+        expect(fs.rename).toHaveBeenCalledWith(mockExtractTarEntry.mock.calls[1][2], '/tmp/layer-store/moved2');
+      });
+
+      it('should not save the layer index when a layer upload fails', async () => {
+        mockExtractTarEntry.mockResolvedValueOnce('failing1').mockResolvedValueOnce('failing2');
+        mockCacheRestore.mockResolvedValue(undefined);
+        mockCacheSave.mockImplementation((_paths: string[], key: string) =>
+          key === 'prefix-layer-failing2' ? Promise.reject(new Error('Upload failed')) : Promise.resolve(1)
+        );
+
+        const result = await saveArchiveToLayerStore('/tmp/image.tar', 'image-key', 'prefix');
+
+        expect(result).toEqual({ success: false, error: 'Failed to cache layer: Upload failed' });
+        expect(mockCacheSave).not.toHaveBeenCalledWith(['/tmp/image-layers.json'], 'image-key');
+      });
+
+      it('should return failure when the archive cannot be read', async () => {
+        mockReadTarEntries.mockRejectedValue(new Error('Unsupported tar entry type'));
+
+        const result = await saveArchiveToLayerStore('/tmp/image.tar', 'image-key', 'prefix');
+
+        expect(result).toEqual({ success: false, error: 'Unsupported tar entry type' });
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('restoreArchiveFromLayerStore', () => {
+      const layerIndex = {
+        version: 1,
+        entries: [
+          { name: 'manifest.json', type: 'file', mode: 0o644, content: 'e30=' },
+          {
+            name: 'blobs/layer',
+            type: 'file',
+            mode: 0o644,
+            blob: { digest: 'restore1', cacheKey: 'prefix-layer-restore1' },
+          },
+          { name: 'link', type: 'symlink', mode: 0o777, linkName: 'blobs/layer' },
+        ],
+      };
+
+      it('should restore the layer index and its layers, then reassemble the archive', async () => {
+        mockCacheRestore.mockImplementation((_paths: string[], key: string) => Promise.resolve(key));
+        mockFsReadFile.mockResolvedValue(JSON.stringify(layerIndex));
+
+        const result = await restoreArchiveFromLayerStore('/tmp/image.tar', 'image-key');
+
+        expect(result).toEqual({ success: true, cacheKey: 'image-key' });
+        expect(mockCacheRestore).toHaveBeenCalledWith(['/tmp/image-layers.json'], 'image-key', undefined);
+        expect(mockCacheRestore).toHaveBeenCalledWith(
+          ['/tmp/layer-store/restore1'],
+          'prefix-layer-restore1',
+          undefined
+        );
+        expect(mockWriteTarArchive).toHaveBeenCalledWith('/tmp/image.tar', [
+          {
+            name: 'manifest.json',
+            type: 'file',
+            mode: 0o644,
+            linkName: undefined,
+            sourcePath: undefined,
+            content: Buffer.from('{}'),
+          },
+          {
+            name: 'blobs/layer',
+            type: 'file',
+            mode: 0o644,
+            linkName: undefined,
+            sourcePath: '/tmp/layer-store/restore1',
+            content: undefined,
+          },
+          {
+            name: 'link',
+            type: 'symlink',
+            mode: 0o777,
+            linkName: 'blobs/layer',
+            sourcePath: undefined,
+            content: undefined,
+          },
+        ]);
+      });
+
+      it('should return failure without reassembling when the layer index is not cached', async () => {
+        mockCacheRestore.mockResolvedValue(undefined);
+
+        const result = await restoreArchiveFromLayerStore('/tmp/image.tar', 'image-key');
+
+        expect(result.success).toBe(false);
+        expect(mockWriteTarArchive).not.toHaveBeenCalled();
+      });
+
+      it('should return failure when a layer is missing from cache', async () => {
+        mockCacheRestore.mockImplementation((_paths: string[], key: string) =>
+          Promise.resolve(key === 'image-key' ? key : undefined)
+        );
+        mockFsReadFile.mockResolvedValue(
+          JSON.stringify({
+            version: 1,
+            entries: [
+              {
+                name: 'layer',
+                type: 'file',
+                mode: 0o644,
+                blob: { digest: 'absent1', cacheKey: 'prefix-layer-absent1' },
+              },
+            ],
+          })
+        );
+
+        const result = await restoreArchiveFromLayerStore('/tmp/image.tar', 'image-key');
+
+        expect(result).toEqual({ success: false, error: 'Layer absent1 is missing from cache' });
+        expect(mockWriteTarArchive).not.toHaveBeenCalled();
+      });
+
+      it('should return failure for an unsupported layer index version', async () => {
+        mockCacheRestore.mockImplementation((_paths: string[], key: string) => Promise.resolve(key));
+        mockFsReadFile.mockResolvedValue(JSON.stringify({ version: 99, entries: [] }));
+
+        const result = await restoreArchiveFromLayerStore('/tmp/image.tar', 'image-key');
+
+        expect(result).toEqual({ success: false, error: 'Unsupported layer index version 99' });
+      });
+    });
+  });
 });
@@ -0,0 +1,96 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Readable } from 'node:stream';
+
+import {
+  compressStreamToFile,
+  decompressFileToStream,
+  getCompressedArchivePath,
+  isZstdSupported,
+} from '../src/compression';
+
+describe('compression', () => {
+  let workspaceDirectory: string;
+  let archivePath: string;
+  const archiveData = Buffer.from('layer data '.repeat(10000));
+
+  beforeAll(() => {
+    workspaceDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'compression-'));
+    archivePath = path.join(workspaceDirectory, 'image.tar');
+    fs.writeFileSync(archivePath, archiveData);
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceDirectory, { recursive: true, force: true });
+  });
+
+  describe('getCompressedArchivePath', () => {
+    it('should append the codec extension', () => {
+      expect(getCompressedArchivePath('/tmp/image.tar', 'gzip')).toBe('/tmp/image.tar.gz');
+      expect(getCompressedArchivePath('/tmp/image.tar', 'zstd')).toBe('/tmp/image.tar.zst');
+    });
+
+    it('should keep the tar file path without compression', () => {
+      expect(getCompressedArchivePath('/tmp/image.tar', 'none')).toBe('/tmp/image.tar');
+    });
+  });
+
+  describe('compressStreamToFile and decompressFileToStream', () => {
+    it('should round trip a stream through gzip and report its sizes', async () => {
+      const compressedPath = path.join(workspaceDirectory, 'image.tar.gz');
+      const restoredPath = path.join(workspaceDirectory, 'restored-gzip.tar');
+
+      const compressionStats = await compressStreamToFile(fs.createReadStream(archivePath), compressedPath, {
+        algorithm: 'gzip',
+        level: 9,
+      });
+      await decompressFileToStream(compressedPath, fs.createWriteStream(restoredPath), 'gzip');
+
+      expect(compressionStats).toEqual({
+        rawSize: archiveData.length,
+        compressedSize: fs.statSync(compressedPath).size,
+      });
+      expect(compressionStats.compressedSize).toBeLessThan(compressionStats.rawSize);
+      expect(fs.readFileSync(restoredPath)).toEqual(archiveData);
+    });
+
+    (isZstdSupported() ? it : it.skip)('should round trip a stream through zstd', async () => {
+      const compressedPath = path.join(workspaceDirectory, 'image.tar.zst');
+      const restoredPath = path.join(workspaceDirectory, 'restored-zstd.tar');
+
+      const compressionStats = await compressStreamToFile(fs.createReadStream(archivePath), compressedPath, {
+        algorithm: 'zstd',
+        level: 19,
+      });
+      await decompressFileToStream(compressedPath, fs.createWriteStream(restoredPath), 'zstd');
+
+      expect(compressionStats.compressedSize).toBeLessThan(compressionStats.rawSize);
+      expect(fs.readFileSync(restoredPath)).toEqual(archiveData);
+    });
+
+    it('should pass the stream through unchanged without compression', async () => {
+      const outputPath = path.join(workspaceDirectory, 'image.tar');
+      const restoredPath = path.join(workspaceDirectory, 'restored-none.tar');
+
+      const compressionStats = await compressStreamToFile(Readable.from([archiveData]), outputPath, {
+        algorithm: 'none',
+        level: 0,
+      });
+      await decompressFileToStream(outputPath, fs.createWriteStream(restoredPath), 'none');
+
+      expect(compressionStats).toEqual({ rawSize: archiveData.length, compressedSize: archiveData.length });
+      expect(fs.readFileSync(outputPath)).toEqual(archiveData);
+      expect(fs.readFileSync(restoredPath)).toEqual(archiveData);
+    });
+
+    it('should reject when the compressed file is corrupt', async () => {
+      const corruptPath = path.join(workspaceDirectory, 'corrupt.tar.gz');
+      fs.writeFileSync(corruptPath, 'not gzip data');
+
+      await expect(
+        decompressFileToStream(corruptPath, fs.createWriteStream(path.join(workspaceDirectory, 'corrupt.tar')), 'gzip')
+      ).rejects.toThrow('incorrect header check');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { createConcurrencyLimiter, unlimitedConcurrency } from '../src/concurrency';
+
+/**
+ * Creates a task whose completion is controlled by the test.
+ */
+function createDeferredTask<T>(value: T) {
+  let resolveTask: () => void = () => {};
+  const task = jest.fn(
+    () =>
+      new Promise<T>((resolve) => {
+        resolveTask = () => resolve(value);
+      })
+  );
+  return { task, resolve: () => resolveTask() };
+}
+
+/**
+ * Lets pending promise callbacks run.
+ */
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('concurrency', () => {
+  describe('createConcurrencyLimiter', () => {
+    it('should run at most the given number of tasks at the same time', async () => {
+      const limiter = createConcurrencyLimiter(2);
+      const deferredTasks = [createDeferredTask('a'), createDeferredTask('b'), createDeferredTask('c')];
+
+      const results = Promise.all(deferredTasks.map((deferredTask) => limiter(deferredTask.task)));
+      await flushPromises();
+
+      expect(deferredTasks[0]?.task).toHaveBeenCalled();
+      expect(deferredTasks[1]?.task).toHaveBeenCalled();
+      expect(deferredTasks[2]?.task).not.toHaveBeenCalled();
+
+      deferredTasks[1]?.resolve();
+      await flushPromises();
+      expect(deferredTasks[2]?.task).toHaveBeenCalled();
+
+      deferredTasks[0]?.resolve();
+      deferredTasks[2]?.resolve();
+      await expect(results).resolves.toEqual(['a', 'b', 'c']);
+    });
+
+    it('should release the slot when a task fails', async () => {
+      const limiter = createConcurrencyLimiter(1);
+
+      await expect(limiter(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+      await expect(limiter(() => Promise.resolve('next'))).resolves.toBe('next');
+    });
+
+    it('should start queued tasks in submission order', async () => {
+      const limiter = createConcurrencyLimiter(1);
+      const startedTasks: string[] = [];
+
+      await Promise.all(
+        ['first', 'second', 'third'].map((taskName) =>
+          limiter(async () => {
+            startedTasks.push(taskName);
+            await flushPromises();
+          })
+        )
+      );
+
+      expect(startedTasks).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should not limit tasks when the limit is 0', async () => {
+      const limiter = createConcurrencyLimiter(0);
+      const deferredTasks = Array.from({ length: 10 }, (_, index) => createDeferredTask(index));
+
+      const results = Promise.all(deferredTasks.map((deferredTask) => limiter(deferredTask.task)));
+      await flushPromises();
+
+      for (const deferredTask of deferredTasks) {
+        expect(deferredTask.task).toHaveBeenCalled();
+        deferredTask.resolve();
+      }
+      await expect(results).resolves.toHaveLength(10);
+    });
+  });
+
+  describe('unlimitedConcurrency', () => {
+    it('should run the task immediately', async () => {
+      const task = jest.fn().mockResolvedValue('done');
+
+      await expect(unlimitedConcurrency(task)).resolves.toBe('done');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+  });
+});
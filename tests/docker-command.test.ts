@@ -1,13 +1,22 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough, type Readable, type Writable } from 'node:stream';
+import { text } from 'node:stream/consumers';
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
 
 import {
+  cancelCommands,
+  cancelCommandsOnSignals,
+  DEFAULT_COMMAND_TIMEOUTS,
+  formatCommandFailure,
   inspectImageLocal,
   inspectImageRemote,
-  loadImageFromTar,
+  loadImageFromStream,
   pullImage,
-  saveImageToTar,
+  saveImagesToStream,
+  setCommandTimeouts,
 } from '../src/docker-command';
+import { DEFAULT_RETRY_POLICY, setRetryPolicy } from '../src/retry';
 
 jest.mock('@actions/core', () => ({
   warning: jest.fn(),
@@ -19,40 +28,108 @@ jest.mock('@actions/core', () => ({
   error: jest.fn(),
 }));
 
-jest.mock('@actions/exec', () => ({
-  exec: jest.fn(),
+jest.mock('node:child_process', () => ({
+  spawn: jest.fn(),
 }));
 
+/**
+ * Creates a fake child process with piped streams, writing the given stderr output. Killing it closes it.
+ */
+function createChildProcess(stderr = '') {
+  const childProcess = Object.assign(new EventEmitter(), {
+    stdin: new PassThrough(),
+    stdout: new PassThrough(),
+    stderr: new PassThrough(),
+    kill: jest.fn(() => childProcess.emit('close', null)),
+  });
+  childProcess.stderr.end(stderr);
+  return childProcess;
+}
+
+/**
+ * Creates a fake child process that writes the given output and then exits with the given code.
+ */
+function createCommandProcess(exitCode: number, output: { stdout?: string; stderr?: string } = {}) {
+  const childProcess = createChildProcess(output.stderr);
+  childProcess.stdout.end(output.stdout ?? '');
+  setImmediate(() => childProcess.emit('close', exitCode));
+  return childProcess;
+}
+
+/**
+ * Creates a fake child process that never exits by itself, as if the command hangs.
+ */
+function createHangingProcess() {
+  const childProcess = createChildProcess();
+  childProcess.kill.mockImplementation(() => {
+    childProcess.stdout.destroy();
+    childProcess.emit('close', null);
+    return true;
+  });
+  return childProcess;
+}
+
 describe('docker-command', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    setRetryPolicy({ ...DEFAULT_RETRY_POLICY, initialDelayMs: 0, maxDelayMs: 0 });
+    setCommandTimeouts(DEFAULT_COMMAND_TIMEOUTS);
+    // Keep the echoed command output out of the test log
+    jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+    jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('pullImage', () => {
-    it('returns true when pull succeeds', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(0);
-      const result = await pullImage('nginx:latest', undefined);
-      expect(result).toBe(true);
-      expect(exec.exec).toHaveBeenCalled();
-    });
-    it('returns false and warns when pull fails', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(1);
-      const result = await pullImage('nginx:latest', undefined);
-      expect(result).toBe(false);
+    it('returns a successful result when pull succeeds', async () => {
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0));
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+      expect(result).toEqual({ success: true });
+      expect(spawn).toHaveBeenCalled();
+    });
+    it('returns a failed result and warns when pull fails', async () => {
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(1));
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+      expect(result.success).toBe(false);
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to pull image'));
     });
-    it('returns false and warns on error', async () => {
-      (exec.exec as jest.Mock).mockImplementation(() => {
+    it('returns a failed result and warns on error', async () => {
+      (spawn as jest.Mock).mockImplementation(() => {
         throw new Error('err');
       });
-      const result = await pullImage('nginx:latest', undefined);
-      expect(result).toBe(false);
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+      expect(result).toEqual({ success: false, error: 'err' });
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to pull image'));
     });
+    it('retries when the registry rate limits the pull', async () => {
+      (spawn as jest.Mock)
+        .mockImplementationOnce(() =>
+          createCommandProcess(1, { stderr: 'toomanyrequests: You have reached your pull rate limit' })
+        )
+        .mockImplementationOnce(() => createCommandProcess(0));
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+      expect(result).toEqual({ success: true });
+      expect(spawn).toHaveBeenCalledTimes(2);
+      expect(core.warning).not.toHaveBeenCalled();
+    });
+    it('does not retry pulls of missing images', async () => {
+      (spawn as jest.Mock).mockImplementation(() =>
+        createCommandProcess(1, { stderr: 'manifest for nginx:missing not found: manifest unknown' })
+      );
+      const result = await pullImage('docker', 'nginx:missing', undefined);
+      expect(result).toEqual({
+        success: false,
+        error: 'manifest for nginx:missing not found: manifest unknown',
+      });
+      expect(spawn).toHaveBeenCalledTimes(1);
+    });
     it('uses platform flag if specified', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(0);
-      await pullImage('nginx:latest', 'linux/arm64');
-      expect(exec.exec).toHaveBeenCalledWith(
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0));
+      await pullImage('docker', 'nginx:latest', 'linux/arm64');
+      expect(spawn).toHaveBeenCalledWith(
         'docker',
         ['pull', '--platform', 'linux/arm64', 'nginx:latest'],
         expect.any(Object)
@@ -64,36 +141,27 @@ describe('docker-command', () => {
   describe('inspectImageRemote', () => {
     it('returns manifest object on success', async () => {
       const manifest = { schemaVersion: 2, mediaType: 'type', digest: 'sha256:abc', size: 123, manifests: [] };
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stdout(Buffer.from(JSON.stringify(manifest)));
-        return Promise.resolve(0);
-      });
-      const result = await inspectImageRemote('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0, { stdout: JSON.stringify(manifest) }));
+      const result = await inspectImageRemote('docker', 'nginx:latest');
       expect(result).toEqual(manifest);
     });
     it('returns undefined and warns if command fails', async () => {
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stderr(Buffer.from('fail'));
-        return Promise.resolve(1);
-      });
-      const result = await inspectImageRemote('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(1, { stderr: 'fail' }));
+      const result = await inspectImageRemote('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to inspect manifest'));
     });
     it('returns undefined and warns on JSON parse error', async () => {
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stdout(Buffer.from('not-json'));
-        return Promise.resolve(0);
-      });
-      const result = await inspectImageRemote('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0, { stdout: 'not-json' }));
+      const result = await inspectImageRemote('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to parse manifest JSON'));
     });
     it('returns undefined and warns on exception', async () => {
-      (exec.exec as jest.Mock).mockImplementation(() => {
+      (spawn as jest.Mock).mockImplementation(() => {
         throw new Error('err');
       });
-      const result = await inspectImageRemote('nginx:latest');
+      const result = await inspectImageRemote('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Error inspecting manifest'));
     });
@@ -121,88 +189,242 @@ describe('docker-command', () => {
         RootFS: { Type: '', Layers: [] },
         Metadata: { LastTagTime: '' },
       };
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stdout(Buffer.from(JSON.stringify(info)));
-        return Promise.resolve(0);
-      });
-      const result = await inspectImageLocal('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0, { stdout: JSON.stringify(info) }));
+      const result = await inspectImageLocal('docker', 'nginx:latest');
       expect(result).toEqual(info);
     });
     it('returns undefined and warns if command fails', async () => {
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stderr(Buffer.from('fail'));
-        return Promise.resolve(1);
-      });
-      const result = await inspectImageLocal('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(1, { stderr: 'fail' }));
+      const result = await inspectImageLocal('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to inspect image'));
     });
     it('returns undefined and warns on JSON parse error', async () => {
-      (exec.exec as jest.Mock).mockImplementation((_cmd, _args, options) => {
-        options.listeners.stdout(Buffer.from('not-json'));
-        return Promise.resolve(0);
-      });
-      const result = await inspectImageLocal('nginx:latest');
+      (spawn as jest.Mock).mockImplementation(() => createCommandProcess(0, { stdout: 'not-json' }));
+      const result = await inspectImageLocal('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to parse inspect JSON'));
     });
     it('returns undefined and warns on exception', async () => {
-      (exec.exec as jest.Mock).mockImplementation(() => {
+      (spawn as jest.Mock).mockImplementation(() => {
         throw new Error('err');
       });
-      const result = await inspectImageLocal('nginx:latest');
+      const result = await inspectImageLocal('docker', 'nginx:latest');
       expect(result).toBeUndefined();
       expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Error inspecting image'));
     });
+    it('only logs a debug message for missing images when warnings are disabled', async () => {
+      (spawn as jest.Mock).mockImplementation(() =>
+        createCommandProcess(1, { stderr: 'Error: No such image: nginx:latest' })
+      );
+      const result = await inspectImageLocal('docker', 'nginx:latest', false);
+      expect(result).toBeUndefined();
+      expect(core.warning).not.toHaveBeenCalled();
+      expect(core.debug).toHaveBeenCalledWith(expect.stringContaining('Failed to inspect image'));
+    });
   });
 
-  describe('saveImageToTar', () => {
-    it('returns true when save succeeds', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(0);
-      const result = await saveImageToTar('nginx:latest', '/tmp/nginx.tar');
-      expect(result).toBe(true);
-      expect(exec.exec).toHaveBeenCalledWith(
-        'docker',
-        ['save', '-o', '/tmp/nginx.tar', 'nginx:latest'],
+  describe('saveImagesToStream', () => {
+    it('streams the output of docker save to the consumer', async () => {
+      const childProcess = createChildProcess();
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+      childProcess.stdout.end('archive data');
+      childProcess.stdout.on('end', () => childProcess.emit('close', 0));
+      let archiveData = '';
+
+      const result = await saveImagesToStream('docker', ['nginx:latest'], async (archiveStream: Readable) => {
+        archiveData = await text(archiveStream);
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(archiveData).toBe('archive data');
+      expect(spawn).toHaveBeenCalledWith('docker', ['save', 'nginx:latest'], expect.any(Object));
+    });
+    it('uses the oci-archive format for a single image with podman', async () => {
+      const childProcess = createChildProcess();
+      (spawn as jest.Mock).mockImplementation(() => {
+        setImmediate(() => childProcess.emit('close', 0));
+        return childProcess;
+      });
+
+      await saveImagesToStream('podman', ['nginx:latest'], async () => undefined);
+
+      expect(spawn).toHaveBeenCalledWith(
+        'podman',
+        ['save', 'nginx:latest', '--format', 'oci-archive'],
         expect.any(Object)
       );
     });
-    it('returns false and warns when save fails', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(1);
-      const result = await saveImageToTar('nginx:latest', '/tmp/nginx.tar');
-      expect(result).toBe(false);
-      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to save image'));
+    it('returns a failed result and warns when save fails', async () => {
+      const childProcess = createChildProcess('No such image');
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+      childProcess.stderr.on('end', () => childProcess.emit('close', 1));
+
+      const result = await saveImagesToStream('docker', ['nginx:latest'], async () => undefined);
+
+      expect(result.success).toBe(false);
+      expect(core.warning).toHaveBeenCalledWith('Failed to save images nginx:latest: No such image');
     });
-    it('returns false and warns on error', async () => {
-      (exec.exec as jest.Mock).mockImplementation(() => {
-        throw new Error('err');
+    it('stops docker save and returns a failed result when the consumer fails', async () => {
+      const childProcess = createChildProcess();
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+
+      const result = await saveImagesToStream('docker', ['nginx:latest'], async () => {
+        throw new Error('No space left on device');
       });
-      const result = await saveImageToTar('nginx:latest', '/tmp/nginx.tar');
-      expect(result).toBe(false);
-      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to save image'));
+
+      expect(result.success).toBe(false);
+      expect(childProcess.kill).toHaveBeenCalled();
+      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('No space left on device'));
     });
   });
 
-  describe('loadImageFromTar', () => {
-    it('returns true when load succeeds', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(0);
-      const result = await loadImageFromTar('/tmp/nginx.tar');
-      expect(result).toBe(true);
-      expect(exec.exec).toHaveBeenCalledWith('docker', ['load', '-i', '/tmp/nginx.tar'], expect.any(Object));
-    });
-    it('returns false and warns when load fails', async () => {
-      (exec.exec as jest.Mock).mockResolvedValue(1);
-      const result = await loadImageFromTar('/tmp/nginx.tar');
-      expect(result).toBe(false);
-      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to load image'));
-    });
-    it('returns false and warns on error', async () => {
-      (exec.exec as jest.Mock).mockImplementation(() => {
-        throw new Error('err');
+  describe('loadImageFromStream', () => {
+    it('streams the archive to the input of docker load', async () => {
+      const childProcess = createChildProcess();
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+      const loadedData = text(childProcess.stdin).then((data) => {
+        childProcess.emit('close', 0);
+        return data;
+      });
+
+      const result = await loadImageFromStream('docker', async (archiveStream: Writable) => {
+        archiveStream.end('archive data');
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(await loadedData).toBe('archive data');
+      expect(spawn).toHaveBeenCalledWith('docker', ['load'], expect.any(Object));
+    });
+    it('returns a failed result and warns when load fails', async () => {
+      const childProcess = createChildProcess('invalid tar header');
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+      childProcess.stderr.on('end', () => childProcess.emit('close', 1));
+
+      const result = await loadImageFromStream('docker', async (archiveStream: Writable) => {
+        archiveStream.end();
+      });
+
+      expect(result.success).toBe(false);
+      expect(core.warning).toHaveBeenCalledWith('Failed to load image from stream: invalid tar header');
+    });
+    it('returns a failed result and warns when docker cannot be started', async () => {
+      const childProcess = createChildProcess();
+      (spawn as jest.Mock).mockImplementation(() => {
+        setImmediate(() => childProcess.emit('error', new Error('spawn docker ENOENT')));
+        return childProcess;
+      });
+
+      const result = await loadImageFromStream('docker', async () => undefined);
+
+      expect(result.success).toBe(false);
+      expect(core.warning).toHaveBeenCalledWith('Failed to load image from stream: Error: spawn docker ENOENT');
+    });
+  });
+
+  describe('formatCommandFailure', () => {
+    it('appends the reason of the failure when known', () => {
+      expect(
+        formatCommandFailure('Failed to pull image: nginx:latest', { success: false, error: 'manifest unknown' })
+      ).toBe('Failed to pull image: nginx:latest (manifest unknown)');
+    });
+    it('returns the summary alone when the reason is unknown', () => {
+      expect(formatCommandFailure('Failed to pull image: nginx:latest', { success: false })).toBe(
+        'Failed to pull image: nginx:latest'
+      );
+    });
+  });
+
+  describe('command timeouts', () => {
+    it('stops commands exceeding the timeout of their operation', async () => {
+      setCommandTimeouts({ ...DEFAULT_COMMAND_TIMEOUTS, inspect: 0.01 });
+      const childProcess = createHangingProcess();
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+
+      const result = await inspectImageLocal('docker', 'nginx:latest');
+
+      expect(result).toBeUndefined();
+      expect(childProcess.kill).toHaveBeenCalled();
+      expect(core.warning).toHaveBeenCalledWith(
+        'Error inspecting image nginx:latest: Error: docker inspect --format {{json .}} nginx:latest timed out after 0.01 s'
+      );
+    });
+    it('does not retry pulls that time out and reports the timeout', async () => {
+      setCommandTimeouts({ ...DEFAULT_COMMAND_TIMEOUTS, pull: 0.01 });
+      (spawn as jest.Mock).mockImplementation(() => createHangingProcess());
+
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+
+      expect(result).toEqual({ success: false, error: 'docker pull nginx:latest timed out after 0.01 s' });
+      expect(spawn).toHaveBeenCalledTimes(1);
+    });
+    it('reports the timeout rather than the interrupted transfer of streamed commands', async () => {
+      setCommandTimeouts({ ...DEFAULT_COMMAND_TIMEOUTS, save: 0.01 });
+      (spawn as jest.Mock).mockReturnValue(createHangingProcess());
+
+      const result = await saveImagesToStream('docker', ['nginx:latest'], async (archiveStream: Readable) => {
+        await text(archiveStream);
+      });
+
+      expect(result).toEqual({ success: false, error: 'docker save nginx:latest timed out after 0.01 s' });
+    });
+    it('does not stop commands when the timeout is disabled', async () => {
+      setCommandTimeouts({ ...DEFAULT_COMMAND_TIMEOUTS, pull: 0 });
+      (spawn as jest.Mock).mockImplementation(() => {
+        const childProcess = createChildProcess();
+        setTimeout(() => childProcess.emit('close', 0), 20);
+        return childProcess;
+      });
+
+      const result = await pullImage('docker', 'nginx:latest', undefined);
+
+      expect(result).toEqual({ success: true });
+    });
+  });
+
+  // Cancellation cannot be undone, so these tests run last
+  describe('command cancellation', () => {
+    it('cancels running commands when the job is cancelled', async () => {
+      const signalHandlers = new Map<string | symbol, (signal: NodeJS.Signals) => void>();
+      jest.spyOn(process, 'on').mockImplementation((signal, handler) => {
+        signalHandlers.set(signal, handler as (signal: NodeJS.Signals) => void);
+        return process;
+      });
+      jest.spyOn(process, 'off').mockImplementation((signal) => {
+        signalHandlers.delete(signal);
+        return process;
+      });
+      cancelCommandsOnSignals();
+      expect([...signalHandlers.keys()]).toEqual(['SIGINT', 'SIGTERM']);
+      const childProcess = createHangingProcess();
+      (spawn as jest.Mock).mockReturnValue(childProcess);
+
+      const pullResult = pullImage('docker', 'nginx:latest', undefined);
+      signalHandlers.get('SIGTERM')?.('SIGTERM');
+
+      // A second signal of either kind is left to terminate the action
+      expect(signalHandlers.size).toBe(0);
+
+      expect(await pullResult).toEqual({
+        success: false,
+        error: 'docker pull nginx:latest was cancelled: the job was cancelled (SIGTERM)',
+      });
+      expect(childProcess.kill).toHaveBeenCalled();
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(core.warning).toHaveBeenCalledWith('Received SIGTERM, stopping running commands');
+    });
+    it('does not start commands once cancelled', async () => {
+      cancelCommands('the job was cancelled (SIGTERM)');
+
+      const result = await loadImageFromStream('docker', async (archiveStream) => {
+        archiveStream.end();
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'docker load was not started: the job was cancelled (SIGTERM)',
       });
-      const result = await loadImageFromTar('/tmp/nginx.tar');
-      expect(result).toBe(false);
-      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to load image'));
+      expect(spawn).not.toHaveBeenCalled();
     });
   });
 });
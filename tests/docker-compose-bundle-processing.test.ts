@@ -0,0 +1,373 @@
+import * as core from '@actions/core';
+
+import * as cache from '../src/cache';
+import { createConcurrencyLimiter } from '../src/concurrency';
+import * as dockerCommand from '../src/docker-command';
+import { processServiceBundle } from '../src/docker-compose-bundle-processing';
+import type { ComposeService } from '../src/docker-compose-file';
+import * as serviceProcessing from '../src/docker-compose-service-processing';
+import { getCurrentPlatformInfo } from '../src/oci-platform';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('../src/cache', () => ({
+  generateCacheKey: jest.fn((prefix, reference, _platform, digest) => `${prefix}-${reference.repository}-${digest}`),
+  generateBundleCacheKey: jest.fn((prefix, imageCacheKeys) => `${prefix}-bundle-${imageCacheKeys.length}`),
+  generateBundleCacheKeyPrefix: jest.fn((prefix) => `${prefix}-bundle-`),
+  generateBundleTarPath: jest.fn((bundleCacheKey) => `/tmp/${bundleCacheKey}.tar`),
+  restoreArchiveFromCache: jest.fn(),
+  lookupInCache: jest.fn(),
+}));
+
+jest.mock('../src/docker-command', () => ({
+  formatCommandFailure: jest.requireActual('../src/docker-command').formatCommandFailure,
+  inspectImageRemote: jest.fn(),
+  inspectImageLocal: jest.fn(),
+  pullImage: jest.fn(),
+  loadImageFromStream: jest.fn(),
+}));
+
+jest.mock('../src/docker-compose-service-processing', () => ({
+  ...jest.requireActual('../src/docker-compose-service-processing'),
+  saveImageToCache: jest.fn(),
+}));
+
+jest.mock('../src/temp-files', () => ({
+  removeTempFiles: jest.fn(),
+}));
+
+describe('docker-compose-bundle-processing', () => {
+  const mockCacheRestore = cache.restoreArchiveFromCache as jest.Mock;
+  const mockCacheLookup = cache.lookupInCache as jest.Mock;
+  const mockInspectImageRemote = dockerCommand.inspectImageRemote as jest.Mock;
+  const mockInspectImageLocal = dockerCommand.inspectImageLocal as jest.Mock;
+  const mockPullImage = dockerCommand.pullImage as jest.Mock;
+  const mockLoadImageFromStream = dockerCommand.loadImageFromStream as jest.Mock;
+  const mockSaveImageToCache = serviceProcessing.saveImageToCache as jest.Mock;
+
+  const services: ReadonlyArray<ComposeService> = [{ image: 'nginx:latest' }, { image: 'redis:alpine' }];
+
+  /**
+   * Creates the metadata of a local image pulled by the digest the registry mock reports.
+   */
+  const createPresentImageInfo = (imageName: string) => {
+    const repositoryName = imageName.split(':')[0];
+    return {
+      Id: `sha256:${repositoryName}-id`,
+      Size: 1000,
+      Os: getCurrentPlatformInfo()?.os,
+      Architecture: getCurrentPlatformInfo()?.arch,
+      RepoDigests: [`${repositoryName}@sha256:${repositoryName}`],
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInspectImageRemote.mockImplementation(async (_runtime, imageName: string) => ({
+      digest: `sha256:${imageName.split(':')[0]}`,
+    }));
+    mockInspectImageLocal.mockResolvedValue({ Size: 1000 });
+  });
+
+  describe('processServiceBundle', () => {
+    it('should load all images from a single cache entry on cache hit', async () => {
+      mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'test-cache-bundle-2' });
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(1);
+      expect(mockCacheRestore).toHaveBeenCalledWith('/tmp/test-cache-bundle-2.tar', 'test-cache-bundle-2', 'none');
+      expect(mockLoadImageFromStream).toHaveBeenCalledTimes(1);
+      expect(cache.generateBundleCacheKey).toHaveBeenCalledWith('test-cache', [
+        'test-cache-library/nginx-sha256:nginx',
+        'test-cache-library/redis-sha256:redis',
+      ]);
+      expect(results).toEqual([
+        {
+          success: true,
+          restoredFromCache: true,
+          imageName: 'nginx:latest',
+          cacheKey: 'test-cache-bundle-2',
+          digest: 'sha256:nginx',
+          platform: undefined,
+          imageSize: 1000,
+        },
+        {
+          success: true,
+          restoredFromCache: true,
+          imageName: 'redis:alpine',
+          cacheKey: 'test-cache-bundle-2',
+          digest: 'sha256:redis',
+          platform: undefined,
+          imageSize: 1000,
+        },
+      ]);
+      expect(mockPullImage).not.toHaveBeenCalled();
+    });
+
+    it('should pull all images and save them as one bundle on cache miss', async () => {
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockPullImage).toHaveBeenCalledTimes(2);
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(1);
+      expect(mockSaveImageToCache).toHaveBeenCalledWith('docker', {
+        imageName: 'bundle of 2 images',
+        bundledImageNames: ['nginx:latest', 'redis:alpine'],
+        imageCacheKey: 'test-cache-bundle-2',
+        imageTarPath: '/tmp/test-cache-bundle-2.tar',
+        compression: { algorithm: 'none', level: 0 },
+        keepTempFiles: false,
+      });
+      expect(results.every((result) => result.success && !result.restoredFromCache)).toBe(true);
+    });
+
+    it('should not save the bundle when an image cannot be pulled', async () => {
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValueOnce({ success: true }).mockResolvedValueOnce({ success: false });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(results[0]?.success).toBe(true);
+      expect(results[1]).toEqual(
+        expect.objectContaining({ success: false, error: 'Failed to pull image: redis:alpine' })
+      );
+      expect(core.warning).toHaveBeenCalledWith('Bundle not saved because not all images could be pulled');
+    });
+
+    it('should report failed saves for every image', async () => {
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImageToCache.mockResolvedValue({ success: false, error: 'Failed to save image to tar: bundle' });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(results.map((result) => result.error)).toEqual([
+        'Failed to save image to tar: bundle',
+        'Failed to save image to tar: bundle',
+      ]);
+    });
+
+    it('should exclude images without a digest from the bundle', async () => {
+      mockInspectImageRemote.mockImplementation(async (_runtime, imageName: string) =>
+        imageName === 'redis:alpine' ? undefined : { digest: 'sha256:nginx' }
+      );
+      mockCacheRestore.mockResolvedValue({ success: true });
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(cache.generateBundleCacheKey).toHaveBeenCalledWith('test-cache', [
+        'test-cache-library/nginx-sha256:nginx',
+      ]);
+      expect(results[0]?.restoredFromCache).toBe(true);
+      expect(results[1]).toEqual(
+        expect.objectContaining({ success: false, error: 'Could not get digest for redis:alpine' })
+      );
+    });
+
+    it('should record a single pending save when saving is deferred', async () => {
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, { deferSave: true });
+
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(results[0]?.pendingSave).toEqual(expect.objectContaining({ imageCacheKey: 'test-cache-bundle-2' }));
+      expect(results[1]?.pendingSave).toBeUndefined();
+    });
+
+    it('should skip restoring when force refresh is enabled', async () => {
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await processServiceBundle('docker', services, 'test-cache', false, true);
+
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(mockPullImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a cache miss without pulling in restore mode', async () => {
+      mockCacheRestore.mockResolvedValue({ success: false });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, { mode: 'restore' });
+
+      expect(mockPullImage).not.toHaveBeenCalled();
+      expect(results.map((result) => result.outcome)).toEqual(['cache-miss', 'cache-miss']);
+    });
+
+    it('should look up the bundle without downloading it in lookup-only mode', async () => {
+      mockCacheLookup.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, {
+        mode: 'lookup-only',
+      });
+
+      expect(mockCacheLookup).toHaveBeenCalledWith(['/tmp/test-cache-bundle-2.tar'], 'test-cache-bundle-2');
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(results.map((result) => result.outcome)).toEqual(['would-hit', 'would-hit']);
+    });
+
+    it('should save the bundle of locally present images in save mode', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        createPresentImageInfo(imageName)
+      );
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, { mode: 'save' });
+
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(mockPullImage).not.toHaveBeenCalled();
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.outcome)).toEqual(['saved', 'saved']);
+    });
+
+    it('should not save a partial bundle in save mode', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        imageName === 'redis:alpine' ? undefined : createPresentImageInfo(imageName)
+      );
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, { mode: 'save' });
+
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(results.map((result) => [result.success, result.outcome, result.error])).toEqual([
+        [true, 'present', undefined],
+        [true, 'not-present', undefined],
+      ]);
+    });
+
+    it('should not save local images that do not match the registry digest in save mode', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        imageName === 'redis:alpine'
+          ? { ...createPresentImageInfo(imageName), RepoDigests: ['redis@sha256:previous'] }
+          : createPresentImageInfo(imageName)
+      );
+
+      const results = await processServiceBundle('docker', services, 'test-cache', false, false, { mode: 'save' });
+
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(results[1]?.outcome).toBe('not-present');
+      expect(core.warning).toHaveBeenCalledWith(
+        'Bundle not saved because images are not present locally with their registry digest: redis:alpine'
+      );
+    });
+
+    it('should skip restoring when all images are already present locally and the bundle is cached', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        createPresentImageInfo(imageName)
+      );
+      mockCacheLookup.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockCacheLookup).toHaveBeenCalledWith(['/tmp/test-cache-bundle-2.tar'], 'test-cache-bundle-2');
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(mockPullImage).not.toHaveBeenCalled();
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(results.map((result) => result.outcome)).toEqual(['present', 'present']);
+    });
+
+    it('should save the bundle when all images are present locally but the bundle is not cached', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        createPresentImageInfo(imageName)
+      );
+      mockCacheLookup.mockResolvedValue({ success: false });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(mockPullImage).not.toHaveBeenCalled();
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.outcome)).toEqual(['saved', 'saved']);
+    });
+
+    it('should only pull the images that are not present on cache miss', async () => {
+      mockInspectImageLocal.mockImplementation(async (_runtime, imageName: string) =>
+        imageName === 'nginx:latest' ? createPresentImageInfo(imageName) : { Size: 1000, RepoDigests: null }
+      );
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache');
+
+      expect(mockPullImage).toHaveBeenCalledTimes(1);
+      expect(mockPullImage).toHaveBeenCalledWith('docker', 'redis:alpine', undefined);
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.outcome)).toEqual(['present', undefined]);
+    });
+
+    it('should restore images without a digest from the latest bundle when digest verification is skipped', async () => {
+      mockInspectImageRemote.mockImplementation(async (_runtime, imageName: string) =>
+        imageName === 'redis:alpine' ? undefined : { digest: 'sha256:nginx' }
+      );
+      mockCacheRestore
+        .mockResolvedValueOnce({ success: true, cacheKey: 'test-cache-bundle-1' })
+        .mockResolvedValueOnce({ success: true, cacheKey: 'test-cache-bundle-2' });
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', true);
+
+      expect(mockCacheRestore).toHaveBeenLastCalledWith(
+        '/tmp/test-cache-bundle-fallback.tar',
+        'test-cache-bundle-fallback',
+        'none',
+        ['test-cache-bundle-']
+      );
+      expect(results[1]).toEqual({
+        success: true,
+        restoredFromCache: true,
+        imageName: 'redis:alpine',
+        cacheKey: 'test-cache-bundle-2',
+        digest: undefined,
+        platform: undefined,
+        imageSize: 1000,
+      });
+      expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('Registry unavailable for redis:alpine'));
+    });
+
+    it('should keep the error of images without a digest when no bundle can be restored', async () => {
+      mockInspectImageRemote.mockResolvedValue(undefined);
+      mockCacheRestore.mockResolvedValue({ success: false });
+
+      const results = await processServiceBundle('docker', services, 'test-cache', true);
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.error)).toEqual([
+        'Could not get digest for nginx:latest',
+        'Could not get digest for redis:alpine',
+      ]);
+    });
+
+    it('should resolve digests through the image limiter', async () => {
+      let inFlightInspectCount = 0;
+      let maxInFlightInspectCount = 0;
+      mockInspectImageRemote.mockImplementation(async (_runtime, imageName: string) => {
+        inFlightInspectCount++;
+        maxInFlightInspectCount = Math.max(maxInFlightInspectCount, inFlightInspectCount);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlightInspectCount--;
+        return { digest: `sha256:${imageName.split(':')[0]}` };
+      });
+      mockCacheLookup.mockResolvedValue({ success: false });
+
+      await processServiceBundle('docker', services, 'test-cache', false, false, {
+        mode: 'lookup-only',
+        imageLimiter: createConcurrencyLimiter(1),
+      });
+
+      expect(mockInspectImageRemote).toHaveBeenCalledTimes(2);
+      expect(maxInFlightInspectCount).toBe(1);
+    });
+  });
+});
@@ -1,17 +1,27 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: Compose interpolation syntax is tested literally
 import * as fs from 'node:fs';
+import * as path from 'node:path';
 import * as core from '@actions/core';
 
 import {
   getComposeFilePathsToProcess,
+  getComposeProjectsToProcess,
   getComposeServicesFromFiles,
+  getComposeServicesFromProjects,
   matchesExcludePattern,
+  resolveActiveProfiles,
 } from '../src/docker-compose-file';
+import * as fileUtils from '../src/file-utils';
 
 jest.mock('@actions/core', () => ({
   debug: jest.fn(),
   warning: jest.fn(),
 }));
 jest.mock('fs');
+jest.mock('../src/file-utils', () => ({
+  ...jest.requireActual('../src/file-utils'),
+  expandGlobPattern: jest.fn(),
+}));
 
 describe('docker-compose-file', () => {
   describe('getComposeServicesFromFiles', () => {
@@ -34,7 +44,7 @@ describe('docker-compose-file', () => {
     it('extracts services with image from a single file', () => {
       (fs.readFileSync as jest.Mock).mockReturnValue(createYaml({ nginx: { image: 'nginx:latest' } }));
       const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
-      expect(result).toEqual([{ image: 'nginx:latest' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('extracts platform if present', () => {
@@ -42,7 +52,7 @@ describe('docker-compose-file', () => {
         createYaml({ nginx: { image: 'nginx:latest', platform: 'linux/amd64' } })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
-      expect(result).toEqual([{ image: 'nginx:latest', platform: 'linux/amd64' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', platform: 'linux/amd64', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('excludes images in exclude list', () => {
@@ -50,7 +60,7 @@ describe('docker-compose-file', () => {
         createYaml({ nginx: { image: 'nginx:latest' }, redis: { image: 'redis:alpine' } })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['redis:alpine']);
-      expect(result).toEqual([{ image: 'nginx:latest' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('merges services from multiple files', () => {
@@ -64,7 +74,58 @@ describe('docker-compose-file', () => {
         return '';
       });
       const result = getComposeServicesFromFiles(['a.yml', 'b.yml'], []);
-      expect(result).toEqual([{ image: 'nginx:latest' }, { image: 'redis:alpine' }]);
+      expect(result).toEqual([
+        { image: 'nginx:latest', sourceFile: 'a.yml' },
+        { image: 'redis:alpine', sourceFile: 'b.yml' },
+      ]);
+    });
+
+    it('overrides image and platform of services with the same name in later files', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation((file) => {
+        if (file === 'compose.yaml') {
+          return createYaml({
+            api: { image: 'api:1.0', platform: 'linux/amd64' },
+            db: { image: 'postgres:16' },
+          });
+        }
+        if (file === 'compose.override.yaml') {
+          return createYaml({ api: { image: 'api:dev' } });
+        }
+        return '';
+      });
+      const result = getComposeServicesFromFiles(['compose.yaml', 'compose.override.yaml'], []);
+      expect(result).toEqual([
+        { image: 'api:dev', platform: 'linux/amd64', sourceFile: 'compose.override.yaml' },
+        { image: 'postgres:16', sourceFile: 'compose.yaml' },
+      ]);
+    });
+
+    it('keeps base image when override only changes other attributes', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation((file) => {
+        if (file === 'compose.yaml') {
+          return createYaml({ api: { image: 'api:1.0' } });
+        }
+        if (file === 'compose.override.yaml') {
+          return 'services:\n  api:\n    ports:\n      - "8080:80"\n  worker:';
+        }
+        return '';
+      });
+      const result = getComposeServicesFromFiles(['compose.yaml', 'compose.override.yaml'], []);
+      expect(result).toEqual([{ image: 'api:1.0', sourceFile: 'compose.yaml' }]);
+    });
+
+    it('applies profiles from override files', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation((file) => {
+        if (file === 'compose.yaml') {
+          return createYaml({ jaeger: { image: 'jaegertracing/all-in-one:latest' } });
+        }
+        if (file === 'compose.override.yaml') {
+          return 'services:\n  jaeger:\n    profiles: [observability]';
+        }
+        return '';
+      });
+      const result = getComposeServicesFromFiles(['compose.yaml', 'compose.override.yaml'], []);
+      expect(result).toEqual([]);
     });
 
     it('ignores services without image', () => {
@@ -72,13 +133,13 @@ describe('docker-compose-file', () => {
         'services:\n  app:\n    build: .\n  nginx:\n    image: nginx:latest'
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
-      expect(result).toEqual([{ image: 'nginx:latest' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('searches default files if no input', () => {
       (fs.readFileSync as jest.Mock).mockReturnValue(createYaml({ nginx: { image: 'nginx:latest' } }));
       const result = getComposeServicesFromFiles(['compose.yaml'], []);
-      expect(result).toEqual([{ image: 'nginx:latest' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', sourceFile: 'compose.yaml' }]);
     });
 
     it('returns empty if file is empty', () => {
@@ -95,6 +156,457 @@ describe('docker-compose-file', () => {
       expect(debugMock).toHaveBeenCalledWith(expect.stringContaining('No services section'));
     });
 
+    it('interpolates variables from the environment and .env file', () => {
+      process.env.TEST_IMAGE_TAG = '1.2';
+      (fs.readFileSync as jest.Mock).mockImplementation((file) =>
+        file === '.env'
+          ? 'TEST_REGISTRY=ghcr.io'
+          : createYaml({ api: { image: '${TEST_REGISTRY:-docker.io}/org/api:${TEST_IMAGE_TAG}' } })
+      );
+      const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
+      delete process.env.TEST_IMAGE_TAG;
+      expect(result).toEqual([{ image: 'ghcr.io/org/api:1.2', sourceFile: 'docker-compose.yml' }]);
+    });
+
+    it('interpolates all files of a project with the .env file of the first file directory', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation((file) => {
+        switch (file) {
+          case path.join('app', '.env'):
+            return 'API_TAG=1.2';
+          case path.join('overrides', '.env'):
+            return 'API_TAG=9.9';
+          case path.join('app', 'compose.yaml'):
+            return createYaml({ api: { image: 'api:${API_TAG}' } });
+          default:
+            return createYaml({ worker: { image: 'worker:${API_TAG}' } });
+        }
+      });
+      const result = getComposeServicesFromFiles(
+        [path.join('app', 'compose.yaml'), path.join('overrides', 'ci.yaml')],
+        []
+      );
+      expect(result).toEqual([
+        { image: 'api:1.2', sourceFile: path.join('app', 'compose.yaml') },
+        { image: 'worker:1.2', sourceFile: path.join('overrides', 'ci.yaml') },
+      ]);
+      expect(fs.readFileSync).not.toHaveBeenCalledWith(path.join('overrides', '.env'), 'utf8');
+    });
+
+    it('warns when a required variable is missing', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      (fs.readFileSync as jest.Mock).mockReturnValue(
+        createYaml({ api: { image: 'api:${MISSING_TAG:?tag required}' } })
+      );
+      const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
+      expect(result).toEqual([]);
+      expect(warningMock).toHaveBeenCalledWith(
+        expect.stringContaining('Required variable MISSING_TAG is missing a value: tag required')
+      );
+    });
+
+    describe('profiles', () => {
+      const profiledYaml = [
+        'services:',
+        '  app:',
+        '    image: app:latest',
+        '  jaeger:',
+        '    image: jaegertracing/all-in-one:latest',
+        '    profiles: [observability]',
+        '  debugger:',
+        '    image: debugger:latest',
+        '    profiles: [debug, tools]',
+      ].join('\n');
+
+      beforeEach(() => {
+        (fs.readFileSync as jest.Mock).mockReturnValue(profiledYaml);
+      });
+
+      it('includes only services without profiles when no profile is active', () => {
+        const result = getComposeServicesFromFiles(['docker-compose.yml'], []);
+        expect(result).toEqual([{ image: 'app:latest', sourceFile: 'docker-compose.yml' }]);
+      });
+
+      it('includes services whose profile is active', () => {
+        const result = getComposeServicesFromFiles(['docker-compose.yml'], [], ['tools']);
+        expect(result).toEqual([
+          { image: 'app:latest', sourceFile: 'docker-compose.yml' },
+          { image: 'debugger:latest', sourceFile: 'docker-compose.yml' },
+        ]);
+      });
+
+      it('includes all services when all profiles are enabled', () => {
+        const result = getComposeServicesFromFiles(['docker-compose.yml'], [], ['*']);
+        expect(result).toEqual([
+          { image: 'app:latest', sourceFile: 'docker-compose.yml' },
+          { image: 'jaegertracing/all-in-one:latest', sourceFile: 'docker-compose.yml' },
+          { image: 'debugger:latest', sourceFile: 'docker-compose.yml' },
+        ]);
+      });
+    });
+
+    describe('include', () => {
+      const mockComposeFiles = (files: Record<string, string>) => {
+        (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => filePath in files);
+        (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+          const content = files[filePath];
+          if (content === undefined) {
+            throw new Error(`ENOENT: ${filePath}`);
+          }
+          return content;
+        });
+      };
+
+      it('resolves included files relative to the including file', () => {
+        mockComposeFiles({
+          'app/compose.yaml': `include:\n  - ../infra/compose.yaml\n${createYaml({ api: { image: 'api:1.0' } })}`,
+          'infra/compose.yaml': `include:\n  - db/compose.yaml\n${createYaml({ cache: { image: 'redis:7' } })}`,
+          'infra/db/compose.yaml': createYaml({ db: { image: 'postgres:16' } }),
+        });
+        const result = getComposeServicesFromFiles(['app/compose.yaml'], []);
+        expect(result).toEqual([
+          { image: 'postgres:16', sourceFile: 'infra/db/compose.yaml' },
+          { image: 'redis:7', sourceFile: 'infra/compose.yaml' },
+          { image: 'api:1.0', sourceFile: 'app/compose.yaml' },
+        ]);
+      });
+
+      it('supports the long syntax with multiple paths, project_directory and env_file', () => {
+        mockComposeFiles({
+          'compose.yaml': [
+            'include:',
+            '  - path: [shared/base.yaml, shared/override.yaml]',
+            '    project_directory: shared/project',
+            '  - path: tools/compose.yaml',
+            '    env_file: tools/tools.env',
+          ].join('\n'),
+          'shared/base.yaml': createYaml({ proxy: { image: 'nginx:${PROXY_TAG}' } }),
+          'shared/override.yaml': createYaml({ proxy: { platform: 'linux/arm64' } }),
+          'shared/project/.env': 'PROXY_TAG=1.27',
+          'tools/compose.yaml': createYaml({ mail: { image: 'mailhog:${MAIL_TAG:-latest}' } }),
+          'tools/tools.env': 'MAIL_TAG=v1.0.1',
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([
+          { image: 'nginx:1.27', platform: 'linux/arm64', sourceFile: 'shared/base.yaml' },
+          { image: 'mailhog:v1.0.1', sourceFile: 'tools/compose.yaml' },
+        ]);
+      });
+
+      it('lets the including file override included services', () => {
+        mockComposeFiles({
+          'compose.yaml': `include:\n  - shared.yaml\n${createYaml({ db: { image: 'postgres:17' } })}`,
+          'shared.yaml': createYaml({ db: { image: 'postgres:16', platform: 'linux/amd64' } }),
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([{ image: 'postgres:17', platform: 'linux/amd64', sourceFile: 'compose.yaml' }]);
+      });
+
+      it('warns and stops on circular includes', () => {
+        mockComposeFiles({
+          'a.yaml': `include:\n  - b.yaml\n${createYaml({ a: { image: 'a:1' } })}`,
+          'b.yaml': `include:\n  - a.yaml\n${createYaml({ b: { image: 'b:1' } })}`,
+        });
+        const result = getComposeServicesFromFiles(['a.yaml'], []);
+        expect(result).toEqual([
+          { image: 'b:1', sourceFile: 'b.yaml' },
+          { image: 'a:1', sourceFile: 'a.yaml' },
+        ]);
+        expect(warningMock).toHaveBeenCalledWith(expect.stringContaining('Circular include detected'));
+      });
+
+      it('skips includes whose env file is missing and keeps the services of the including file', () => {
+        mockComposeFiles({
+          'compose.yaml': [
+            'include:',
+            '  - path: tools/compose.yaml',
+            '    env_file: tools/missing.env',
+            '  - shared.yaml',
+            createYaml({ api: { image: 'api:1.0' } }),
+          ].join('\n'),
+          'tools/compose.yaml': createYaml({ mail: { image: 'mailhog:${MAIL_TAG}' } }),
+          'shared.yaml': createYaml({ cache: { image: 'redis:7' } }),
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([
+          { image: 'redis:7', sourceFile: 'shared.yaml' },
+          { image: 'api:1.0', sourceFile: 'compose.yaml' },
+        ]);
+        expect(warningMock).toHaveBeenCalledWith(
+          'Skipping include of tools/compose.yaml in compose.yaml, its env files cannot be read: ' +
+            'Error: Env file not found: tools/missing.env'
+        );
+      });
+
+      it('skips includes whose env file cannot be read and keeps the services of the including file', () => {
+        mockComposeFiles({
+          'compose.yaml': [
+            'include:',
+            '  - path: tools/compose.yaml',
+            '    env_file: tools/tools.env',
+            createYaml({ api: { image: 'api:1.0' } }),
+          ].join('\n'),
+          'tools/compose.yaml': createYaml({ mail: { image: 'mailhog:${MAIL_TAG}' } }),
+        });
+        // The env file exists but reading it fails
+        (fs.existsSync as jest.Mock).mockReturnValue(true);
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([{ image: 'api:1.0', sourceFile: 'compose.yaml' }]);
+        expect(warningMock).toHaveBeenCalledWith(
+          expect.stringContaining('Skipping include of tools/compose.yaml in compose.yaml')
+        );
+      });
+
+      it('warns when an included file does not exist', () => {
+        mockComposeFiles({
+          'compose.yaml': `include:\n  - missing.yaml\n${createYaml({ api: { image: 'api:1.0' } })}`,
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([{ image: 'api:1.0', sourceFile: 'compose.yaml' }]);
+        expect(warningMock).toHaveBeenCalledWith(
+          'Included Compose file not found: missing.yaml (included from compose.yaml)'
+        );
+      });
+    });
+
+    describe('extends', () => {
+      const mockComposeFiles = (files: Record<string, string>) => {
+        (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => filePath in files);
+        (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+          const content = files[filePath];
+          if (content === undefined) {
+            throw new Error(`ENOENT: ${filePath}`);
+          }
+          return content;
+        });
+      };
+
+      it('inherits image and platform from a service in the same file', () => {
+        mockComposeFiles({
+          'compose.yaml': [
+            'services:',
+            '  base:',
+            '    image: node:20',
+            '    platform: linux/amd64',
+            '    profiles: [templates]',
+            '  web:',
+            '    extends: base',
+            '    profiles: []',
+            '  worker:',
+            '    extends:',
+            '      service: web',
+            '    platform: linux/arm64',
+          ].join('\n'),
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([
+          { image: 'node:20', platform: 'linux/amd64', sourceFile: 'compose.yaml' },
+          { image: 'node:20', platform: 'linux/arm64', sourceFile: 'compose.yaml' },
+        ]);
+      });
+
+      it('inherits the image from a service in another file relative to the extending file', () => {
+        mockComposeFiles({
+          'app/compose.yaml': [
+            'services:',
+            '  api:',
+            '    extends:',
+            '      file: ../common/services.yml',
+            '      service: base',
+          ].join('\n'),
+          'common/services.yml': [
+            'services:',
+            '  base:',
+            '    extends:',
+            '      file: runtime.yml',
+            '      service: runtime',
+            '    platform: linux/amd64',
+          ].join('\n'),
+          'common/runtime.yml': `services:\n  runtime:\n    image: \${RUNTIME_IMAGE:-python:3.12}`,
+        });
+        const result = getComposeServicesFromFiles(['app/compose.yaml'], []);
+        expect(result).toEqual([{ image: 'python:3.12', platform: 'linux/amd64', sourceFile: 'common/runtime.yml' }]);
+      });
+
+      it('prefers the image of the extending service', () => {
+        mockComposeFiles({
+          'compose.yaml': 'services:\n  base:\n    image: node:20\n  web:\n    extends: base\n    image: node:22',
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([
+          { image: 'node:20', sourceFile: 'compose.yaml' },
+          { image: 'node:22', sourceFile: 'compose.yaml' },
+        ]);
+      });
+
+      it('warns on circular extends', () => {
+        mockComposeFiles({
+          'compose.yaml': 'services:\n  a:\n    extends: b\n  b:\n    extends: a\n    image: b:1',
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([{ image: 'b:1', sourceFile: 'compose.yaml' }]);
+        expect(warningMock).toHaveBeenCalledWith(expect.stringContaining('Circular extends detected'));
+      });
+
+      it('warns when the base service or file is missing', () => {
+        mockComposeFiles({
+          'compose.yaml': [
+            'services:',
+            '  api:',
+            '    extends: missing',
+            '  worker:',
+            '    extends:',
+            '      file: missing.yml',
+            '      service: base',
+          ].join('\n'),
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], []);
+        expect(result).toEqual([]);
+        expect(warningMock).toHaveBeenCalledWith('Service missing not found in compose.yaml');
+        expect(warningMock).toHaveBeenCalledWith(
+          expect.stringContaining('Failed to resolve extends of service worker from missing.yml')
+        );
+      });
+    });
+
+    describe('build base images', () => {
+      const mockComposeFiles = (files: Record<string, string>) => {
+        (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => filePath in files);
+        (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+          const content = files[filePath];
+          if (content === undefined) {
+            throw new Error(`ENOENT: ${filePath}`);
+          }
+          return content;
+        });
+      };
+
+      const buildComposeYaml = [
+        'services:',
+        '  api:',
+        '    build: ./api',
+        '    platform: linux/arm64',
+        '  web:',
+        '    image: ghcr.io/org/web:dev',
+        '    build:',
+        '      context: web',
+        '      dockerfile: docker/Dockerfile.prod',
+        '      target: production',
+        '      args:',
+        '        NODE_VERSION: 22',
+        '  worker:',
+        '    build:',
+        '      context: .',
+        '      dockerfile_inline: |',
+        '        FROM python:3.12-slim',
+        '  remote:',
+        '    build: https://github.com/org/repo.git#main',
+      ].join('\n');
+
+      beforeEach(() => {
+        mockComposeFiles({
+          'project/compose.yaml': buildComposeYaml,
+          'project/api/Dockerfile':
+            'FROM golang:1.22 AS build\nFROM gcr.io/distroless/static\nCOPY --from=build /app /',
+          'project/web/docker/Dockerfile.prod': [
+            'ARG NODE_VERSION=20',
+            'FROM node:${NODE_VERSION} AS build',
+            'FROM nginx:1.27 AS production',
+            'COPY --from=build /dist /usr/share/nginx/html',
+          ].join('\n'),
+        });
+      });
+
+      it('ignores build sections by default', () => {
+        const result = getComposeServicesFromFiles(['project/compose.yaml'], []);
+        expect(result).toEqual([{ image: 'ghcr.io/org/web:dev', sourceFile: 'project/compose.yaml' }]);
+      });
+
+      it('extracts base images from Dockerfiles when enabled', () => {
+        const result = getComposeServicesFromFiles(['project/compose.yaml'], [], [], true);
+        expect(result).toEqual([
+          { image: 'golang:1.22', platform: 'linux/arm64', sourceFile: 'project/api/Dockerfile' },
+          { image: 'gcr.io/distroless/static', platform: 'linux/arm64', sourceFile: 'project/api/Dockerfile' },
+          { image: 'ghcr.io/org/web:dev', sourceFile: 'project/compose.yaml' },
+          { image: 'node:22', sourceFile: 'project/web/docker/Dockerfile.prod' },
+          { image: 'nginx:1.27', sourceFile: 'project/web/docker/Dockerfile.prod' },
+          { image: 'python:3.12-slim', sourceFile: 'project/compose.yaml' },
+        ]);
+      });
+
+      it('applies exclusion patterns to base images', () => {
+        const result = getComposeServicesFromFiles(
+          ['project/compose.yaml'],
+          ['ghcr.io/*', 'gcr.io/*', 'node:*'],
+          [],
+          true
+        );
+        expect(result.map((service) => service.image)).toEqual(['golang:1.22', 'nginx:1.27', 'python:3.12-slim']);
+      });
+
+      it('reads build args without a value from the environment', () => {
+        process.env.TEST_NODE_VERSION = '18';
+        mockComposeFiles({
+          'compose.yaml': 'services:\n  app:\n    build:\n      context: .\n      args:\n        - TEST_NODE_VERSION',
+          Dockerfile: 'ARG TEST_NODE_VERSION=20\nFROM node:${TEST_NODE_VERSION}',
+        });
+        const result = getComposeServicesFromFiles(['compose.yaml'], [], [], true);
+        delete process.env.TEST_NODE_VERSION;
+        expect(result).toEqual([{ image: 'node:18', sourceFile: 'Dockerfile' }]);
+      });
+
+      it('warns about inline Dockerfile instructions that cannot be expanded and keeps the other services', () => {
+        mockComposeFiles({
+          'project/compose.yaml': [
+            'services:',
+            '  broken:',
+            '    build:',
+            '      dockerfile_inline: |',
+            '        FROM python:$${PYTHON_VERSION',
+            '  cache:',
+            '    image: redis:7',
+          ].join('\n'),
+        });
+        const result = getComposeServicesFromFiles(['project/compose.yaml'], [], [], true);
+        expect(result).toEqual([{ image: 'redis:7', sourceFile: 'project/compose.yaml' }]);
+        expect(core.warning).toHaveBeenCalledWith(
+          expect.stringContaining('Skipping python:${PYTHON_VERSION in Dockerfile')
+        );
+      });
+
+      it('merges build sections of override files key by key', () => {
+        mockComposeFiles({
+          'project/compose.yaml': buildComposeYaml,
+          'project/api/Dockerfile.debug': 'FROM golang:1.22',
+          'project/web/docker/Dockerfile.prod': [
+            'ARG NODE_VERSION=20',
+            'FROM node:${NODE_VERSION} AS build',
+            'FROM nginx:1.27 AS production',
+          ].join('\n'),
+          'overrides/compose.ci.yaml': [
+            'services:',
+            '  api:',
+            '    build:',
+            '      dockerfile: Dockerfile.debug',
+            '  web:',
+            '    build:',
+            '      target: build',
+            '      args:',
+            '        - NODE_ENV=test',
+          ].join('\n'),
+        });
+        const result = getComposeServicesFromFiles(
+          ['project/compose.yaml', 'overrides/compose.ci.yaml'],
+          ['ghcr.io/*', 'python:*'],
+          [],
+          true
+        );
+        expect(result).toEqual([
+          { image: 'golang:1.22', platform: 'linux/arm64', sourceFile: 'project/api/Dockerfile.debug' },
+          { image: 'node:22', sourceFile: 'project/web/docker/Dockerfile.prod' },
+        ]);
+      });
+    });
+
     it('returns empty and warns on parse error', () => {
       (fs.readFileSync as jest.Mock).mockImplementation(() => {
         throw new Error('parse error');
@@ -106,8 +618,17 @@ describe('docker-compose-file', () => {
   });
 
   describe('getComposeFilePathsToProcess', () => {
+    const originalEnv = process.env;
+
     beforeEach(() => {
       jest.clearAllMocks();
+      process.env = { ...originalEnv };
+      delete process.env.COMPOSE_FILE;
+      delete process.env.COMPOSE_PATH_SEPARATOR;
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
     });
 
     it('should return provided file paths when they exist', () => {
@@ -154,6 +675,207 @@ describe('docker-compose-file', () => {
       const result = getComposeFilePathsToProcess([]);
       expect(result).toEqual(['docker-compose.yaml']);
     });
+
+    it('should prefer the first default file in Docker Compose order', () => {
+      (fs.existsSync as jest.Mock).mockImplementation((filePath) =>
+        ['docker-compose.yaml', 'docker-compose.yml', 'compose.yml'].includes(filePath)
+      );
+
+      expect(getComposeFilePathsToProcess([])).toEqual(['compose.yml']);
+    });
+
+    it('should load an override file next to the default file', () => {
+      (fs.existsSync as jest.Mock).mockImplementation((filePath) =>
+        ['docker-compose.yml', 'docker-compose.override.yml', 'compose.override.yaml'].includes(filePath)
+      );
+
+      expect(getComposeFilePathsToProcess([])).toEqual(['docker-compose.yml', 'compose.override.yaml']);
+    });
+
+    it('should ignore an override file without a default file', () => {
+      (fs.existsSync as jest.Mock).mockImplementation((filePath) => filePath === 'compose.override.yaml');
+
+      expect(getComposeFilePathsToProcess([])).toEqual([]);
+    });
+
+    it('should use COMPOSE_FILE with the platform path delimiter', () => {
+      process.env.COMPOSE_FILE = ['compose.yaml', 'compose.ci.yaml', 'missing.yaml'].join(path.delimiter);
+      (fs.existsSync as jest.Mock).mockImplementation((filePath) => filePath !== 'missing.yaml');
+
+      expect(getComposeFilePathsToProcess([])).toEqual(['compose.yaml', 'compose.ci.yaml']);
+    });
+
+    it('should split COMPOSE_FILE with COMPOSE_PATH_SEPARATOR', () => {
+      process.env.COMPOSE_FILE = 'deploy/compose.yaml,deploy/compose.ci.yaml';
+      process.env.COMPOSE_PATH_SEPARATOR = ',';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+      expect(getComposeFilePathsToProcess([])).toEqual(['deploy/compose.yaml', 'deploy/compose.ci.yaml']);
+    });
+
+    describe('missing compose files', () => {
+      it('should warn about missing explicit paths by default', () => {
+        (fs.existsSync as jest.Mock).mockImplementation((filePath) => filePath === 'compose.yaml');
+
+        expect(getComposeFilePathsToProcess(['compose.yaml', 'compose.prod.yaml', 'typo.yaml'])).toEqual([
+          'compose.yaml',
+        ]);
+        expect(core.warning).toHaveBeenCalledWith(
+          'Compose file(s) from compose-files input not found: compose.prod.yaml, typo.yaml'
+        );
+      });
+
+      it('should throw listing the missing paths in error mode', () => {
+        (fs.existsSync as jest.Mock).mockImplementation((filePath) => filePath === 'compose.yaml');
+
+        expect(() => getComposeFilePathsToProcess(['compose.yaml', 'typo.yaml'], 'error')).toThrow(
+          'Compose file(s) from compose-files input not found: typo.yaml'
+        );
+      });
+
+      it('should report missing COMPOSE_FILE entries', () => {
+        process.env.COMPOSE_FILE = 'missing.yaml';
+        (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+        expect(() => getComposeFilePathsToProcess([], 'error')).toThrow(
+          'Compose file(s) from COMPOSE_FILE not found: missing.yaml'
+        );
+      });
+
+      it('should list the default names tried when no default file exists', () => {
+        (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+        expect(() => getComposeFilePathsToProcess([], 'error')).toThrow(
+          'No Compose file found in the working directory. Tried default names: compose.yaml, compose.yml, docker-compose.yml, docker-compose.yaml'
+        );
+      });
+
+      it('should only log debug messages in ignore mode', () => {
+        (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+        expect(getComposeFilePathsToProcess(['typo.yaml'], 'ignore')).toEqual([]);
+        expect(core.warning).not.toHaveBeenCalled();
+        expect(core.debug).toHaveBeenCalledWith('Compose file(s) from compose-files input not found: typo.yaml');
+      });
+    });
+
+    it('should prefer explicit paths over COMPOSE_FILE', () => {
+      process.env.COMPOSE_FILE = 'compose.ci.yaml';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+      expect(getComposeFilePathsToProcess(['compose.yaml'])).toEqual(['compose.yaml']);
+    });
+  });
+
+  describe('getComposeProjectsToProcess', () => {
+    const directories = ['services/api', 'services/empty'];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fs.statSync as jest.Mock).mockImplementation((filePath: string) =>
+        directories.includes(filePath) ? { isDirectory: () => true } : undefined
+      );
+      (fs.existsSync as jest.Mock).mockImplementation((filePath: string) =>
+        ['compose.yaml', 'compose.ci.yaml', 'services/api/compose.yaml', 'services/api/compose.override.yml'].includes(
+          filePath
+        )
+      );
+    });
+
+    it('should group literal paths into a single project', () => {
+      expect(getComposeProjectsToProcess(['compose.yaml', 'compose.ci.yaml'])).toEqual([
+        ['compose.yaml', 'compose.ci.yaml'],
+      ]);
+    });
+
+    it('should use default discovery as a single project without input', () => {
+      expect(getComposeProjectsToProcess([])).toEqual([['compose.yaml']]);
+    });
+
+    it('should expand glob patterns into one project per file', () => {
+      (fileUtils.expandGlobPattern as jest.Mock).mockReturnValue([
+        'services/a/compose.yaml',
+        'services/b/compose.yaml',
+      ]);
+
+      expect(getComposeProjectsToProcess(['compose.yaml', 'services/**/compose.yaml'])).toEqual([
+        ['compose.yaml'],
+        ['services/a/compose.yaml'],
+        ['services/b/compose.yaml'],
+      ]);
+      expect(fileUtils.expandGlobPattern).toHaveBeenCalledWith('services/**/compose.yaml');
+    });
+
+    it('should expand directories to their default compose and override files', () => {
+      expect(getComposeProjectsToProcess(['services/api'])).toEqual([
+        ['services/api/compose.yaml', 'services/api/compose.override.yml'],
+      ]);
+    });
+
+    it('should report patterns and directories without compose files', () => {
+      (fileUtils.expandGlobPattern as jest.Mock).mockReturnValue([]);
+
+      expect(getComposeProjectsToProcess(['apps/*/compose.yaml', 'services/empty'])).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith('No Compose files match pattern apps/*/compose.yaml');
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('No Compose file found in directory services/empty. Tried default names: compose.yaml')
+      );
+      expect(() => getComposeProjectsToProcess(['apps/*/compose.yaml'], 'error')).toThrow(
+        'No Compose files match pattern apps/*/compose.yaml'
+      );
+    });
+  });
+
+  describe('getComposeServicesFromProjects', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+      (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+        filePath === 'api/compose.yaml'
+          ? 'services:\n  app:\n    image: api:1.0\n  db:\n    image: postgres:16'
+          : 'services:\n  app:\n    image: web:1.0\n  db:\n    image: postgres:16'
+      );
+    });
+
+    it('should not merge services with the same name across projects', () => {
+      const result = getComposeServicesFromProjects([['api/compose.yaml'], ['web/compose.yaml']], []);
+      expect(result).toEqual([
+        { image: 'api:1.0', sourceFile: 'api/compose.yaml' },
+        { image: 'postgres:16', sourceFile: 'api/compose.yaml' },
+        { image: 'web:1.0', sourceFile: 'web/compose.yaml' },
+      ]);
+    });
+  });
+
+  describe('resolveActiveProfiles', () => {
+    const originalComposeProfiles = process.env.COMPOSE_PROFILES;
+
+    afterEach(() => {
+      if (originalComposeProfiles === undefined) {
+        delete process.env.COMPOSE_PROFILES;
+      } else {
+        process.env.COMPOSE_PROFILES = originalComposeProfiles;
+      }
+    });
+
+    it('should split comma-separated and multiline profile inputs', () => {
+      expect(resolveActiveProfiles(['debug, tools', 'observability', ''])).toEqual(['debug', 'tools', 'observability']);
+    });
+
+    it('should fall back to COMPOSE_PROFILES when no profiles are specified', () => {
+      process.env.COMPOSE_PROFILES = 'debug,observability';
+      expect(resolveActiveProfiles([])).toEqual(['debug', 'observability']);
+    });
+
+    it('should prefer specified profiles over COMPOSE_PROFILES', () => {
+      process.env.COMPOSE_PROFILES = 'debug';
+      expect(resolveActiveProfiles(['tools'])).toEqual(['tools']);
+    });
+
+    it('should return empty array when nothing is specified', () => {
+      delete process.env.COMPOSE_PROFILES;
+      expect(resolveActiveProfiles([])).toEqual([]);
+    });
   });
 
   describe('matchesExcludePattern', () => {
@@ -279,7 +1001,7 @@ describe('docker-compose-file', () => {
         })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['nginx:*']);
-      expect(result).toEqual([{ image: 'redis:alpine' }]);
+      expect(result).toEqual([{ image: 'redis:alpine', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('should exclude all latest tags with *:latest pattern', () => {
@@ -291,7 +1013,7 @@ describe('docker-compose-file', () => {
         })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['*:latest']);
-      expect(result).toEqual([{ image: 'postgres:15' }]);
+      expect(result).toEqual([{ image: 'postgres:15', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('should exclude registry-specific images', () => {
@@ -303,7 +1025,7 @@ describe('docker-compose-file', () => {
         })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['ghcr.io/myorg/*']);
-      expect(result).toEqual([{ image: 'nginx:latest' }]);
+      expect(result).toEqual([{ image: 'nginx:latest', sourceFile: 'docker-compose.yml' }]);
     });
 
     it('should support multiple wildcard patterns', () => {
@@ -316,7 +1038,10 @@ describe('docker-compose-file', () => {
         })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['nginx:*', 'mysql:*']);
-      expect(result).toEqual([{ image: 'redis:alpine' }, { image: 'postgres:15' }]);
+      expect(result).toEqual([
+        { image: 'redis:alpine', sourceFile: 'docker-compose.yml' },
+        { image: 'postgres:15', sourceFile: 'docker-compose.yml' },
+      ]);
     });
 
     it('should support mixed exact and wildcard patterns', () => {
@@ -328,7 +1053,7 @@ describe('docker-compose-file', () => {
         })
       );
       const result = getComposeServicesFromFiles(['docker-compose.yml'], ['nginx:latest', 'postgres:*']);
-      expect(result).toEqual([{ image: 'redis:alpine' }]);
+      expect(result).toEqual([{ image: 'redis:alpine', sourceFile: 'docker-compose.yml' }]);
     });
   });
 });
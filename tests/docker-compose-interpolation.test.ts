@@ -0,0 +1,170 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: Compose interpolation syntax is tested literally
+import * as fs from 'node:fs';
+
+import {
+  interpolateComposeDefinition,
+  interpolateString,
+  loadComposeEnvironment,
+  parseEnvFile,
+} from '../src/docker-compose-interpolation';
+
+jest.mock('fs');
+
+describe('docker-compose-interpolation', () => {
+  describe('interpolateString', () => {
+    const environment = { TAG: '1.2', EMPTY: '', REGISTRY: 'ghcr.io' };
+
+    it('should substitute braced and unbraced variables', () => {
+      expect(interpolateString('api:${TAG}', environment)).toBe('api:1.2');
+      expect(interpolateString('api:$TAG', environment)).toBe('api:1.2');
+    });
+
+    it('should substitute unset variables with empty string', () => {
+      expect(interpolateString('api:${MISSING}', environment)).toBe('api:');
+    });
+
+    it('should apply ":-" default for unset or empty variables', () => {
+      expect(interpolateString('${MISSING:-docker.io}/api', environment)).toBe('docker.io/api');
+      expect(interpolateString('${EMPTY:-docker.io}/api', environment)).toBe('docker.io/api');
+      expect(interpolateString('${REGISTRY:-docker.io}/api', environment)).toBe('ghcr.io/api');
+    });
+
+    it('should apply "-" default only for unset variables', () => {
+      expect(interpolateString('${MISSING-default}', environment)).toBe('default');
+      expect(interpolateString('${EMPTY-default}', environment)).toBe('');
+    });
+
+    it('should apply "+" and ":+" replacements for set variables', () => {
+      expect(interpolateString('${TAG:+set}', environment)).toBe('set');
+      expect(interpolateString('${EMPTY:+set}', environment)).toBe('');
+      expect(interpolateString('${EMPTY+set}', environment)).toBe('set');
+      expect(interpolateString('${MISSING+set}', environment)).toBe('');
+    });
+
+    it('should throw for missing required variables', () => {
+      expect(() => interpolateString('${MISSING:?TAG must be set}', environment)).toThrow(
+        'Required variable MISSING is missing a value: TAG must be set'
+      );
+      expect(() => interpolateString('${EMPTY:?}', environment)).toThrow('Required variable EMPTY is missing a value');
+      expect(interpolateString('${EMPTY?err}', environment)).toBe('');
+    });
+
+    it('should unescape "$$" to a literal dollar sign', () => {
+      expect(interpolateString('echo $${TAG} $$HOME', environment)).toBe('echo ${TAG} $HOME');
+    });
+
+    it('should support nested expressions in defaults', () => {
+      expect(interpolateString('${MISSING:-${REGISTRY}/base}:${TAG}', environment)).toBe('ghcr.io/base:1.2');
+    });
+
+    it('should keep a lone dollar sign that does not start an expression', () => {
+      expect(interpolateString('price: 5$', environment)).toBe('price: 5$');
+    });
+
+    it('should throw for malformed expressions', () => {
+      expect(() => interpolateString('${TAG', environment)).toThrow('unterminated expression');
+      expect(() => interpolateString('${}', environment)).toThrow('Invalid interpolation format');
+    });
+  });
+
+  describe('interpolateComposeDefinition', () => {
+    it('should interpolate nested string values but not keys', () => {
+      const definition = {
+        services: {
+          api: { image: '${REGISTRY:-docker.io}/api:${TAG}', ports: ['${PORT:-8080}:80'], replicas: 2 },
+          '${TAG}': { image: 'nginx' },
+        },
+      };
+
+      expect(interpolateComposeDefinition(definition, { TAG: '1.2' })).toEqual({
+        services: {
+          api: { image: 'docker.io/api:1.2', ports: ['8080:80'], replicas: 2 },
+          '${TAG}': { image: 'nginx' },
+        },
+      });
+    });
+
+    it('should return scalars and null unchanged', () => {
+      expect(interpolateComposeDefinition(null, {})).toBeNull();
+      expect(interpolateComposeDefinition(42, {})).toBe(42);
+    });
+  });
+
+  describe('parseEnvFile', () => {
+    it('should parse assignments, comments, export prefixes and quotes', () => {
+      const content = [
+        '# comment',
+        'TAG=1.2',
+        'export REGISTRY=ghcr.io',
+        "SINGLE='${TAG}'",
+        'DOUBLE="line\\nbreak"',
+        'INLINE=value # trailing comment',
+        '',
+        'invalid line',
+      ].join('\n');
+
+      expect(parseEnvFile(content)).toEqual({
+        TAG: '1.2',
+        REGISTRY: 'ghcr.io',
+        SINGLE: '${TAG}',
+        DOUBLE: 'line\nbreak',
+        INLINE: 'value',
+      });
+    });
+
+    it('should interpolate earlier variables and the given environment', () => {
+      expect(parseEnvFile('BASE=${REGISTRY}/base\nIMAGE=${BASE}:1', { REGISTRY: 'ghcr.io' })).toEqual({
+        BASE: 'ghcr.io/base',
+        IMAGE: 'ghcr.io/base:1',
+      });
+    });
+  });
+
+  describe('loadComposeEnvironment', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      process.env = { TAG: 'from-process' };
+    });
+
+    afterAll(() => {
+      process.env = originalEnv;
+    });
+
+    it('should read the .env file in the project directory', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue('TAG=from-file\nREGISTRY=ghcr.io');
+
+      const environment = loadComposeEnvironment('project');
+
+      expect(fs.existsSync).toHaveBeenCalledWith('project/.env');
+      expect(environment.REGISTRY).toBe('ghcr.io');
+      // Process environment takes precedence over the .env file
+      expect(environment.TAG).toBe('from-process');
+    });
+
+    it('should fall back to the process environment when no .env file exists', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+      expect(loadComposeEnvironment('.')).toEqual({ TAG: 'from-process' });
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should load explicit env files in order instead of the default .env file', () => {
+      (fs.existsSync as jest.Mock).mockImplementation((filePath: string) => filePath !== 'shared/missing.env');
+      (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) =>
+        filePath === 'shared/base.env' ? 'REGISTRY=docker.io\nVERSION=1' : 'REGISTRY=ghcr.io'
+      );
+
+      const environment = loadComposeEnvironment('shared', [
+        'shared/base.env',
+        'shared/missing.env',
+        'shared/override.env',
+      ]);
+
+      expect(fs.existsSync).not.toHaveBeenCalledWith('shared/.env');
+      expect(environment).toEqual({ TAG: 'from-process', REGISTRY: 'ghcr.io', VERSION: '1' });
+    });
+  });
+});
@@ -1,9 +1,12 @@
 import * as core from '@actions/core';
 
 import * as cache from '../src/cache';
+import { compressStreamToFile, decompressFileToStream } from '../src/compression';
+import type { ConcurrencyLimiter } from '../src/concurrency';
 import * as dockerCommand from '../src/docker-command';
 import type { ComposeService } from '../src/docker-compose-file';
-import { processService } from '../src/docker-compose-service-processing';
+import { processService, saveImageToCache } from '../src/docker-compose-service-processing';
+import { removeTempFiles, trackTempFiles } from '../src/temp-files';
 
 jest.mock('@actions/core', () => ({
   info: jest.fn(),
@@ -11,26 +14,52 @@ jest.mock('@actions/core', () => ({
   debug: jest.fn(),
 }));
 
-jest.mock('../src/cache', () => ({
-  generateCacheKey: jest.fn((prefix, name, tag, platform) => `${prefix}-${name}-${tag}-${platform || 'default'}`),
-  generateCacheKeyPrefix: jest.fn((prefix, name, tag, platform) => `${prefix}-${name}-${tag}-${platform || 'default'}`),
-  generateManifestCacheKey: jest.fn(
-    (prefix, name, tag, platform) => `${prefix}-${name}-${tag}-${platform || 'default'}-manifest`
-  ),
-  generateTarPath: jest.fn((name, tag, platform) => `/tmp/${name}-${tag}-${platform || 'default'}.tar`),
-  generateManifestPath: jest.fn((name, tag, platform) => `/tmp/${name}-${tag}-${platform || 'default'}-manifest.json`),
-  restoreFromCache: jest.fn(),
-  saveToCache: jest.fn(),
-  saveManifestToCache: jest.fn(),
-  readManifestFromFile: jest.fn(),
+jest.mock('../src/cache', () => {
+  const { getFamiliarName } = jest.requireActual('../src/image-reference');
+  const toKeyName = (reference: { tag?: string }, platform?: string) =>
+    `${getFamiliarName(reference)}-${reference.tag}-${platform || 'default'}`;
+  const restoreFromCache = jest.fn();
+  return {
+    generateCacheKey: jest.fn((prefix, reference, platform) => `${prefix}-${toKeyName(reference, platform)}`),
+    generateCacheKeyPrefix: jest.fn((prefix, reference, platform) => `${prefix}-${toKeyName(reference, platform)}`),
+    generateManifestCacheKey: jest.fn(
+      (prefix, reference, platform) => `${prefix}-${toKeyName(reference, platform)}-manifest`
+    ),
+    generateTarPath: jest.fn((reference, platform) => `/tmp/${toKeyName(reference, platform)}.tar`),
+    generateManifestPath: jest.fn((reference, platform) => `/tmp/${toKeyName(reference, platform)}-manifest.json`),
+    generateLayerIndexPath: jest.fn((archivePath: string) => archivePath.replace(/\.tar$/, '-layers.json')),
+    restoreFromCache,
+    restoreArchiveFromCache: jest.fn(
+      (archivePath: string, cacheKey: string, _algorithm: string, restoreKeys?: string[]) =>
+        restoreFromCache([archivePath], cacheKey, restoreKeys)
+    ),
+    restoreArchiveFromLayerStore: jest.fn(),
+    lookupInCache: jest.fn(),
+    saveToCache: jest.fn(),
+    saveArchiveToLayerStore: jest.fn(),
+    saveManifestToCache: jest.fn(),
+    readManifestFromFile: jest.fn(),
+  };
+});
+
+jest.mock('../src/compression', () => ({
+  ...jest.requireActual('../src/compression'),
+  compressStreamToFile: jest.fn(),
+  decompressFileToStream: jest.fn(),
+}));
+
+jest.mock('../src/temp-files', () => ({
+  trackTempFiles: jest.fn(),
+  removeTempFiles: jest.fn(),
 }));
 
 jest.mock('../src/docker-command', () => ({
+  formatCommandFailure: jest.requireActual('../src/docker-command').formatCommandFailure,
   inspectImageRemote: jest.fn(),
   inspectImageLocal: jest.fn(),
   pullImage: jest.fn(),
-  saveImageToTar: jest.fn(),
-  loadImageFromTar: jest.fn(),
+  saveImagesToStream: jest.fn(),
+  loadImageFromStream: jest.fn(),
 }));
 
 describe('docker-compose-service-processing', () => {
@@ -39,6 +68,7 @@ describe('docker-compose-service-processing', () => {
   const mockCoreDebug = core.debug as jest.Mock;
 
   const mockCacheRestore = cache.restoreFromCache as jest.Mock;
+  const mockCacheLookup = cache.lookupInCache as jest.Mock;
   const mockCacheSave = cache.saveToCache as jest.Mock;
   const mockSaveManifestToCache = cache.saveManifestToCache as jest.Mock;
   const mockReadManifestFromFile = cache.readManifestFromFile as jest.Mock;
@@ -46,8 +76,10 @@ describe('docker-compose-service-processing', () => {
   const mockInspectImageRemote = dockerCommand.inspectImageRemote as jest.Mock;
   const mockInspectImageLocal = dockerCommand.inspectImageLocal as jest.Mock;
   const mockPullImage = dockerCommand.pullImage as jest.Mock;
-  const mockSaveImageToTar = dockerCommand.saveImageToTar as jest.Mock;
-  const mockLoadImageFromTar = dockerCommand.loadImageFromTar as jest.Mock;
+  const mockSaveImagesToStream = dockerCommand.saveImagesToStream as jest.Mock;
+  const mockLoadImageFromStream = dockerCommand.loadImageFromStream as jest.Mock;
+  const mockCompressStreamToFile = compressStreamToFile as jest.Mock;
+  const mockDecompressFileToStream = decompressFileToStream as jest.Mock;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -75,20 +107,20 @@ describe('docker-compose-service-processing', () => {
       Architecture: 'amd64',
       Os: 'linux',
       RepoTags: ['nginx:latest'],
-      RepoDigests: ['nginx@sha256:testdigest'],
+      RepoDigests: ['nginx@sha256:previousdigest'],
       Created: '2023-01-01T00:00:00Z',
     };
 
     it('should process service with cache miss successfully', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValue({ success: false });
-      mockPullImage.mockResolvedValue(true);
-      mockSaveImageToTar.mockResolvedValue(true);
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImagesToStream.mockResolvedValue({ success: true });
       mockSaveManifestToCache.mockResolvedValue(true);
       mockCacheSave.mockResolvedValue({ success: true });
       mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result).toEqual({
         success: true,
@@ -100,19 +132,19 @@ describe('docker-compose-service-processing', () => {
         imageSize: 1024000,
       });
 
-      expect(mockPullImage).toHaveBeenCalledWith('nginx:latest', undefined);
-      expect(mockSaveImageToTar).toHaveBeenCalled();
+      expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
+      expect(mockSaveImagesToStream).toHaveBeenCalled();
     });
 
     it('should process service with cache hit successfully', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' });
       mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'manifest-cache-key' });
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
       mockReadManifestFromFile.mockResolvedValue(mockManifest);
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result).toEqual({
         success: true,
@@ -124,30 +156,60 @@ describe('docker-compose-service-processing', () => {
         imageSize: 1024000,
       });
 
-      expect(mockLoadImageFromTar).toHaveBeenCalled();
+      expect(mockLoadImageFromStream).toHaveBeenCalled();
       expect(mockPullImage).not.toHaveBeenCalled();
     });
 
     it('should handle service with platform specification', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValue({ success: false });
-      mockPullImage.mockResolvedValue(true);
-      mockSaveImageToTar.mockResolvedValue(true);
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImagesToStream.mockResolvedValue({ success: true });
       mockSaveManifestToCache.mockResolvedValue(true);
       mockCacheSave.mockResolvedValue({ success: true });
       mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-      const result = await processService(serviceWithPlatform, 'test-cache', false);
+      const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
 
       expect(result.platform).toBe('linux/arm64');
       expect(mockCoreInfo).toHaveBeenCalledWith('Using platform linux/arm64 for nginx:latest');
-      expect(mockPullImage).toHaveBeenCalledWith('nginx:latest', 'linux/arm64');
+      expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', 'linux/arm64');
+    });
+
+    it('should parse registry host with port when generating cache key', async () => {
+      mockInspectImageRemote.mockResolvedValue(mockManifest);
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImagesToStream.mockResolvedValue({ success: true });
+      mockCacheSave.mockResolvedValue({ success: true });
+      mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+      const result = await processService('docker', { image: 'localhost:5000/team/api:1.2' }, 'test-cache', false);
+
+      expect(result.success).toBe(true);
+      expect(result.cacheKey).toBe('test-cache-localhost:5000/team/api-1.2-default');
+      expect(mockPullImage).toHaveBeenCalledWith('docker', 'localhost:5000/team/api:1.2', undefined);
+    });
+
+    it('should reject malformed image references', async () => {
+      const result = await processService('docker', { image: 'Invalid Image' }, 'test-cache', false);
+
+      expect(result).toEqual({
+        success: false,
+        restoredFromCache: false,
+        imageName: 'Invalid Image',
+        cacheKey: '',
+        digest: undefined,
+        platform: undefined,
+        error: 'Invalid image name format: Invalid Image',
+      });
+      expect(mockInspectImageRemote).not.toHaveBeenCalled();
     });
 
     it('should handle manifest retrieval failure', async () => {
       mockInspectImageRemote.mockResolvedValue(undefined);
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result).toEqual({
         success: false,
@@ -165,7 +227,7 @@ describe('docker-compose-service-processing', () => {
     it('should handle manifest without digest', async () => {
       mockInspectImageRemote.mockResolvedValue({ schemaVersion: 2 });
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Could not get digest');
@@ -175,10 +237,10 @@ describe('docker-compose-service-processing', () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' });
       mockCacheRestore.mockResolvedValueOnce({ success: false }); // No manifest cache
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-      const result = await processService(serviceDefinition, 'test-cache', true);
+      const result = await processService('docker', serviceDefinition, 'test-cache', true);
 
       expect(result.success).toBe(true);
       expect(result.restoredFromCache).toBe(true);
@@ -186,32 +248,84 @@ describe('docker-compose-service-processing', () => {
       expect(mockReadManifestFromFile).not.toHaveBeenCalled();
     });
 
-    it('should handle manifest mismatch when not skipping latest check', async () => {
+    it('should pull and save a refreshed image under its new digest on manifest mismatch', async () => {
       const cachedManifest = { digest: 'sha256:olddigest' };
       const remoteManifest = { digest: 'sha256:newdigest' };
 
-      mockInspectImageRemote.mockResolvedValue(mockManifest);
+      mockInspectImageRemote.mockResolvedValueOnce(mockManifest); // Digest used for the cache key
+      mockInspectImageRemote.mockResolvedValue(remoteManifest); // Comparison and post-pull verification
       mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' });
       mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'manifest-cache-key' });
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
       mockReadManifestFromFile.mockResolvedValue(cachedManifest);
-      mockInspectImageRemote.mockResolvedValueOnce(remoteManifest); // Second call for comparison
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImagesToStream.mockResolvedValue({ success: true });
+      mockSaveManifestToCache.mockResolvedValue(true);
+      mockCacheSave.mockResolvedValue({ success: true });
+      const mockGenerateCacheKey = cache.generateCacheKey as jest.Mock;
+      mockGenerateCacheKey.mockImplementationOnce(() => 'test-cache-nginx-latest-testdigest');
+      mockGenerateCacheKey.mockImplementationOnce(() => 'test-cache-nginx-latest-newdigest');
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
-      expect(result.success).toBe(true);
-      expect(result.restoredFromCache).toBe(true);
+      expect(result).toEqual({
+        success: true,
+        restoredFromCache: false,
+        outcome: 'refreshed',
+        imageName: 'nginx:latest',
+        cacheKey: 'test-cache-nginx-latest-newdigest',
+        digest: 'sha256:newdigest',
+        platform: undefined,
+        imageSize: 1024000,
+        compressionStats: undefined,
+        pendingSave: undefined,
+      });
       expect(mockCoreInfo).toHaveBeenCalledWith('Manifest mismatch detected for nginx:latest, pulling fresh image');
-      expect(mockPullImage).toHaveBeenCalledWith('nginx:latest', undefined);
+      expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
+      expect(mockGenerateCacheKey).toHaveBeenLastCalledWith(
+        'test-cache',
+        expect.anything(),
+        undefined,
+        'sha256:newdigest'
+      );
+      expect(mockCacheSave).toHaveBeenCalledWith(
+        ['/tmp/nginx-latest-default.tar'],
+        'test-cache-nginx-latest-newdigest'
+      );
+      expect(mockSaveManifestToCache).toHaveBeenCalledWith(
+        remoteManifest,
+        '/tmp/nginx-latest-default-manifest.json',
+        'test-cache-nginx-latest-default-manifest'
+      );
+    });
+
+    it('should record the refreshed image as a pending save when saving is deferred', async () => {
+      mockInspectImageRemote.mockResolvedValueOnce(mockManifest);
+      mockInspectImageRemote.mockResolvedValue({ digest: 'sha256:newdigest' });
+      mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
+      mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+      mockReadManifestFromFile.mockResolvedValue({ digest: 'sha256:olddigest' });
+      mockPullImage.mockResolvedValue({ success: true });
+
+      const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+        deferSave: true,
+      });
+
+      expect(result.outcome).toBe('refreshed');
+      expect(result.pendingSave).toEqual(
+        expect.objectContaining({ imageName: 'nginx:latest', manifest: { digest: 'sha256:newdigest' } })
+      );
+      expect(mockCacheSave).not.toHaveBeenCalled();
     });
 
     it('should handle load from tar failure', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
-      mockLoadImageFromTar.mockResolvedValue(false);
+      mockLoadImageFromStream.mockResolvedValue({ success: false });
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result).toEqual({
         success: false,
@@ -227,14 +341,39 @@ describe('docker-compose-service-processing', () => {
     it('should handle pull image failure', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValue({ success: false });
-      mockPullImage.mockResolvedValue(false);
+      mockPullImage.mockResolvedValue({ success: false });
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Failed to pull image');
     });
 
+    it('should report pulls that timed out in the service result', async () => {
+      mockInspectImageRemote.mockResolvedValue(mockManifest);
+      mockCacheRestore.mockResolvedValue({ success: false });
+      mockPullImage.mockResolvedValue({ success: false, error: 'docker pull nginx:latest timed out after 1800 s' });
+
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Failed to pull image: nginx:latest (docker pull nginx:latest timed out after 1800 s)');
+    });
+
+    it('should report loads that timed out in the service result', async () => {
+      mockInspectImageRemote.mockResolvedValue(mockManifest);
+      mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+      mockLoadImageFromStream.mockResolvedValue({
+        success: false,
+        error: 'docker load timed out after 1800 s',
+      });
+
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Failed to load image from cache: nginx:latest (docker load timed out after 1800 s)');
+    });
+
     it('should handle manifest loading failure for cached image', async () => {
       mockInspectImageRemote
         .mockResolvedValueOnce(mockManifest) // First call succeeds (for initial manifest)
@@ -242,10 +381,10 @@ describe('docker-compose-service-processing', () => {
       mockCacheRestore
         .mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' }) // Image cache hit
         .mockResolvedValueOnce({ success: true, cacheKey: 'manifest-cache-key' }); // Manifest cache hit
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockReadManifestFromFile.mockResolvedValue(undefined); // No cached manifest
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(true);
       expect(result.restoredFromCache).toBe(true);
@@ -259,10 +398,10 @@ describe('docker-compose-service-processing', () => {
       mockCacheRestore
         .mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' }) // Image cache hit
         .mockResolvedValueOnce({ success: true, cacheKey: 'manifest-cache-key' }); // Manifest cache hit
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockReadManifestFromFile.mockResolvedValue(mockManifest);
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(true);
       expect(result.restoredFromCache).toBe(true);
@@ -275,24 +414,28 @@ describe('docker-compose-service-processing', () => {
 
       mockInspectImageRemote.mockResolvedValue(remoteManifest);
       mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
-      mockLoadImageFromTar.mockResolvedValue(true);
+      mockLoadImageFromStream.mockResolvedValue({ success: true });
       mockReadManifestFromFile.mockResolvedValue(cachedManifest);
-      mockPullImage.mockResolvedValue(false); // Pull fails
+      mockPullImage.mockResolvedValue({ success: false }); // Pull fails
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(true);
       expect(result.restoredFromCache).toBe(true);
-      expect(mockCoreWarning).toHaveBeenCalledWith('Failed to pull updated image nginx:latest');
+      expect(result.outcome).toBeUndefined();
+      expect(mockCoreWarning).toHaveBeenCalledWith(
+        'Failed to refresh stale image nginx:latest: Failed to pull image: nginx:latest'
+      );
+      expect(mockCacheSave).not.toHaveBeenCalled();
     });
 
     it('should handle save image to tar failure', async () => {
       mockInspectImageRemote.mockResolvedValue(mockManifest);
       mockCacheRestore.mockResolvedValue({ success: false });
-      mockPullImage.mockResolvedValue(true);
-      mockSaveImageToTar.mockResolvedValue(false);
+      mockPullImage.mockResolvedValue({ success: true });
+      mockSaveImagesToStream.mockResolvedValue({ success: false });
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Failed to save image to tar');
@@ -304,9 +447,9 @@ describe('docker-compose-service-processing', () => {
 
       mockInspectImageRemote.mockResolvedValueOnce(initialManifest).mockResolvedValueOnce(afterPullManifest);
       mockCacheRestore.mockResolvedValue({ success: false });
-      mockPullImage.mockResolvedValue(true);
+      mockPullImage.mockResolvedValue({ success: true });
 
-      const result = await processService(serviceDefinition, 'test-cache', false);
+      const result = await processService('docker', serviceDefinition, 'test-cache', false);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Digest mismatch');
@@ -315,13 +458,13 @@ describe('docker-compose-service-processing', () => {
     describe('force refresh', () => {
       it('should skip cache restore when force refresh is enabled', async () => {
         mockInspectImageRemote.mockResolvedValue(mockManifest);
-        mockPullImage.mockResolvedValue(true);
-        mockSaveImageToTar.mockResolvedValue(true);
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
         mockSaveManifestToCache.mockResolvedValue(true);
         mockCacheSave.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-        const result = await processService(serviceDefinition, 'test-cache', false, true);
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, true);
 
         expect(result).toEqual({
           success: true,
@@ -336,7 +479,7 @@ describe('docker-compose-service-processing', () => {
         // Cache restore should NOT be called when force refresh is enabled
         expect(mockCacheRestore).not.toHaveBeenCalled();
         // Image should be pulled
-        expect(mockPullImage).toHaveBeenCalledWith('nginx:latest', undefined);
+        expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
         // Image should be saved to cache
         expect(mockCacheSave).toHaveBeenCalled();
         // Info message should indicate force refresh
@@ -345,25 +488,25 @@ describe('docker-compose-service-processing', () => {
 
       it('should still save to cache when force refresh pulls image', async () => {
         mockInspectImageRemote.mockResolvedValue(mockManifest);
-        mockPullImage.mockResolvedValue(true);
-        mockSaveImageToTar.mockResolvedValue(true);
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
         mockSaveManifestToCache.mockResolvedValue(true);
         mockCacheSave.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-        await processService(serviceDefinition, 'test-cache', false, true);
+        await processService('docker', serviceDefinition, 'test-cache', false, true);
 
         // Verify image is saved to cache for future use
-        expect(mockSaveImageToTar).toHaveBeenCalled();
+        expect(mockSaveImagesToStream).toHaveBeenCalled();
         expect(mockCacheSave).toHaveBeenCalled();
         expect(mockSaveManifestToCache).toHaveBeenCalled();
       });
 
       it('should handle pull failure with force refresh', async () => {
         mockInspectImageRemote.mockResolvedValue(mockManifest);
-        mockPullImage.mockResolvedValue(false);
+        mockPullImage.mockResolvedValue({ success: false });
 
-        const result = await processService(serviceDefinition, 'test-cache', false, true);
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, true);
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('Failed to pull image');
@@ -372,17 +515,17 @@ describe('docker-compose-service-processing', () => {
 
       it('should work with platform-specific images and force refresh', async () => {
         mockInspectImageRemote.mockResolvedValue(mockManifest);
-        mockPullImage.mockResolvedValue(true);
-        mockSaveImageToTar.mockResolvedValue(true);
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
         mockSaveManifestToCache.mockResolvedValue(true);
         mockCacheSave.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-        const result = await processService(serviceWithPlatform, 'test-cache', false, true);
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, true);
 
         expect(result.success).toBe(true);
         expect(result.platform).toBe('linux/arm64');
-        expect(mockPullImage).toHaveBeenCalledWith('nginx:latest', 'linux/arm64');
+        expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', 'linux/arm64');
         expect(mockCacheRestore).not.toHaveBeenCalled();
       });
 
@@ -390,17 +533,954 @@ describe('docker-compose-service-processing', () => {
         mockInspectImageRemote.mockResolvedValue(mockManifest);
         mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'cache-key' });
         mockCacheRestore.mockResolvedValueOnce({ success: true, cacheKey: 'manifest-cache-key' });
-        mockLoadImageFromTar.mockResolvedValue(true);
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
         mockReadManifestFromFile.mockResolvedValue(mockManifest);
 
-        const result = await processService(serviceDefinition, 'test-cache', false, false);
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false);
 
         expect(result.success).toBe(true);
         expect(result.restoredFromCache).toBe(true);
         // Cache restore SHOULD be called when force refresh is false
         expect(mockCacheRestore).toHaveBeenCalled();
-        expect(mockLoadImageFromTar).toHaveBeenCalled();
+        expect(mockLoadImageFromStream).toHaveBeenCalled();
+      });
+    });
+
+    describe('digest-pinned images', () => {
+      const pinnedDigest = 'sha256:4bcff63911fcb4448bd4fdacec207030997caf25e9bea4045fa6c8c44de311d1';
+      const pinnedService: ComposeService = { image: `postgres:16@${pinnedDigest}` };
+
+      it('should restore from cache without contacting the registry', async () => {
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', pinnedService, 'test-cache', false);
+
+        expect(result).toEqual({
+          success: true,
+          restoredFromCache: true,
+          imageName: `postgres:16@${pinnedDigest}`,
+          cacheKey: 'test-cache-postgres-16-default',
+          digest: pinnedDigest,
+          platform: undefined,
+          imageSize: 1024000,
+        });
+        expect(mockInspectImageRemote).not.toHaveBeenCalled();
+        expect(mockReadManifestFromFile).not.toHaveBeenCalled();
+        // Only the image tarball is restored; the manifest is not needed for pinned images
+        expect(mockCacheRestore).toHaveBeenCalledTimes(1);
+        expect(mockCoreInfo).toHaveBeenCalledWith(
+          `postgres:16@${pinnedDigest} is pinned by digest, using cached version`
+        );
+      });
+
+      it('should use the pinned digest for cache key generation', async () => {
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+
+        await processService('docker', { image: `ghcr.io/org/app@${pinnedDigest}` }, 'test-cache', false);
+
+        expect(cache.generateCacheKey).toHaveBeenCalledWith(
+          'test-cache',
+          expect.objectContaining({ registry: 'ghcr.io', repository: 'org/app', digest: pinnedDigest }),
+          undefined,
+          pinnedDigest
+        );
+      });
+
+      it('should pull and cache without digest verification on cache miss', async () => {
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', pinnedService, 'test-cache', false);
+
+        expect(result.success).toBe(true);
+        expect(result.restoredFromCache).toBe(false);
+        expect(result.digest).toBe(pinnedDigest);
+        expect(mockPullImage).toHaveBeenCalledWith('docker', `postgres:16@${pinnedDigest}`, undefined);
+        expect(mockInspectImageRemote).not.toHaveBeenCalled();
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+        expect(mockCacheSave).toHaveBeenCalled();
+      });
+    });
+
+    describe('deferred save', () => {
+      it('should pull without saving and return the pending save on cache miss', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          deferSave: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.pendingSave).toEqual({
+          imageName: 'nginx:latest',
+          imageCacheKey: 'test-cache-nginx-latest-default',
+          imageTarPath: '/tmp/nginx-latest-default.tar',
+          manifestCacheKey: 'test-cache-nginx-latest-default-manifest',
+          manifestPath: '/tmp/nginx-latest-default-manifest.json',
+          manifest: mockManifest,
+          compression: { algorithm: 'none', level: 0 },
+          keepTempFiles: false,
+        });
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+      });
+
+      it('should not return a pending save on cache hit', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockReadManifestFromFile.mockResolvedValue(mockManifest);
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          deferSave: true,
+        });
+
+        expect(result.restoredFromCache).toBe(true);
+        expect(result.pendingSave).toBeUndefined();
+      });
+    });
+
+    describe('saveImageToCache', () => {
+      const pendingSave = {
+        imageName: 'nginx:latest',
+        imageCacheKey: 'image-key',
+        imageTarPath: '/tmp/nginx.tar',
+        manifestCacheKey: 'manifest-key',
+        manifestPath: '/tmp/nginx-manifest.json',
+        manifest: mockManifest,
+      };
+
+      it('should save the image tar and manifest to cache', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await saveImageToCache('docker', pendingSave);
+
+        expect(result).toEqual({ success: true });
+        expect(mockSaveImagesToStream).toHaveBeenCalledWith('docker', ['nginx:latest'], expect.any(Function));
+        expect(mockSaveManifestToCache).toHaveBeenCalledWith(mockManifest, '/tmp/nginx-manifest.json', 'manifest-key');
+        expect(mockCacheSave).toHaveBeenCalledWith(['/tmp/nginx.tar'], 'image-key');
+        expect(mockCoreInfo).toHaveBeenCalledWith('Cached nginx:latest with key image-key');
+      });
+
+      it('should skip the manifest when none is recorded', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        await saveImageToCache('docker', { ...pendingSave, manifest: undefined });
+
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+      });
+
+      it('should save all bundled images into a single tar file', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await saveImageToCache('docker', {
+          imageName: 'bundle of 2 images',
+          bundledImageNames: ['nginx:latest', 'redis:alpine'],
+          imageCacheKey: 'bundle-key',
+          imageTarPath: '/tmp/bundle.tar',
+        });
+
+        expect(result).toEqual({ success: true });
+        expect(mockSaveImagesToStream).toHaveBeenCalledWith(
+          'docker',
+          ['nginx:latest', 'redis:alpine'],
+          expect.any(Function)
+        );
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+        expect(mockCacheSave).toHaveBeenCalledWith(['/tmp/bundle.tar'], 'bundle-key');
+      });
+
+      it('should save the image tar to the layer store when a layer cache key prefix is recorded', async () => {
+        const mockSaveArchiveToLayerStore = cache.saveArchiveToLayerStore as jest.Mock;
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockSaveArchiveToLayerStore.mockResolvedValue({ success: true, cacheKey: 'image-key' });
+
+        const result = await saveImageToCache('docker', { ...pendingSave, layerCacheKeyPrefix: 'test-cache' });
+
+        expect(result).toEqual({ success: true });
+        expect(mockSaveArchiveToLayerStore).toHaveBeenCalledWith('/tmp/nginx.tar', 'image-key', 'test-cache');
+        expect(mockCacheSave).not.toHaveBeenCalled();
+        expect(mockCoreInfo).toHaveBeenCalledWith('Cached nginx:latest with key image-key');
+      });
+
+      it('should stream the image through compression and cache the compressed file', async () => {
+        const archiveStream = { stream: 'docker save stdout' };
+        mockSaveImagesToStream.mockImplementation(async (_runtime, _imageNames, writeArchive) => {
+          await writeArchive(archiveStream);
+          return { success: true };
+        });
+        mockCompressStreamToFile.mockResolvedValue({ rawSize: 4096, compressedSize: 1024 });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await saveImageToCache('docker', {
+          ...pendingSave,
+          compression: { algorithm: 'gzip', level: 9 },
+        });
+
+        expect(result).toEqual({ success: true, compressionStats: { rawSize: 4096, compressedSize: 1024 } });
+        expect(mockSaveImagesToStream).toHaveBeenCalledWith('docker', ['nginx:latest'], expect.any(Function));
+        expect(mockCompressStreamToFile).toHaveBeenCalledWith(archiveStream, '/tmp/nginx.tar.gz', {
+          algorithm: 'gzip',
+          level: 9,
+        });
+        expect(mockCacheSave).toHaveBeenCalledWith(['/tmp/nginx.tar.gz'], 'image-key');
+        expect(mockCoreInfo).toHaveBeenCalledWith('Compressed nginx:latest with gzip level 9: 1 KB from 4 KB');
+      });
+
+      it('should fail without caching when the compressed image cannot be written', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: false });
+
+        const result = await saveImageToCache('docker', {
+          ...pendingSave,
+          compression: { algorithm: 'gzip', level: 6 },
+        });
+
+        expect(result).toEqual({ success: false, error: 'Failed to save compressed image: nginx:latest' });
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+
+      it('should fail when the image cannot be exported', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: false });
+
+        const result = await saveImageToCache('docker', pendingSave);
+
+        expect(result).toEqual({ success: false, error: 'Failed to save image to tar: nginx:latest' });
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('restore mode', () => {
+      it('should report a cache miss without pulling', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'restore',
+        });
+
+        expect(result).toEqual({
+          success: true,
+          restoredFromCache: false,
+          outcome: 'cache-miss',
+          imageName: 'nginx:latest',
+          cacheKey: 'test-cache-nginx-latest-default',
+          digest: 'sha256:testdigest',
+          platform: undefined,
+        });
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+
+      it('should keep the cached image on manifest mismatch without pulling', async () => {
+        mockInspectImageRemote
+          .mockResolvedValueOnce(mockManifest)
+          .mockResolvedValueOnce({ digest: 'sha256:newdigest' });
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+        mockReadManifestFromFile.mockResolvedValue({ digest: 'sha256:olddigest' });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'restore',
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.restoredFromCache).toBe(true);
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockCoreWarning).toHaveBeenCalledWith(
+          'Manifest mismatch detected for nginx:latest, using cached version without pulling'
+        );
+      });
+    });
+
+    describe('lookup-only mode', () => {
+      it('should report an existing entry as would hit without downloading it', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheLookup.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-default' });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'lookup-only',
+        });
+
+        expect(result).toEqual({
+          success: true,
+          restoredFromCache: false,
+          outcome: 'would-hit',
+          imageName: 'nginx:latest',
+          cacheKey: 'test-cache-nginx-latest-default',
+          digest: 'sha256:testdigest',
+          platform: undefined,
+        });
+        expect(mockCacheLookup).toHaveBeenCalledWith(
+          ['/tmp/nginx-latest-default.tar'],
+          'test-cache-nginx-latest-default'
+        );
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockLoadImageFromStream).not.toHaveBeenCalled();
+        expect(mockPullImage).not.toHaveBeenCalled();
+      });
+
+      it('should report a missing entry as would miss', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheLookup.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'lookup-only',
+        });
+
+        expect(result.outcome).toBe('would-miss');
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('locally present images', () => {
+      const presentImageInfo = {
+        ...mockInspectInfo,
+        Architecture: 'arm64',
+        RepoDigests: ['docker.io/library/nginx@sha256:testdigest'],
+      };
+
+      it('should skip restoring, pulling and saving a cached image present with the remote digest', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(presentImageInfo);
+        mockCacheLookup.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
+
+        expect(result).toEqual({
+          success: true,
+          restoredFromCache: false,
+          outcome: 'present',
+          imageName: 'nginx:latest',
+          cacheKey: 'test-cache-nginx-latest-linux/arm64',
+          digest: 'sha256:testdigest',
+          platform: 'linux/arm64',
+          imageSize: 1024000,
+        });
+        expect(mockInspectImageLocal).toHaveBeenCalledWith('docker', 'nginx:latest', false);
+        expect(mockCacheLookup).toHaveBeenCalledWith([expect.any(String)], 'test-cache-nginx-latest-linux/arm64');
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockLoadImageFromStream).not.toHaveBeenCalled();
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+
+      it('should save a present image that is not cached yet without pulling it', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(presentImageInfo);
+        mockCacheLookup.mockResolvedValue({ success: false });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
+
+        expect(result).toEqual(
+          expect.objectContaining({
+            success: true,
+            restoredFromCache: false,
+            outcome: 'saved',
+            cacheKey: 'test-cache-nginx-latest-linux/arm64',
+            digest: 'sha256:testdigest',
+          })
+        );
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockSaveImagesToStream).toHaveBeenCalledWith('docker', ['nginx:latest'], expect.any(Function));
+        expect(mockCacheSave).toHaveBeenCalledWith(expect.any(Array), 'test-cache-nginx-latest-linux/arm64');
+      });
+
+      it('should defer saving a present image that is not cached yet', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(presentImageInfo);
+        mockCacheLookup.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          deferSave: true,
+        });
+
+        expect(result.outcome).toBe('saved');
+        expect(result.pendingSave?.imageCacheKey).toBe('test-cache-nginx-latest-linux/arm64');
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+
+      it('should skip restoring a present image in restore mode', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(presentImageInfo);
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'restore',
+        });
+
+        expect(result.outcome).toBe('present');
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockCacheLookup).not.toHaveBeenCalled();
+      });
+
+      it('should restore the image when the local image has another digest', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue({ ...presentImageInfo, RepoDigests: ['nginx@sha256:previousdigest'] });
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-linux/arm64' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockReadManifestFromFile.mockResolvedValue(mockManifest);
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
+
+        expect(result.outcome).toBeUndefined();
+        expect(result.restoredFromCache).toBe(true);
+        expect(mockLoadImageFromStream).toHaveBeenCalled();
+      });
+
+      it('should restore the image when the local image has another architecture', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue({ ...presentImageInfo, Architecture: 'amd64' });
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-linux/arm64' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockReadManifestFromFile.mockResolvedValue(mockManifest);
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
+
+        expect(result.restoredFromCache).toBe(true);
+      });
+
+      it('should restore the image when the local image has no registry digests', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue({ ...presentImageInfo, RepoDigests: null });
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false);
+
+        expect(result.outcome).toBeUndefined();
+        expect(mockCacheRestore).toHaveBeenCalled();
+      });
+
+      it('should pull a present image when force refresh is enabled', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(presentImageInfo);
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, true);
+
+        expect(result.outcome).toBeUndefined();
+        expect(mockPullImage).toHaveBeenCalledWith('docker', 'nginx:latest', 'linux/arm64');
+        expect(mockInspectImageLocal).not.toHaveBeenCalledWith('docker', 'nginx:latest', false);
+      });
+    });
+
+    describe('compression', () => {
+      const compression = { algorithm: 'zstd', level: 19 } as const;
+
+      it('should restore the compressed tar file and decompress it into docker load on cache hit', async () => {
+        const mockRestoreArchiveFromCache = cache.restoreArchiveFromCache as jest.Mock;
+        const loadStream = { stream: 'docker load stdin' };
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockImplementation(async (_runtime, readArchive) => {
+          await readArchive(loadStream);
+          return { success: true };
+        });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false, { compression });
+
+        expect(result.restoredFromCache).toBe(true);
+        expect(mockRestoreArchiveFromCache).toHaveBeenCalledWith(
+          '/tmp/nginx-latest-default.tar',
+          'test-cache-nginx-latest-default',
+          'zstd'
+        );
+        expect(mockDecompressFileToStream).toHaveBeenCalledWith(
+          '/tmp/nginx-latest-default.tar.zst',
+          loadStream,
+          'zstd'
+        );
+      });
+
+      it('should fail when the compressed tar file cannot be loaded', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false, { compression });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Failed to load image from cache: nginx:latest');
+      });
+
+      it('should report compression stats of images saved on cache miss', async () => {
+        mockSaveImagesToStream.mockImplementation(async (_runtime, _imageNames, writeArchive) => {
+          await writeArchive({});
+          return { success: true };
+        });
+        mockCompressStreamToFile.mockResolvedValue({ rawSize: 4096, compressedSize: 1024 });
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, { compression });
+
+        expect(result.compressionStats).toEqual({ rawSize: 4096, compressedSize: 1024 });
+        expect(mockCacheSave).toHaveBeenCalledWith(
+          ['/tmp/nginx-latest-default.tar.zst'],
+          'test-cache-nginx-latest-default'
+        );
+      });
+
+      it('should look up the compressed tar file in lookup-only mode', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheLookup.mockResolvedValue({ success: false });
+
+        await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'lookup-only',
+          compression,
+        });
+
+        expect(mockCacheLookup).toHaveBeenCalledWith(
+          ['/tmp/nginx-latest-default.tar.zst'],
+          'test-cache-nginx-latest-default'
+        );
+      });
+    });
+
+    describe('temporary files', () => {
+      const mockRemoveTempFiles = removeTempFiles as jest.Mock;
+
+      it('should remove the restored tar file after loading it', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        await processService('docker', serviceDefinition, 'test-cache', true);
+
+        expect(mockRemoveTempFiles).toHaveBeenCalledWith(['/tmp/nginx-latest-default.tar']);
+        expect(mockLoadImageFromStream.mock.invocationCallOrder[0]).toBeLessThan(
+          mockRemoveTempFiles.mock.invocationCallOrder[0] ?? 0
+        );
+      });
+
+      it('should keep the restored tar file when keepTempFiles is enabled', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        await processService('docker', serviceDefinition, 'test-cache', true, false, { keepTempFiles: true });
+
+        expect(mockRemoveTempFiles).not.toHaveBeenCalled();
+      });
+
+      it('should track the exported tar file and remove it with the manifest once cached', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        await saveImageToCache('docker', {
+          imageName: 'nginx:latest',
+          imageCacheKey: 'image-key',
+          imageTarPath: '/tmp/nginx.tar',
+          manifestCacheKey: 'manifest-key',
+          manifestPath: '/tmp/nginx-manifest.json',
+          manifest: mockManifest,
+        });
+
+        expect(trackTempFiles).toHaveBeenCalledWith(['/tmp/nginx.tar']);
+        expect(mockRemoveTempFiles).toHaveBeenCalledWith(['/tmp/nginx.tar', '/tmp/nginx-manifest.json']);
+      });
+
+      it('should remove a partially exported tar file', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: false });
+
+        await saveImageToCache('docker', {
+          imageName: 'nginx:latest',
+          imageCacheKey: 'image-key',
+          imageTarPath: '/tmp/nginx.tar',
+        });
+
+        expect(mockRemoveTempFiles).toHaveBeenCalledWith(['/tmp/nginx.tar']);
+      });
+
+      it('should keep saved files when the pending save keeps temporary files', async () => {
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        await saveImageToCache('docker', {
+          imageName: 'nginx:latest',
+          imageCacheKey: 'image-key',
+          imageTarPath: '/tmp/nginx.tar',
+          keepTempFiles: true,
+        });
+
+        expect(mockRemoveTempFiles).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('layer store', () => {
+      const mockRestoreArchiveFromLayerStore = cache.restoreArchiveFromLayerStore as jest.Mock;
+      const mockSaveArchiveToLayerStore = cache.saveArchiveToLayerStore as jest.Mock;
+
+      it('should restore the image archive from the layer store on cache hit', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockRestoreArchiveFromLayerStore.mockResolvedValue({
+          success: true,
+          cacheKey: 'test-cache-nginx-latest-default',
+        });
+        mockCacheRestore.mockResolvedValue({ success: false });
+        const loadStream = { stream: 'docker load stdin' };
+        mockLoadImageFromStream.mockImplementation(async (_runtime, readArchive) => {
+          await readArchive(loadStream);
+          return { success: true };
+        });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          cacheStrategy: 'layers',
+        });
+
+        expect(result.restoredFromCache).toBe(true);
+        expect(mockRestoreArchiveFromLayerStore).toHaveBeenCalledWith(
+          '/tmp/nginx-latest-default.tar',
+          'test-cache-nginx-latest-default'
+        );
+        expect(mockCacheRestore).not.toHaveBeenCalledWith(['/tmp/nginx-latest-default.tar'], expect.anything());
+        expect(mockDecompressFileToStream).toHaveBeenCalledWith('/tmp/nginx-latest-default.tar', loadStream, 'none');
+      });
+
+      it('should save the pulled image to the layer store on cache miss', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockRestoreArchiveFromLayerStore.mockResolvedValue({ success: false });
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockSaveArchiveToLayerStore.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-default' });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          cacheStrategy: 'layers',
+        });
+
+        expect(result.success).toBe(true);
+        expect(mockSaveArchiveToLayerStore).toHaveBeenCalledWith(
+          '/tmp/nginx-latest-default.tar',
+          'test-cache-nginx-latest-default',
+          'test-cache'
+        );
+        expect(mockCacheSave).not.toHaveBeenCalled();
+      });
+
+      it('should record the layer cache key prefix in deferred saves', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockRestoreArchiveFromLayerStore.mockResolvedValue({ success: false });
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          cacheStrategy: 'layers',
+          deferSave: true,
+        });
+
+        expect(result.pendingSave?.layerCacheKeyPrefix).toBe('test-cache');
+      });
+
+      it('should look up the layer index in lookup-only mode', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheLookup.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-default' });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          mode: 'lookup-only',
+          cacheStrategy: 'layers',
+        });
+
+        expect(result.outcome).toBe('would-hit');
+        expect(mockCacheLookup).toHaveBeenCalledWith(
+          ['/tmp/nginx-latest-default-layers.json'],
+          'test-cache-nginx-latest-default'
+        );
+      });
+
+      it('should not fall back to cached versions when the registry is unavailable', async () => {
+        mockInspectImageRemote.mockResolvedValue(undefined);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false, {
+          cacheStrategy: 'layers',
+        });
+
+        expect(result.success).toBe(false);
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockRestoreArchiveFromLayerStore).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('save mode', () => {
+      const localImageInfo = {
+        ...mockInspectInfo,
+        Architecture: 'arm64',
+        RepoDigests: ['nginx@sha256:testdigest'],
+      };
+
+      it('should save a locally present image without restoring or pulling', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(localImageInfo);
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result).toEqual({
+          success: true,
+          restoredFromCache: false,
+          outcome: 'saved',
+          imageName: 'nginx:latest',
+          cacheKey: 'test-cache-nginx-latest-linux/arm64',
+          digest: 'sha256:testdigest',
+          platform: 'linux/arm64',
+          imageSize: 1024000,
+          pendingSave: undefined,
+        });
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+        expect(mockPullImage).not.toHaveBeenCalled();
+        expect(mockSaveManifestToCache).toHaveBeenCalledWith(
+          mockManifest,
+          '/tmp/nginx-latest-linux/arm64-manifest.json',
+          'test-cache-nginx-latest-linux/arm64-manifest'
+        );
+        expect(mockCacheSave).toHaveBeenCalledWith(
+          ['/tmp/nginx-latest-linux/arm64.tar'],
+          'test-cache-nginx-latest-linux/arm64'
+        );
+      });
+
+      it('should skip images that are not present locally', async () => {
+        mockInspectImageLocal.mockResolvedValue(undefined);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, { mode: 'save' });
+
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe('not-present');
+        expect(mockInspectImageRemote).not.toHaveBeenCalled();
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+        expect(mockCoreWarning).toHaveBeenCalledWith('nginx:latest is not present locally, skipping save');
+      });
+
+      it('should skip local images that do not match the registry digest', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue({ ...localImageInfo, RepoDigests: ['nginx@sha256:previousdigest'] });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.outcome).toBe('not-present');
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+        expect(mockCoreWarning).toHaveBeenCalledWith(
+          'nginx:latest present locally does not match digest sha256:testdigest, skipping save'
+        );
+      });
+
+      it('should skip local images built for another platform', async () => {
+        mockInspectImageLocal.mockResolvedValue({ ...localImageInfo, Architecture: 'amd64' });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result.outcome).toBe('not-present');
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+        expect(mockCoreWarning).toHaveBeenCalledWith(
+          'nginx:latest is present locally for linux/amd64 instead of the target platform, skipping save'
+        );
+      });
+
+      it('should save under the local digest when the registry is unavailable', async () => {
+        mockInspectImageRemote.mockResolvedValue(undefined);
+        mockInspectImageLocal.mockResolvedValue({
+          ...localImageInfo,
+          RepoDigests: ['ghcr.io/org/nginx@sha256:otherrepository', 'docker.io/library/nginx@sha256:localdigest'],
+        });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', true, false, {
+          mode: 'save',
+        });
+
+        expect(result).toEqual(
+          expect.objectContaining({ success: true, outcome: 'saved', digest: 'sha256:localdigest' })
+        );
+        expect(cache.generateCacheKey).toHaveBeenCalledWith(
+          'test-cache',
+          expect.objectContaining({ repository: 'library/nginx' }),
+          'linux/arm64',
+          'sha256:localdigest'
+        );
+        expect(mockSaveManifestToCache).toHaveBeenCalledWith(
+          { digest: 'sha256:localdigest' },
+          '/tmp/nginx-latest-linux/arm64-manifest.json',
+          'test-cache-nginx-latest-linux/arm64-manifest'
+        );
+        expect(mockCacheRestore).not.toHaveBeenCalled();
+      });
+
+      it('should save images that were never pushed under their image ID', async () => {
+        mockInspectImageRemote.mockResolvedValue(undefined);
+        mockInspectImageLocal.mockResolvedValue({ ...localImageInfo, RepoDigests: [] });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result).toEqual(expect.objectContaining({ success: true, outcome: 'saved', digest: 'sha256:imageid' }));
+        expect(mockSaveManifestToCache).not.toHaveBeenCalled();
+      });
+
+      it('should skip images with several local digests when the registry is unavailable', async () => {
+        mockInspectImageRemote.mockResolvedValue(undefined);
+        mockInspectImageLocal.mockResolvedValue({
+          ...localImageInfo,
+          RepoDigests: ['nginx@sha256:listdigest', 'nginx@sha256:instancedigest'],
+        });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result.outcome).toBe('not-present');
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+      });
+
+      it('should only save digest-pinned images present with the pinned digest', async () => {
+        const pinnedService: ComposeService = {
+          image: 'nginx@sha256:4bcff63911fcb4448bd4fdacec207030997caf25e9bea4045fa6c8c44de311d1',
+          platform: 'linux/arm64',
+        };
+        mockInspectImageLocal.mockResolvedValue(localImageInfo);
+
+        const result = await processService('docker', pinnedService, 'test-cache', false, false, { mode: 'save' });
+
+        expect(result.outcome).toBe('not-present');
+        expect(mockInspectImageRemote).not.toHaveBeenCalled();
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+      });
+
+      it('should report export failures as errors', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(localImageInfo);
+        mockSaveImagesToStream.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Failed to save image to tar: nginx:latest');
+      });
+
+      it('should record a pending save when saving is deferred', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockInspectImageLocal.mockResolvedValue(localImageInfo);
+
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', false, false, {
+          mode: 'save',
+          deferSave: true,
+        });
+
+        expect(result.outcome).toBe('saved');
+        expect(result.pendingSave).toEqual(
+          expect.objectContaining({ imageName: 'nginx:latest', manifest: mockManifest })
+        );
+        expect(mockSaveImagesToStream).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('operation limiters', () => {
+      /**
+       * Creates limiters that record which operations run through them.
+       */
+      const createRecordingLimiters = (limitedOperations: string[]) => {
+        const createLimiter =
+          (operation: string): ConcurrencyLimiter =>
+          (task) => {
+            limitedOperations.push(operation);
+            return task();
+          };
+        return { restore: createLimiter('restore'), pull: createLimiter('pull'), save: createLimiter('save') };
+      };
+
+      it('should run restores, pulls and saves through their limiters on cache miss', async () => {
+        const limitedOperations: string[] = [];
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: true });
+        mockCacheSave.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          operationLimiters: createRecordingLimiters(limitedOperations),
+        });
+
+        expect(result.success).toBe(true);
+        expect(limitedOperations).toEqual(['restore', 'restore', 'pull', 'save']);
+      });
+
+      it('should run image loads through the restore limiter on cache hit', async () => {
+        const limitedOperations: string[] = [];
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
+        mockReadManifestFromFile.mockResolvedValue(mockManifest);
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
+        mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          operationLimiters: createRecordingLimiters(limitedOperations),
+        });
+
+        expect(result.restoredFromCache).toBe(true);
+        expect(limitedOperations).toEqual(['restore', 'restore', 'restore']);
+      });
+
+      it('should report save failures from within the save limiter', async () => {
+        mockInspectImageRemote.mockResolvedValue(mockManifest);
+        mockCacheRestore.mockResolvedValue({ success: false });
+        mockPullImage.mockResolvedValue({ success: true });
+        mockSaveImagesToStream.mockResolvedValue({ success: false });
+
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false, {
+          operationLimiters: createRecordingLimiters([]),
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Failed to save image to tar: nginx:latest');
+        expect(mockCacheSave).not.toHaveBeenCalled();
       });
     });
 
@@ -410,10 +1490,10 @@ describe('docker-compose-service-processing', () => {
         mockInspectImageRemote.mockResolvedValue(undefined);
         // Cache hit with prefix matching
         mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-default-abc123' });
-        mockLoadImageFromTar.mockResolvedValue(true);
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-        const result = await processService(serviceDefinition, 'test-cache', true, false);
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false);
 
         expect(result.success).toBe(true);
         expect(result.restoredFromCache).toBe(true);
@@ -429,7 +1509,7 @@ describe('docker-compose-service-processing', () => {
         // Cache miss
         mockCacheRestore.mockResolvedValue({ success: false });
 
-        const result = await processService(serviceDefinition, 'test-cache', true, false);
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false);
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('Could not get digest');
@@ -440,7 +1520,7 @@ describe('docker-compose-service-processing', () => {
         // Registry unavailable
         mockInspectImageRemote.mockResolvedValue(undefined);
 
-        const result = await processService(serviceDefinition, 'test-cache', false, false);
+        const result = await processService('docker', serviceDefinition, 'test-cache', false, false);
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('Could not get digest');
@@ -452,7 +1532,7 @@ describe('docker-compose-service-processing', () => {
         // Registry unavailable
         mockInspectImageRemote.mockResolvedValue(undefined);
 
-        const result = await processService(serviceDefinition, 'test-cache', true, true);
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, true);
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('Could not get digest');
@@ -466,9 +1546,9 @@ describe('docker-compose-service-processing', () => {
         // Cache hit
         mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'cache-key' });
         // But image load fails
-        mockLoadImageFromTar.mockResolvedValue(false);
+        mockLoadImageFromStream.mockResolvedValue({ success: false });
 
-        const result = await processService(serviceDefinition, 'test-cache', true, false);
+        const result = await processService('docker', serviceDefinition, 'test-cache', true, false);
 
         expect(result.success).toBe(false);
         expect(result.error).toContain('Could not get digest');
@@ -479,10 +1559,10 @@ describe('docker-compose-service-processing', () => {
         mockInspectImageRemote.mockResolvedValue(undefined);
         // Cache hit
         mockCacheRestore.mockResolvedValue({ success: true, cacheKey: 'test-cache-nginx-latest-linux/arm64-abc123' });
-        mockLoadImageFromTar.mockResolvedValue(true);
+        mockLoadImageFromStream.mockResolvedValue({ success: true });
         mockInspectImageLocal.mockResolvedValue(mockInspectInfo);
 
-        const result = await processService(serviceWithPlatform, 'test-cache', true, false);
+        const result = await processService('docker', serviceWithPlatform, 'test-cache', true, false);
 
         expect(result.success).toBe(true);
         expect(result.restoredFromCache).toBe(true);
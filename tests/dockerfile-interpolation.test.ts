@@ -0,0 +1,65 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: Dockerfile variable syntax is tested literally
+import { expandDockerfileVariables } from '../src/dockerfile-interpolation';
+
+describe('dockerfile-interpolation', () => {
+  describe('expandDockerfileVariables', () => {
+    const variables = { TAG: '1.22.3-alpine', EMPTY: '', IMAGE: 'docker.io/library/golang' };
+
+    it('should substitute braced and unbraced variables', () => {
+      expect(expandDockerfileVariables('golang:${TAG}', variables)).toBe('golang:1.22.3-alpine');
+      expect(expandDockerfileVariables('golang:$TAG', variables)).toBe('golang:1.22.3-alpine');
+      expect(expandDockerfileVariables('golang:${MISSING}', variables)).toBe('golang:');
+    });
+
+    it('should apply defaults and replacements', () => {
+      expect(expandDockerfileVariables('${EMPTY:-1.22}', variables)).toBe('1.22');
+      expect(expandDockerfileVariables('${EMPTY-1.22}', variables)).toBe('');
+      expect(expandDockerfileVariables('${MISSING-1.22}', variables)).toBe('1.22');
+      expect(expandDockerfileVariables('${TAG:+set}', variables)).toBe('set');
+      expect(expandDockerfileVariables('${EMPTY:+set}', variables)).toBe('');
+      expect(expandDockerfileVariables('${EMPTY+set}', variables)).toBe('set');
+    });
+
+    it('should remove the shortest and longest matching prefix', () => {
+      expect(expandDockerfileVariables('${IMAGE#*/}', variables)).toBe('library/golang');
+      expect(expandDockerfileVariables('${IMAGE##*/}', variables)).toBe('golang');
+      expect(expandDockerfileVariables('${IMAGE#ghcr.io/}', variables)).toBe('docker.io/library/golang');
+    });
+
+    it('should remove the shortest and longest matching suffix', () => {
+      expect(expandDockerfileVariables('golang:${TAG%-*}', variables)).toBe('golang:1.22.3');
+      expect(expandDockerfileVariables('golang:${TAG%%.*}', variables)).toBe('golang:1');
+      expect(expandDockerfileVariables('golang:${TAG%.[0-9]-alpine}', variables)).toBe('golang:1.22');
+    });
+
+    it('should replace the first or every match of a pattern', () => {
+      expect(expandDockerfileVariables('${TAG/./_}', variables)).toBe('1_22.3-alpine');
+      expect(expandDockerfileVariables('${TAG//./_}', variables)).toBe('1_22_3-alpine');
+      expect(expandDockerfileVariables('${TAG/-alpine}', variables)).toBe('1.22.3');
+    });
+
+    it('should expand variables in patterns and nested words', () => {
+      expect(expandDockerfileVariables('${IMAGE#${EMPTY:-docker.io}/}', variables)).toBe('library/golang');
+      expect(expandDockerfileVariables('${MISSING:-golang:${TAG%-*}}', variables)).toBe('golang:1.22.3');
+    });
+
+    it('should keep escaped and lone dollar signs', () => {
+      expect(expandDockerfileVariables('\\$TAG', variables)).toBe('$TAG');
+      expect(expandDockerfileVariables('price$', variables)).toBe('price$');
+    });
+
+    it('should throw for missing required variables', () => {
+      expect(() => expandDockerfileVariables('${MISSING:?set the tag}', variables)).toThrow(
+        'Required variable MISSING is missing a value: set the tag'
+      );
+      expect(() => expandDockerfileVariables('${EMPTY?}', variables)).not.toThrow();
+    });
+
+    it('should throw for unsupported or unterminated expressions', () => {
+      expect(() => expandDockerfileVariables('${TAG:0:4}', variables)).toThrow(
+        'Unsupported variable substitution "${TAG:0:4}"'
+      );
+      expect(() => expandDockerfileVariables('${TAG', variables)).toThrow('Unterminated variable substitution');
+    });
+  });
+});
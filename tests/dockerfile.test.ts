@@ -0,0 +1,172 @@
+// biome-ignore-all lint/suspicious/noTemplateCurlyInString: Dockerfile variable syntax is tested literally
+import * as fs from 'node:fs';
+import * as core from '@actions/core';
+
+import { getDockerfileBaseImages, parseDockerfileBaseImages } from '../src/dockerfile';
+
+jest.mock('@actions/core', () => ({
+  warning: jest.fn(),
+}));
+jest.mock('fs');
+
+describe('dockerfile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parseDockerfileBaseImages', () => {
+    it('should extract the base image of a single-stage Dockerfile', () => {
+      expect(parseDockerfileBaseImages('FROM node:20-alpine\nRUN npm ci')).toEqual([{ image: 'node:20-alpine' }]);
+    });
+
+    it('should expand global ARG defaults and build args', () => {
+      const dockerfile = [
+        'ARG REGISTRY=docker.io',
+        'ARG BASE=${REGISTRY}/library/python:3.12',
+        'FROM ${BASE}',
+        'ARG BASE=ignored',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([{ image: 'docker.io/library/python:3.12' }]);
+      expect(parseDockerfileBaseImages(dockerfile, { BASE: 'python:3.13' })).toEqual([{ image: 'python:3.13' }]);
+    });
+
+    it('should support default modifiers in FROM instructions', () => {
+      expect(parseDockerfileBaseImages('ARG VARIANT\nFROM golang:${VARIANT:-1.22}')).toEqual([
+        { image: 'golang:1.22' },
+      ]);
+    });
+
+    it('should support pattern removal in FROM instructions', () => {
+      const dockerfile = ['ARG GO_VERSION=1.22.3-alpine', 'FROM golang:${GO_VERSION%-*} AS build', 'FROM alpine'].join(
+        '\n'
+      );
+
+      expect(parseDockerfileBaseImages(dockerfile, {}, 'build')).toEqual([{ image: 'golang:1.22.3' }]);
+    });
+
+    it('should only skip FROM instructions that cannot be expanded', () => {
+      const dockerfile = [
+        'ARG VERSION',
+        'FROM node:${VERSION:?required} AS deps',
+        'FROM golang:1.22 AS build',
+        'COPY --from=deps /app /app',
+        'FROM alpine',
+        'COPY --from=build /app /app',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile, {}, 'build')).toEqual([{ image: 'golang:1.22' }]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Skipping node:${VERSION:?required} in Dockerfile')
+      );
+    });
+
+    it('should ignore build args that are not declared', () => {
+      expect(parseDockerfileBaseImages('FROM node:${VERSION}', { VERSION: '20' })).toEqual([{ image: 'node:' }]);
+    });
+
+    it('should skip stage references, stage indexes and scratch', () => {
+      const dockerfile = [
+        'FROM golang:1.22 AS build',
+        'RUN go build -o /app',
+        'FROM build AS test',
+        'FROM scratch',
+        'COPY --from=build /app /app',
+        'COPY --from=0 /etc/ssl /etc/ssl',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([{ image: 'golang:1.22' }]);
+    });
+
+    it('should only include stages required by the target', () => {
+      const dockerfile = [
+        'FROM node:20 AS deps',
+        'FROM deps AS build',
+        'FROM nginx:1.27 AS production',
+        'COPY --from=build /app/dist /usr/share/nginx/html',
+        'FROM cypress/included:13 AS e2e',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile, {}, 'production')).toEqual([
+        { image: 'node:20' },
+        { image: 'nginx:1.27' },
+      ]);
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([{ image: 'cypress/included:13' }]);
+    });
+
+    it('should include external images referenced by COPY --from and RUN --mount', () => {
+      const dockerfile = [
+        'FROM alpine:3.20',
+        'COPY --from=ghcr.io/astral-sh/uv:0.4 /uv /bin/uv',
+        'RUN --mount=type=bind,from=busybox:1.36,source=/bin,target=/tools \\',
+        '    /tools/true',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([
+        { image: 'alpine:3.20' },
+        { image: 'ghcr.io/astral-sh/uv:0.4' },
+        { image: 'busybox:1.36' },
+      ]);
+    });
+
+    it('should keep literal platforms and drop automatic platform args', () => {
+      const dockerfile = [
+        'FROM --platform=$BUILDPLATFORM golang:1.22 AS build',
+        'FROM --platform=linux/amd64 debian:bookworm',
+        'COPY --from=build /app /app',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([
+        { image: 'golang:1.22' },
+        { image: 'debian:bookworm', platform: 'linux/amd64' },
+      ]);
+    });
+
+    it('should handle line continuations, comments and lowercase instructions', () => {
+      const dockerfile = [
+        '# syntax=docker/dockerfile:1',
+        'from \\',
+        '  # base image',
+        '  node:20 \\',
+        '  as base',
+      ].join('\n');
+
+      expect(parseDockerfileBaseImages(dockerfile)).toEqual([{ image: 'node:20' }]);
+    });
+
+    it('should remove duplicate images', () => {
+      expect(parseDockerfileBaseImages('FROM node:20 AS a\nFROM node:20 AS b\nCOPY --from=a / /')).toEqual([
+        { image: 'node:20' },
+      ]);
+    });
+
+    it('should warn and return empty when the target does not exist', () => {
+      expect(parseDockerfileBaseImages('FROM node:20 AS build', {}, 'missing')).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith('Target stage missing not found in Dockerfile');
+    });
+
+    it('should return empty for a Dockerfile without stages', () => {
+      expect(parseDockerfileBaseImages('# empty')).toEqual([]);
+    });
+  });
+
+  describe('getDockerfileBaseImages', () => {
+    it('should read and parse the Dockerfile', () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('ARG TAG=20\nFROM node:${TAG}');
+
+      expect(getDockerfileBaseImages('app/Dockerfile', { TAG: '22' })).toEqual([{ image: 'node:22' }]);
+      expect(fs.readFileSync).toHaveBeenCalledWith('app/Dockerfile', 'utf8');
+    });
+
+    it('should warn and return empty when the Dockerfile cannot be read', () => {
+      (fs.readFileSync as jest.Mock).mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+
+      expect(getDockerfileBaseImages('missing/Dockerfile')).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to read Dockerfile missing/Dockerfile')
+      );
+    });
+  });
+});
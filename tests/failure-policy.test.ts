@@ -0,0 +1,173 @@
+import * as core from '@actions/core';
+
+import * as dockerCommand from '../src/docker-command';
+import type { ServiceResult } from '../src/docker-compose-service-processing';
+import { findPolicyViolations } from '../src/failure-policy';
+
+jest.mock('@actions/core', () => ({
+  warning: jest.fn(),
+}));
+
+jest.mock('../src/docker-command', () => ({
+  inspectImageLocal: jest.fn(),
+}));
+
+describe('failure-policy', () => {
+  const mockInspectImageLocal = dockerCommand.inspectImageLocal as jest.Mock;
+
+  const cachedResult: ServiceResult = {
+    success: true,
+    restoredFromCache: true,
+    imageName: 'redis:alpine',
+    cacheKey: 'redis-key',
+  };
+  const pulledResult: ServiceResult = {
+    success: true,
+    restoredFromCache: false,
+    imageName: 'node:alpine',
+    cacheKey: 'node-key',
+  };
+  const pullFailedResult: ServiceResult = {
+    success: false,
+    restoredFromCache: false,
+    imageName: 'postgres:16',
+    cacheKey: '',
+    error: 'Failed to pull image: postgres:16',
+  };
+  const saveFailedResult: ServiceResult = {
+    success: false,
+    restoredFromCache: false,
+    imageName: 'nginx:latest',
+    cacheKey: '',
+    error: 'Failed to save image to tar: nginx:latest',
+  };
+  const serviceResults = [cachedResult, pulledResult, pullFailedResult, saveFailedResult];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInspectImageLocal.mockImplementation(async (_runtime, imageName) =>
+      imageName === 'postgres:16' ? undefined : { Id: 'sha256:id', Size: 1 }
+    );
+  });
+
+  describe('findPolicyViolations', () => {
+    it('should never fail the step by default', async () => {
+      const violations = await findPolicyViolations('docker', serviceResults, { failOn: 'never', allowedFailures: [] });
+
+      expect(violations).toEqual([]);
+      expect(mockInspectImageLocal).not.toHaveBeenCalled();
+    });
+
+    it('should fail on any failed image with any-error', async () => {
+      const violations = await findPolicyViolations('docker', serviceResults, {
+        failOn: 'any-error',
+        allowedFailures: [],
+      });
+
+      expect(violations).toEqual([
+        { imageName: 'postgres:16', reason: 'Failed to pull image: postgres:16' },
+        { imageName: 'nginx:latest', reason: 'Failed to save image to tar: nginx:latest' },
+      ]);
+    });
+
+    it('should only fail on failed images not present locally with pull-error', async () => {
+      const violations = await findPolicyViolations('docker', serviceResults, {
+        failOn: 'pull-error',
+        allowedFailures: [],
+      });
+
+      expect(violations).toEqual([{ imageName: 'postgres:16', reason: 'Failed to pull image: postgres:16' }]);
+      expect(mockInspectImageLocal).toHaveBeenCalledWith('docker', 'postgres:16', false);
+      expect(mockInspectImageLocal).toHaveBeenCalledWith('docker', 'nginx:latest', false);
+      expect(mockInspectImageLocal).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail on images not restored in restore mode with any-error and pull-error', async () => {
+      const restoreModeResults: ReadonlyArray<ServiceResult> = [
+        cachedResult,
+        { ...pulledResult, outcome: 'cache-miss' },
+        { ...pulledResult, imageName: 'busybox:latest', outcome: 'present' },
+      ];
+
+      for (const failOn of ['any-error', 'pull-error'] as const) {
+        const violations = await findPolicyViolations('docker', restoreModeResults, { failOn, allowedFailures: [] });
+
+        expect(violations).toEqual([{ imageName: 'node:alpine', reason: 'Not found in cache' }]);
+      }
+    });
+
+    it('should fail on images not present locally in save mode with any-error and pull-error', async () => {
+      const saveModeResults: ReadonlyArray<ServiceResult> = [
+        { ...pulledResult, outcome: 'saved' },
+        { ...pulledResult, imageName: 'busybox:latest', outcome: 'not-present' },
+        // Present member of a bundle that was not saved because busybox was missing
+        { ...pulledResult, imageName: 'alpine:latest', outcome: 'present' },
+      ];
+
+      for (const failOn of ['any-error', 'pull-error'] as const) {
+        const violations = await findPolicyViolations('docker', saveModeResults, { failOn, allowedFailures: [] });
+
+        expect(violations).toEqual([
+          { imageName: 'busybox:latest', reason: 'Not present locally in the version to save' },
+        ]);
+      }
+    });
+
+    it('should not fail on images saved in save mode or refreshed from the registry with cache-miss', async () => {
+      const violations = await findPolicyViolations(
+        'docker',
+        [
+          { ...pulledResult, outcome: 'saved' },
+          { ...pulledResult, imageName: 'postgres:16', outcome: 'not-present' },
+          { ...pulledResult, imageName: 'busybox:latest', outcome: 'refreshed' },
+          { ...pulledResult, imageName: 'alpine:latest', outcome: 'would-miss' },
+          { ...pulledResult, imageName: 'mysql:8', outcome: 'cache-miss' },
+        ],
+        { failOn: 'cache-miss', allowedFailures: [] }
+      );
+
+      expect(violations).toEqual([
+        { imageName: 'postgres:16', reason: 'Not present locally in the version to save' },
+        { imageName: 'alpine:latest', reason: 'Not found in cache' },
+        { imageName: 'mysql:8', reason: 'Not found in cache' },
+      ]);
+    });
+
+    it('should fail on images not served from cache with cache-miss', async () => {
+      const presentResult: ServiceResult = { ...pulledResult, imageName: 'busybox:latest', outcome: 'present' };
+
+      const violations = await findPolicyViolations('docker', [...serviceResults, presentResult], {
+        failOn: 'cache-miss',
+        allowedFailures: [],
+      });
+
+      expect(violations).toEqual([
+        { imageName: 'node:alpine', reason: 'Not served from cache' },
+        { imageName: 'postgres:16', reason: 'Failed to pull image: postgres:16' },
+        { imageName: 'nginx:latest', reason: 'Failed to save image to tar: nginx:latest' },
+      ]);
+    });
+
+    it('should only warn about images allowed to fail', async () => {
+      const violations = await findPolicyViolations('docker', serviceResults, {
+        failOn: 'any-error',
+        allowedFailures: ['nginx:*'],
+      });
+
+      expect(violations).toEqual([{ imageName: 'postgres:16', reason: 'Failed to pull image: postgres:16' }]);
+      expect(core.warning).toHaveBeenCalledWith(
+        'nginx:latest is allowed to fail: Failed to save image to tar: nginx:latest'
+      );
+    });
+
+    it('should describe failures without an error message', async () => {
+      const violations = await findPolicyViolations(
+        'docker',
+        [{ success: false, restoredFromCache: false, imageName: 'mysql:8', cacheKey: '' }],
+        { failOn: 'any-error', allowedFailures: [] }
+      );
+
+      expect(violations).toEqual([{ imageName: 'mysql:8', reason: 'Failed to process mysql:8' }]);
+    });
+  });
+});
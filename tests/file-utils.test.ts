@@ -1,4 +1,15 @@
-import { formatFileSize, sanitizePathComponent } from '../src/file-utils';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as core from '@actions/core';
+
+import { expandGlobPattern, formatFileSize, isGlobPattern, sanitizePathComponent } from '../src/file-utils';
+
+jest.mock('@actions/core');
+jest.mock('node:fs', () => {
+  const actualFs = jest.requireActual<typeof import('node:fs')>('node:fs');
+  return { ...actualFs, readdirSync: jest.fn(actualFs.readdirSync) };
+});
 
 describe('file-utils', () => {
   describe('formatFileSize', () => {
@@ -109,4 +120,110 @@ describe('file-utils', () => {
       expect(sanitizePathComponent('')).toBe('');
     });
   });
+
+  describe('isGlobPattern', () => {
+    it('should detect glob syntax', () => {
+      expect(isGlobPattern('services/**/compose.yaml')).toBe(true);
+      expect(isGlobPattern('compose.?.yaml')).toBe(true);
+      expect(isGlobPattern('compose.{ci,prod}.yaml')).toBe(true);
+      expect(isGlobPattern('compose.[ab].yaml')).toBe(true);
+    });
+
+    it('should not treat literal paths as patterns', () => {
+      expect(isGlobPattern('services/api/compose.yaml')).toBe(false);
+    });
+  });
+
+  describe('expandGlobPattern', () => {
+    const originalWorkingDirectory = process.cwd();
+    let workspaceDirectory: string;
+
+    beforeAll(() => {
+      workspaceDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'glob-'));
+      for (const filePath of [
+        'compose.yaml',
+        'compose.ci.yaml',
+        'services/api/compose.yaml',
+        'services/api/compose.override.yaml',
+        'services/web/nested/compose.yaml',
+        'services/web/compose.yml',
+        'services/node_modules/pkg/compose.yaml',
+        '.git/compose.yaml',
+      ]) {
+        fs.mkdirSync(path.join(workspaceDirectory, path.dirname(filePath)), { recursive: true });
+        fs.writeFileSync(path.join(workspaceDirectory, filePath), '');
+      }
+      fs.mkdirSync(path.join(workspaceDirectory, 'shared/db'), { recursive: true });
+      fs.mkdirSync(path.join(workspaceDirectory, 'linked'));
+      fs.writeFileSync(path.join(workspaceDirectory, 'shared/db/docker-compose.yml'), '');
+      fs.symlinkSync('../shared/db', path.join(workspaceDirectory, 'linked/db'));
+      fs.symlinkSync('../compose.ci.yaml', path.join(workspaceDirectory, 'linked/docker-compose.yml'));
+      fs.symlinkSync('missing.yml', path.join(workspaceDirectory, 'linked/dangling-compose.yml'));
+      fs.symlinkSync('..', path.join(workspaceDirectory, 'linked/parent'));
+      process.chdir(workspaceDirectory);
+    });
+
+    afterAll(() => {
+      process.chdir(originalWorkingDirectory);
+      fs.rmSync(workspaceDirectory, { recursive: true, force: true });
+    });
+
+    it('should match files recursively with "**"', () => {
+      expect(expandGlobPattern('services/**/compose.yaml')).toEqual([
+        'services/api/compose.yaml',
+        'services/web/nested/compose.yaml',
+      ]);
+    });
+
+    it('should follow symbolic links to files and directories without looping', () => {
+      expect(expandGlobPattern('linked/**/docker-compose.yml')).toEqual([
+        'linked/db/docker-compose.yml',
+        'linked/docker-compose.yml',
+        'linked/parent/shared/db/docker-compose.yml',
+      ]);
+    });
+
+    it('should skip unreadable directories with a warning', () => {
+      (fs.readdirSync as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      expect(expandGlobPattern('services/*/compose.yml')).toEqual([]);
+      expect(core.warning).toHaveBeenCalledWith(
+        'Failed to read directory services while expanding services/*/compose.yml: Error: EACCES: permission denied'
+      );
+    });
+
+    it('should match "**" at the start of the pattern, skipping .git and node_modules', () => {
+      expect(expandGlobPattern('**/compose.yaml')).toEqual([
+        'compose.yaml',
+        'services/api/compose.yaml',
+        'services/web/nested/compose.yaml',
+      ]);
+    });
+
+    it('should limit "*" to a single path segment', () => {
+      expect(expandGlobPattern('services/*/compose.yaml')).toEqual(['services/api/compose.yaml']);
+      expect(expandGlobPattern('./compose.*.yaml')).toEqual(['compose.ci.yaml']);
+    });
+
+    it('should support alternatives and character classes', () => {
+      expect(expandGlobPattern('services/*/compose.{yaml,yml}')).toEqual([
+        'services/api/compose.yaml',
+        'services/web/compose.yml',
+      ]);
+      expect(expandGlobPattern('services/*/compose.y[!a]*')).toEqual(['services/web/compose.yml']);
+    });
+
+    it('should support absolute patterns', () => {
+      expect(expandGlobPattern(`${workspaceDirectory}/services/api/*.yaml`)).toEqual([
+        `${workspaceDirectory}/services/api/compose.override.yaml`,
+        `${workspaceDirectory}/services/api/compose.yaml`,
+      ]);
+    });
+
+    it('should return an empty array when the base directory does not exist', () => {
+      expect(expandGlobPattern('missing/**/compose.yaml')).toEqual([]);
+    });
+  });
 });
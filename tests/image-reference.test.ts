@@ -0,0 +1,132 @@
+import { formatImageReference, getFamiliarName, parseImageReference } from '../src/image-reference';
+
+describe('image-reference', () => {
+  const sampleDigest = 'sha256:4bcff63911fcb4448bd4fdacec207030997caf25e9bea4045fa6c8c44de311d1';
+
+  describe('parseImageReference', () => {
+    it('should normalize an official image without tag', () => {
+      expect(parseImageReference('nginx')).toEqual({
+        registry: 'docker.io',
+        repository: 'library/nginx',
+        tag: 'latest',
+        digest: undefined,
+      });
+    });
+
+    it('should parse an official image with tag', () => {
+      expect(parseImageReference('redis:7-alpine')).toEqual({
+        registry: 'docker.io',
+        repository: 'library/redis',
+        tag: '7-alpine',
+        digest: undefined,
+      });
+    });
+
+    it('should keep namespaced Docker Hub repositories without library prefix', () => {
+      expect(parseImageReference('bitnami/redis:7.2')).toEqual({
+        registry: 'docker.io',
+        repository: 'bitnami/redis',
+        tag: '7.2',
+        digest: undefined,
+      });
+    });
+
+    it('should parse a registry host with port', () => {
+      expect(parseImageReference('localhost:5000/team/api:1.2')).toEqual({
+        registry: 'localhost:5000',
+        repository: 'team/api',
+        tag: '1.2',
+        digest: undefined,
+      });
+    });
+
+    it('should apply implicit latest tag for registry with port and no tag', () => {
+      expect(parseImageReference('registry.internal:8443/api')).toEqual({
+        registry: 'registry.internal:8443',
+        repository: 'api',
+        tag: 'latest',
+        digest: undefined,
+      });
+    });
+
+    it('should treat localhost as a registry host', () => {
+      expect(parseImageReference('localhost/app')?.registry).toBe('localhost');
+    });
+
+    it('should parse a digest-only reference without implicit tag', () => {
+      expect(parseImageReference(`ghcr.io/org/app@${sampleDigest}`)).toEqual({
+        registry: 'ghcr.io',
+        repository: 'org/app',
+        tag: undefined,
+        digest: sampleDigest,
+      });
+    });
+
+    it('should parse a reference with both tag and digest', () => {
+      expect(parseImageReference(`postgres:16@${sampleDigest}`)).toEqual({
+        registry: 'docker.io',
+        repository: 'library/postgres',
+        tag: '16',
+        digest: sampleDigest,
+      });
+    });
+
+    it('should normalize legacy Docker Hub hosts', () => {
+      expect(parseImageReference('index.docker.io/library/nginx:1.25')).toEqual({
+        registry: 'docker.io',
+        repository: 'library/nginx',
+        tag: '1.25',
+        digest: undefined,
+      });
+    });
+
+    it('should return undefined for empty references', () => {
+      expect(parseImageReference('')).toBeUndefined();
+      expect(parseImageReference('   ')).toBeUndefined();
+    });
+
+    it('should return undefined for uppercase repository names', () => {
+      expect(parseImageReference('Nginx:latest')).toBeUndefined();
+    });
+
+    it('should return undefined for invalid tags', () => {
+      expect(parseImageReference('nginx:-bad')).toBeUndefined();
+      expect(parseImageReference('nginx:')).toBeUndefined();
+    });
+
+    it('should return undefined for invalid digests', () => {
+      expect(parseImageReference('nginx@sha256:xyz')).toBeUndefined();
+      expect(parseImageReference('nginx@')).toBeUndefined();
+    });
+  });
+
+  describe('getFamiliarName', () => {
+    it('should strip default registry and library namespace', () => {
+      expect(getFamiliarName({ registry: 'docker.io', repository: 'library/nginx' })).toBe('nginx');
+    });
+
+    it('should keep non-library Docker Hub namespaces', () => {
+      expect(getFamiliarName({ registry: 'docker.io', repository: 'bitnami/redis' })).toBe('bitnami/redis');
+    });
+
+    it('should keep nested repositories under library namespace', () => {
+      expect(getFamiliarName({ registry: 'docker.io', repository: 'library/team/app' })).toBe('library/team/app');
+    });
+
+    it('should include registry host and port for other registries', () => {
+      expect(getFamiliarName({ registry: 'localhost:5000', repository: 'team/api' })).toBe('localhost:5000/team/api');
+    });
+  });
+
+  describe('formatImageReference', () => {
+    it('should format a fully qualified tagged reference', () => {
+      const reference = parseImageReference('nginx');
+      expect(reference && formatImageReference(reference)).toBe('docker.io/library/nginx:latest');
+    });
+
+    it('should format a reference with tag and digest', () => {
+      const reference = parseImageReference(`localhost:5000/team/api:1.2@${sampleDigest}`);
+      expect(reference && formatImageReference(reference)).toBe(`localhost:5000/team/api:1.2@${sampleDigest}`);
+    });
+  });
+});
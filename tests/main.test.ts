@@ -1,9 +1,13 @@
 import * as cache from '@actions/cache';
 import * as core from '@actions/core';
 
+import * as actionOutputs from '../src/action-outputs';
+import * as compression from '../src/compression';
 import * as dockerCommand from '../src/docker-command';
 import * as dockerComposeFile from '../src/docker-compose-file';
 import * as platform from '../src/oci-platform';
+import * as retry from '../src/retry';
+import * as tempFiles from '../src/temp-files';
 
 jest.mock('../src/main', () => {
   const originalModule = jest.requireActual('../src/main');
@@ -23,6 +27,7 @@ jest.mock('@actions/core', () => {
     warning: jest.fn(),
     debug: jest.fn(),
     setFailed: jest.fn(),
+    saveState: jest.fn(),
     summary: {
       addHeading: jest.fn().mockReturnThis(),
       addTable: jest.fn().mockReturnThis(),
@@ -42,12 +47,13 @@ jest.mock('@actions/cache', () => {
 
 jest.mock('../src/oci-platform');
 jest.mock('../src/docker-command');
+jest.mock('../src/temp-files');
 jest.mock('../src/docker-compose-file', () => {
   const original = jest.requireActual('../src/docker-compose-file');
   return {
     ...original,
-    getComposeServicesFromFiles: jest.fn(),
-    getComposeFilePathsToProcess: jest.fn(() => ['docker-compose.yml']),
+    getComposeServicesFromProjects: jest.fn(),
+    getComposeProjectsToProcess: jest.fn(() => [['docker-compose.yml']]),
   };
 });
 
@@ -99,9 +105,9 @@ describe('main', () => {
       });
 
       dockerCommandMock.getImageDigest = jest.fn().mockResolvedValue('sha256:digest');
-      dockerCommandMock.pullImage = jest.fn().mockResolvedValue(true);
-      dockerCommandMock.saveImageToTar = jest.fn().mockResolvedValue(true);
-      dockerCommandMock.loadImageFromTar = jest.fn().mockResolvedValue(true);
+      dockerCommandMock.pullImage = jest.fn().mockResolvedValue({ success: true });
+      dockerCommandMock.saveImagesToStream = jest.fn().mockResolvedValue({ success: true });
+      dockerCommandMock.loadImageFromStream = jest.fn().mockResolvedValue({ success: true });
       dockerCommandMock.inspectImageRemote = jest.fn().mockResolvedValue({
         digest: 'sha256:digest',
         schemaVersion: 2,
@@ -113,7 +119,7 @@ describe('main', () => {
       });
 
       // Default: return service array
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
         if (Array.isArray(files) && files.length > 0) {
           return mockServiceDefinitions;
         }
@@ -175,7 +181,12 @@ describe('main', () => {
         }
       });
       await run();
-      expect(dockerComposeFile.getComposeServicesFromFiles).toHaveBeenCalledWith(['docker-compose.yml'], []);
+      expect(dockerComposeFile.getComposeServicesFromProjects).toHaveBeenCalledWith(
+        [['docker-compose.yml']],
+        [],
+        [],
+        false
+      );
       expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
       const imageListOutput = mockCoreSetOutput.mock.calls.find((call) => call[0] === 'image-list')?.[1];
       expect(imageListOutput).toBeDefined();
@@ -188,7 +199,7 @@ describe('main', () => {
       expect(parsedImageList[0]).toHaveProperty('size');
       expect(parsedImageList[0]).toHaveProperty('processingTimeMs');
       expect(parsedImageList[0]).toHaveProperty('cacheKey');
-      // getImageDigest, pullImage, saveImageToTar calls are not guaranteed
+      // getImageDigest, pullImage, saveImagesToStream calls are not guaranteed
     });
 
     it('should handle cache hits', async () => {
@@ -202,11 +213,11 @@ describe('main', () => {
 
       // Check that setOutput was called with cache-hit true (all from cache)
       expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'true');
-      // loadImageFromTar, pullImage calls are not guaranteed
+      // loadImageFromStream, pullImage calls are not guaranteed
     });
 
     it('should report no services found when compose file is empty', async () => {
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation(() => []);
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation(() => []);
       await run();
       expect(mockCoreInfo).toHaveBeenCalledWith(expect.stringContaining('No Docker services found'));
       expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
@@ -223,17 +234,18 @@ describe('main', () => {
     });
 
     it('should handle unexpected errors', async () => {
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation(() => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation(() => {
         throw new Error('Unexpected error');
       });
 
       await run();
 
       expect(mockCoreSetFailed).toHaveBeenCalledWith('Unexpected error');
+      expect(tempFiles.removeTrackedTempFiles).toHaveBeenCalledTimes(1);
     });
 
     it('should handle unknown error types', async () => {
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation(() => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation(() => {
         throw 'non-error object';
       });
 
@@ -244,7 +256,7 @@ describe('main', () => {
 
     it('should use platform from service when specified', async () => {
       const platformSpecificService = { image: 'nginx:alpine', platform: 'linux/arm64' };
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
         if (Array.isArray(files) && files.length > 0) {
           return [platformSpecificService];
         }
@@ -293,9 +305,481 @@ describe('main', () => {
 
       await run();
 
-      expect(dockerComposeFile.getComposeServicesFromFiles).toHaveBeenCalledWith(
+      expect(dockerComposeFile.getComposeServicesFromProjects).toHaveBeenCalledWith(
+        [['docker-compose.yml']],
+        ['nginx:latest'],
+        [],
+        false
+      );
+    });
+
+    it('should pass active profiles to service discovery', async () => {
+      mockCoreGetMultilineInput.mockImplementation((inputName) => {
+        switch (inputName) {
+          case 'compose-files':
+            return ['docker-compose.yml'];
+          case 'profiles':
+            return ['debug,observability'];
+          default:
+            return [];
+        }
+      });
+
+      await run();
+
+      expect(dockerComposeFile.getComposeServicesFromProjects).toHaveBeenCalledWith(
+        [['docker-compose.yml']],
+        [],
+        ['debug', 'observability'],
+        false
+      );
+    });
+
+    it('should pass the build base images setting to service discovery', async () => {
+      mockCoreGetBooleanInput.mockImplementation((inputName) => inputName === 'build-base-images');
+
+      await run();
+
+      expect(dockerComposeFile.getComposeServicesFromProjects).toHaveBeenCalledWith(
+        [['docker-compose.yml']],
+        [],
+        [],
+        true
+      );
+    });
+
+    it('should limit the number of images processed at the same time', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'max-concurrency' ? '2' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      let inFlightCount = 0;
+      let maxInFlightCount = 0;
+      dockerCommandMock.inspectImageRemote = jest.fn(async () => {
+        inFlightCount++;
+        maxInFlightCount = Math.max(maxInFlightCount, inFlightCount);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlightCount--;
+        return { digest: 'sha256:digest' };
+      });
+
+      await run();
+
+      expect(maxInFlightCount).toBe(2);
+      expect(mockCoreSetFailed).not.toHaveBeenCalled();
+    });
+
+    it('should limit pulls separately from image processing', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'pull-concurrency' ? '1' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      let inFlightPullCount = 0;
+      let maxInFlightPullCount = 0;
+      dockerCommandMock.pullImage = jest.fn(async () => {
+        inFlightPullCount++;
+        maxInFlightPullCount = Math.max(maxInFlightPullCount, inFlightPullCount);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlightPullCount--;
+        return { success: true };
+      });
+
+      await run();
+
+      expect(dockerCommandMock.pullImage).toHaveBeenCalledTimes(3);
+      expect(maxInFlightPullCount).toBe(1);
+    });
+
+    it('should fall back to the default for an invalid max concurrency', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'max-concurrency' ? 'many' : ''));
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith("Invalid max-concurrency value 'many' specified. Defaulting to 4.");
+      expect(mockCoreSetFailed).not.toHaveBeenCalled();
+    });
+
+    it('should apply the configured retry policy', async () => {
+      const setRetryPolicySpy = jest.spyOn(retry, 'setRetryPolicy');
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'retry-attempts' ? '5' : inputName === 'retry-delay' ? '0.5' : ''
+      );
+
+      await run();
+
+      expect(setRetryPolicySpy).toHaveBeenCalledWith({ maxAttempts: 5, initialDelayMs: 500, maxDelayMs: 30000 });
+      setRetryPolicySpy.mockRestore();
+    });
+
+    it('should fall back to the default retry policy for invalid values', async () => {
+      const setRetryPolicySpy = jest.spyOn(retry, 'setRetryPolicy');
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'retry-attempts' ? '0' : inputName === 'retry-delay' ? 'soon' : ''
+      );
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith("Invalid retry-attempts value '0' specified. Defaulting to 3.");
+      expect(mockCoreWarning).toHaveBeenCalledWith("Invalid retry-delay value 'soon' specified. Defaulting to 1.");
+      expect(setRetryPolicySpy).toHaveBeenCalledWith(retry.DEFAULT_RETRY_POLICY);
+      setRetryPolicySpy.mockRestore();
+    });
+
+    it('should apply the configured command timeouts', async () => {
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'pull-timeout' ? '600' : inputName === 'load-timeout' ? '0' : ''
+      );
+
+      await run();
+
+      expect(dockerCommandMock.setCommandTimeouts).toHaveBeenCalledWith({
+        inspect: 120,
+        pull: 600,
+        save: 1800,
+        load: 0,
+      });
+    });
+
+    it('should fall back to the default command timeout for invalid values', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'save-timeout' ? '10m' : ''));
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith("Invalid save-timeout value '10m' specified. Defaulting to 1800.");
+      expect(dockerCommandMock.setCommandTimeouts).toHaveBeenCalledWith(dockerCommand.DEFAULT_COMMAND_TIMEOUTS);
+    });
+
+    it('should record pulled images for the post step when saving is deferred', async () => {
+      mockCoreGetBooleanInput.mockImplementation((inputName) => inputName === 'defer-save');
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'save-concurrency' ? '2' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(dockerCommandMock.saveImagesToStream).not.toHaveBeenCalled();
+      expect(mockCacheSave).not.toHaveBeenCalled();
+      expect(core.saveState).toHaveBeenCalledWith('deferred-saves', expect.any(String));
+      const deferredSaveState = JSON.parse((core.saveState as jest.Mock).mock.calls[0][1]);
+      expect(deferredSaveState).toEqual({
+        containerRuntime: 'docker',
+        saveConcurrency: 2,
+        retryPolicy: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30000 },
+        commandTimeouts: { inspect: 120, pull: 1800, save: 1800, load: 1800 },
+        pendingSaves: [
+          expect.objectContaining({
+            imageName: 'nginx:latest',
+            manifest: expect.objectContaining({ digest: 'sha256:digest' }),
+          }),
+          expect.objectContaining({ imageName: 'redis:alpine' }),
+          expect.objectContaining({ imageName: 'node:alpine' }),
+        ],
+      });
+    });
+
+    it('should not record deferred saves by default', async () => {
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(dockerCommandMock.saveImagesToStream).toHaveBeenCalledTimes(3);
+      expect(core.saveState).not.toHaveBeenCalledWith('deferred-saves', expect.anything());
+    });
+
+    it('should remove remaining temporary files after processing all images', async () => {
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(tempFiles.removeTrackedTempFiles).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep temporary files when keep-temp-files is enabled', async () => {
+      mockCoreGetBooleanInput.mockImplementation((inputName) => inputName === 'keep-temp-files');
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(tempFiles.removeTrackedTempFiles).not.toHaveBeenCalled();
+      expect(tempFiles.removeTempFiles).not.toHaveBeenCalled();
+    });
+
+    it('should only restore images in restore mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'mode' ? 'restore' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(dockerCommandMock.pullImage).not.toHaveBeenCalled();
+      expect(mockCacheSave).not.toHaveBeenCalled();
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('image-list', expect.stringContaining('"status":"Missed"'));
+    });
+
+    it('should only save locally present images in save mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'mode' ? 'save' : ''));
+      mockCacheSave.mockResolvedValue(123);
+      dockerCommandMock.inspectImageLocal = jest.fn(async (_runtime, imageName: string) => ({
+        Id: 'sha256:image123',
+        Size: 1024000,
+        Os: 'linux',
+        Architecture: 'amd64',
+        RepoDigests: [`${imageName.split(':')[0]}@sha256:digest`],
+      }));
+
+      await run();
+
+      expect(mockCacheRestore).not.toHaveBeenCalled();
+      expect(dockerCommandMock.pullImage).not.toHaveBeenCalled();
+      expect(dockerCommandMock.saveImagesToStream).toHaveBeenCalledTimes(3);
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('image-list', expect.stringContaining('"status":"Saved"'));
+    });
+
+    it('should only look up cache entries in lookup-only mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'mode' ? 'lookup-only' : ''));
+      mockCacheRestore.mockResolvedValue('cache-key');
+
+      await run();
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(3);
+      expect(mockCacheRestore).toHaveBeenCalledWith(expect.any(Array), expect.any(String), undefined, {
+        lookupOnly: true,
+      });
+      expect(dockerCommandMock.loadImageFromStream).not.toHaveBeenCalled();
+      expect(dockerCommandMock.pullImage).not.toHaveBeenCalled();
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'true');
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('image-list', expect.stringContaining('"status":"Would Hit"'));
+    });
+
+    it('should store all images in a single cache entry with the bundle cache strategy', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'cache-strategy' ? 'bundle' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+      dockerCommandMock.saveImagesToStream = jest.fn().mockResolvedValue({ success: true });
+
+      await run();
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(1);
+      expect(dockerCommandMock.pullImage).toHaveBeenCalledTimes(3);
+      expect(dockerCommandMock.saveImagesToStream).toHaveBeenCalledWith(
+        'docker',
+        ['nginx:latest', 'redis:alpine', 'node:alpine'],
+        expect.any(Function)
+      );
+      expect(mockCacheSave).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look up layer indexes with the layers cache strategy', async () => {
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'cache-strategy' ? 'layers' : inputName === 'mode' ? 'lookup-only' : ''
+      );
+      mockCacheRestore.mockResolvedValue('cache-key');
+
+      await run();
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(3);
+      expect(mockCacheRestore).toHaveBeenCalledWith(
+        [expect.stringMatching(/-layers\.json$/)],
+        expect.any(String),
+        undefined,
+        { lookupOnly: true }
+      );
+      expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'true');
+    });
+
+    it('should fall back to the per-image strategy for an unsupported cache strategy', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'cache-strategy' ? 'shared' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith(
+        "Unsupported cache-strategy 'shared' specified. Defaulting to 'per-image'."
+      );
+      expect(dockerCommandMock.saveImagesToStream).toHaveBeenCalledTimes(3);
+    });
+
+    it('should look up compressed tar files when compression is enabled', async () => {
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'compression' ? 'gzip' : inputName === 'mode' ? 'lookup-only' : ''
+      );
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCacheRestore).toHaveBeenCalledTimes(3);
+      expect(mockCacheRestore).toHaveBeenCalledWith(
+        [expect.stringMatching(/\.tar\.gz$/)],
+        expect.any(String),
+        undefined,
+        { lookupOnly: true }
+      );
+    });
+
+    it('should fall back to gzip when the Node.js runtime lacks zstd', async () => {
+      const isZstdSupportedSpy = jest.spyOn(compression, 'isZstdSupported').mockReturnValue(false);
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'compression' ? 'zstd' : inputName === 'mode' ? 'lookup-only' : ''
+      );
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith(
+        expect.stringMatching(/^zstd compression is not supported by Node\.js/)
+      );
+      expect(mockCacheRestore).toHaveBeenCalledWith(
+        [expect.stringMatching(/\.tar\.gz$/)],
+        expect.any(String),
+        undefined,
+        { lookupOnly: true }
+      );
+      isZstdSupportedSpy.mockRestore();
+    });
+
+    it('should fall back to the default level for an invalid compression level', async () => {
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'compression'
+          ? 'gzip'
+          : inputName === 'compression-level'
+            ? '12'
+            : inputName === 'mode'
+              ? 'lookup-only'
+              : ''
+      );
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith(
+        "Invalid compression-level value '12' specified for gzip. Defaulting to 6."
+      );
+    });
+
+    it('should fall back to no compression for an unsupported codec', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'compression' ? 'brotli' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith("Unsupported compression 'brotli' specified. Defaulting to 'none'.");
+      expect(mockCacheSave).toHaveBeenCalledWith([expect.stringMatching(/\.tar$/)], expect.any(String));
+    });
+
+    it('should ignore compression with the layers cache strategy', async () => {
+      mockCoreGetInput.mockImplementation((inputName) =>
+        inputName === 'compression'
+          ? 'gzip'
+          : inputName === 'cache-strategy'
+            ? 'layers'
+            : inputName === 'mode'
+              ? 'lookup-only'
+              : ''
+      );
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith('compression is ignored with the layers cache strategy');
+      expect(mockCacheRestore).toHaveBeenCalledWith(
+        [expect.stringMatching(/-layers\.json$/)],
+        expect.any(String),
+        undefined,
+        { lookupOnly: true }
+      );
+    });
+
+    it('should ignore force refresh outside of full mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'mode' ? 'restore' : ''));
+      mockCoreGetBooleanInput.mockImplementation((inputName) => inputName === 'force-refresh');
+      mockCacheRestore.mockResolvedValue(undefined);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith('force-refresh is ignored in restore mode');
+      expect(dockerCommandMock.pullImage).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to full mode for an unsupported mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'mode' ? 'upload' : ''));
+      mockCacheRestore.mockResolvedValue(undefined);
+      mockCacheSave.mockResolvedValue(123);
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith("Unsupported mode 'upload' specified. Defaulting to 'full'.");
+      expect(dockerCommandMock.pullImage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should pass the missing compose file mode to file discovery', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'missing-compose-file' ? 'error' : ''));
+
+      await run();
+
+      expect(dockerComposeFile.getComposeProjectsToProcess).toHaveBeenCalledWith(['docker-compose.yml'], 'error');
+    });
+
+    it('should fall back to warn for an unsupported missing compose file mode', async () => {
+      mockCoreGetInput.mockImplementation((inputName) => (inputName === 'missing-compose-file' ? 'strict' : ''));
+
+      await run();
+
+      expect(mockCoreWarning).toHaveBeenCalledWith(
+        "Unsupported missing-compose-file value 'strict' specified. Defaulting to 'warn'."
+      );
+      expect(dockerComposeFile.getComposeProjectsToProcess).toHaveBeenCalledWith(['docker-compose.yml'], 'warn');
+    });
+
+    it('should fail when compose files are missing in error mode', async () => {
+      (dockerComposeFile.getComposeProjectsToProcess as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Compose file(s) from compose-files input not found: typo.yml');
+      });
+
+      await run();
+
+      expect(mockCoreSetFailed).toHaveBeenCalledWith('Compose file(s) from compose-files input not found: typo.yml');
+    });
+
+    it('should reference the files of all discovered Compose projects in the summary', async () => {
+      (dockerComposeFile.getComposeProjectsToProcess as jest.Mock).mockReturnValueOnce([
         ['docker-compose.yml'],
-        ['nginx:latest']
+        ['services/api/compose.yaml'],
+      ]);
+
+      await run();
+
+      expect(dockerComposeFile.getComposeServicesFromProjects).toHaveBeenCalledWith(
+        [['docker-compose.yml'], ['services/api/compose.yaml']],
+        [],
+        [],
+        false
+      );
+      expect(actionOutputs.createActionSummary).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        ['docker-compose.yml', 'services/api/compose.yaml'],
+        false,
+        { algorithm: 'none', level: 0 }
+      );
+    });
+
+    it('should attribute images to their source files in the summary', async () => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockReturnValue([
+        { image: 'nginx:latest', sourceFile: 'docker-compose.yml' },
+        { image: 'redis:alpine', sourceFile: 'infra/compose.yaml' },
+      ]);
+
+      await run();
+
+      expect(actionOutputs.createActionSummary).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ imageName: 'nginx:latest', sourceFile: 'docker-compose.yml' }),
+          expect.objectContaining({ imageName: 'redis:alpine', sourceFile: 'infra/compose.yaml' }),
+        ],
+        expect.anything(),
+        ['docker-compose.yml', 'infra/compose.yaml'],
+        false,
+        { algorithm: 'none', level: 0 }
       );
     });
 
@@ -309,7 +793,7 @@ describe('main', () => {
           return;
         }
       });
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockReturnValue([]);
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockReturnValue([]);
       await run();
       expect(mockCoreSetFailed).not.toHaveBeenCalled();
       // Do not fail even if debug call is missing
@@ -325,7 +809,7 @@ describe('main', () => {
           return;
         }
       });
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockReturnValue([]);
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockReturnValue([]);
       await run();
       expect(mockCoreSetFailed).not.toHaveBeenCalled();
       // Do not fail even if debug call is missing
@@ -334,7 +818,7 @@ describe('main', () => {
     it('should handle digest mismatch after pull', async () => {
       mockCacheRestore.mockResolvedValue(undefined);
       const singleServiceDefinition = { image: 'nginx:latest' };
-      (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+      (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
         if (Array.isArray(files) && files.length > 0) {
           return [singleServiceDefinition];
         }
@@ -345,7 +829,7 @@ describe('main', () => {
       await run();
       // Expect message for digest retrieval failure instead of mismatch
       expect(mockCoreWarning).toHaveBeenCalledWith(expect.stringContaining('Could not get digest'));
-      // saveImageToTar calls are not guaranteed
+      // saveImagesToStream calls are not guaranteed
     });
 
     it('should handle partial cache hits with multiple services', async () => {
@@ -353,8 +837,8 @@ describe('main', () => {
         .mockResolvedValueOnce('cache-key')
         .mockResolvedValueOnce(undefined)
         .mockResolvedValueOnce(undefined);
-      dockerCommandMock.loadImageFromTar = jest.fn().mockReturnValue(true);
-      dockerCommandMock.pullImage = jest.fn().mockReturnValue(true);
+      dockerCommandMock.loadImageFromStream = jest.fn().mockReturnValue({ success: true });
+      dockerCommandMock.pullImage = jest.fn().mockReturnValue({ success: true });
       mockCoreInfo.mockImplementation((logMessage) => {
         if (logMessage.match(/\d+ of 3 services restored from cache/)) {
           return;
@@ -364,7 +848,7 @@ describe('main', () => {
 
       // Check that cache-hit is false (not all services from cache)
       expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
-      // loadImageFromTar, pullImage calls are not guaranteed
+      // loadImageFromStream, pullImage calls are not guaranteed
     });
 
     it('should set cache-hit to true when all services are cached', async () => {
@@ -388,7 +872,7 @@ describe('main', () => {
       beforeEach(() => {
         // Setup single service for cleaner test
         const singleServiceDefinition = [{ image: 'nginx:latest' }];
-        (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+        (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
           if (Array.isArray(files) && files.length > 0) {
             return singleServiceDefinition;
           }
@@ -424,10 +908,10 @@ describe('main', () => {
 
         // Verify that inspectImageRemote was called only once (for cache key generation, not for digest comparison)
         expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledTimes(1);
-        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('nginx:latest');
+        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('docker', 'nginx:latest');
 
-        // Verify that loadImageFromTar was called (cache restoration)
-        expect(dockerCommandMock.loadImageFromTar).toHaveBeenCalled();
+        // Verify that loadImageFromStream was called (cache restoration)
+        expect(dockerCommandMock.loadImageFromStream).toHaveBeenCalled();
 
         // Verify info message about skipping latest check
         expect(mockCoreInfo).toHaveBeenCalledWith(expect.stringContaining('Skipped latest check for nginx:latest'));
@@ -466,10 +950,10 @@ describe('main', () => {
         // Verify that inspectImageRemote was called twice when skip-digest-verification is false
         // (once for cache key generation, once for digest comparison)
         expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledTimes(2);
-        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('nginx:latest');
+        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('docker', 'nginx:latest');
 
-        // Verify that loadImageFromTar was called (cache restoration)
-        expect(dockerCommandMock.loadImageFromTar).toHaveBeenCalled();
+        // Verify that loadImageFromStream was called (cache restoration)
+        expect(dockerCommandMock.loadImageFromStream).toHaveBeenCalled();
       });
 
       it('should handle digest mismatch when skip-digest-verification is false', async () => {
@@ -479,7 +963,8 @@ describe('main', () => {
         // Mock different digests to simulate mismatch
         dockerCommandMock.inspectImageRemote
           .mockResolvedValueOnce({ digest: 'sha256:digest' }) // Initial digest for processService
-          .mockResolvedValueOnce({ digest: 'sha256:different-digest' }); // Different digest in cache hit check
+          .mockResolvedValueOnce({ digest: 'sha256:different-digest' }) // Different digest in cache hit check
+          .mockResolvedValueOnce({ digest: 'sha256:different-digest' }); // Verification of the refreshed image
 
         // Disable skip-digest-verification
         mockCoreGetInput.mockImplementation((inputName) => {
@@ -507,16 +992,19 @@ describe('main', () => {
 
         await run();
 
-        // Verify that inspectImageRemote was called multiple times for digest comparison
-        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledTimes(2);
+        // Verify that inspectImageRemote was called for digest comparison and verification of the refreshed image
+        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledTimes(3);
 
         // Verify that pullImage was called due to digest mismatch
-        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('nginx:latest', undefined);
+        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
 
         // Verify info message about manifest mismatch
         expect(mockCoreInfo).toHaveBeenCalledWith(
           expect.stringContaining('Manifest mismatch detected for nginx:latest')
         );
+
+        // Refreshed images were not restored from cache
+        expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
       });
 
       it('should use cached image without registry call when skip-digest-verification is true and cache hit', async () => {
@@ -550,7 +1038,7 @@ describe('main', () => {
         expect(dockerCommandMock.pullImage).not.toHaveBeenCalled();
 
         // Verify that only cache restoration was performed
-        expect(dockerCommandMock.loadImageFromTar).toHaveBeenCalled();
+        expect(dockerCommandMock.loadImageFromStream).toHaveBeenCalled();
         expect(dockerCommandMock.inspectImageLocal).toHaveBeenCalled();
 
         // Verify that image list contains cached status
@@ -587,13 +1075,13 @@ describe('main', () => {
         await run();
 
         // Verify that registry calls were made for cache miss (initial manifest retrieval)
-        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('nginx:latest');
+        expect(dockerCommandMock.inspectImageRemote).toHaveBeenCalledWith('docker', 'nginx:latest');
 
         // Verify that pullImage was called due to cache miss
-        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('nginx:latest', undefined);
+        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
 
         // Verify that image was saved to cache
-        expect(dockerCommandMock.saveImageToTar).toHaveBeenCalled();
+        expect(dockerCommandMock.saveImagesToStream).toHaveBeenCalled();
       });
     });
 
@@ -601,7 +1089,7 @@ describe('main', () => {
       beforeEach(() => {
         // Setup single service for cleaner test
         const singleServiceDefinition = [{ image: 'nginx:latest' }];
-        (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+        (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
           if (Array.isArray(files) && files.length > 0) {
             return singleServiceDefinition;
           }
@@ -733,7 +1221,7 @@ describe('main', () => {
       beforeEach(() => {
         // Setup single service for cleaner test
         const singleServiceDefinition = [{ image: 'nginx:latest' }];
-        (dockerComposeFile.getComposeServicesFromFiles as jest.Mock).mockImplementation((files, _excludes) => {
+        (dockerComposeFile.getComposeServicesFromProjects as jest.Mock).mockImplementation((files, _excludes) => {
           if (Array.isArray(files) && files.length > 0) {
             return singleServiceDefinition;
           }
@@ -781,7 +1269,7 @@ describe('main', () => {
         expect(mockCacheRestore).not.toHaveBeenCalled();
 
         // Verify image was pulled
-        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('nginx:latest', undefined);
+        expect(dockerCommandMock.pullImage).toHaveBeenCalledWith('docker', 'nginx:latest', undefined);
 
         // Verify image was saved to cache
         expect(mockCacheSave).toHaveBeenCalled();
@@ -841,5 +1329,97 @@ describe('main', () => {
         expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
       });
     });
+
+    describe('fail-on option', () => {
+      beforeEach(() => {
+        dockerCommandMock.formatCommandFailure = jest.fn(
+          jest.requireActual('../src/docker-command').formatCommandFailure
+        );
+        mockCacheRestore.mockResolvedValue(undefined);
+        dockerCommandMock.pullImage = jest
+          .fn()
+          .mockImplementation(async (_runtime, imageName) => ({ success: imageName !== 'redis:alpine' }));
+      });
+
+      const mockFailurePolicyInputs = (failOn: string, allowedFailures: string[] = []) => {
+        mockCoreGetInput.mockImplementation((inputName) => (inputName === 'fail-on' ? failOn : ''));
+        mockCoreGetMultilineInput.mockImplementation((inputName) => {
+          switch (inputName) {
+            case 'compose-files':
+              return ['docker-compose.yml'];
+            case 'allowed-failures':
+              return allowedFailures;
+            default:
+              return [];
+          }
+        });
+      };
+
+      it('should not fail the step for failed images by default', async () => {
+        await run();
+
+        expect(mockCoreSetFailed).not.toHaveBeenCalled();
+      });
+
+      it('should fail the step for failed images with any-error', async () => {
+        mockFailurePolicyInputs('any-error');
+
+        await run();
+
+        expect(mockCoreSetFailed).toHaveBeenCalledWith(
+          "1 images failed with fail-on 'any-error': redis:alpine (Failed to pull image: redis:alpine)"
+        );
+        expect(mockCoreSetOutput).toHaveBeenCalledWith('cache-hit', 'false');
+      });
+
+      it('should fail the step for images that could not be obtained with pull-error', async () => {
+        mockFailurePolicyInputs('pull-error');
+        dockerCommandMock.inspectImageLocal = jest
+          .fn()
+          .mockImplementation(async (_runtime, imageName) =>
+            imageName === 'redis:alpine' ? undefined : { Id: 'sha256:image123', Size: 1024000 }
+          );
+
+        await run();
+
+        expect(mockCoreSetFailed).toHaveBeenCalledWith(
+          "1 images failed with fail-on 'pull-error': redis:alpine (Failed to pull image: redis:alpine)"
+        );
+      });
+
+      it('should fail the step for images not restored from cache with cache-miss', async () => {
+        mockFailurePolicyInputs('cache-miss');
+        dockerCommandMock.pullImage = jest.fn().mockResolvedValue({ success: true });
+
+        await run();
+
+        expect(mockCoreSetFailed).toHaveBeenCalledWith(
+          "3 images failed with fail-on 'cache-miss': nginx:latest (Not served from cache), " +
+            'redis:alpine (Not served from cache), node:alpine (Not served from cache)'
+        );
+      });
+
+      it('should only warn about images allowed to fail', async () => {
+        mockFailurePolicyInputs('any-error', ['redis:*']);
+
+        await run();
+
+        expect(mockCoreSetFailed).not.toHaveBeenCalled();
+        expect(mockCoreWarning).toHaveBeenCalledWith(
+          'redis:alpine is allowed to fail: Failed to pull image: redis:alpine'
+        );
+      });
+
+      it('should fall back to never for an unsupported fail-on value', async () => {
+        mockFailurePolicyInputs('always');
+
+        await run();
+
+        expect(mockCoreWarning).toHaveBeenCalledWith(
+          "Unsupported fail-on value 'always' specified. Defaulting to 'never'."
+        );
+        expect(mockCoreSetFailed).not.toHaveBeenCalled();
+      });
+    });
   });
 });
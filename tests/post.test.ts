@@ -0,0 +1,225 @@
+import * as core from '@actions/core';
+
+import * as actionState from '../src/action-state';
+import * as dockerCommand from '../src/docker-command';
+import * as serviceProcessing from '../src/docker-compose-service-processing';
+import * as retry from '../src/retry';
+import * as tempFiles from '../src/temp-files';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  warning: jest.fn(),
+  getBooleanInput: jest.fn(),
+}));
+
+jest.mock('../src/action-state', () => ({
+  getDeferredSaveState: jest.fn(),
+  getTempFileState: jest.fn(),
+}));
+
+jest.mock('../src/docker-command', () => ({
+  cancelCommandsOnSignals: jest.fn(),
+  setCommandTimeouts: jest.fn(),
+}));
+
+jest.mock('../src/docker-compose-service-processing', () => ({
+  saveImageToCache: jest.fn(),
+}));
+
+jest.mock('../src/retry', () => ({
+  setRetryPolicy: jest.fn(),
+}));
+
+jest.mock('../src/temp-files', () => ({
+  removeTempFiles: jest.fn(),
+  removeTrackedTempFiles: jest.fn(),
+}));
+
+import { runPost } from '../src/post';
+
+describe('post', () => {
+  const mockGetDeferredSaveState = actionState.getDeferredSaveState as jest.Mock;
+  const mockSaveImageToCache = serviceProcessing.saveImageToCache as jest.Mock;
+  const mockGetTempFileState = actionState.getTempFileState as jest.Mock;
+  const mockRemoveTempFiles = tempFiles.removeTempFiles as jest.Mock;
+  const mockRemoveTrackedTempFiles = tempFiles.removeTrackedTempFiles as jest.Mock;
+
+  const createPendingSave = (imageName: string) => ({
+    imageName,
+    imageCacheKey: `${imageName}-key`,
+    imageTarPath: `/tmp/${imageName}.tar`,
+    manifestCacheKey: `${imageName}-manifest-key`,
+    manifestPath: `/tmp/${imageName}-manifest.json`,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTempFileState.mockReturnValue([]);
+  });
+
+  describe('runPost', () => {
+    it('should do nothing when no saves were deferred', async () => {
+      mockGetDeferredSaveState.mockReturnValue(undefined);
+
+      await runPost();
+
+      expect(mockSaveImageToCache).not.toHaveBeenCalled();
+      expect(core.info).toHaveBeenCalledWith('No deferred image saves to perform');
+    });
+
+    it('should save all deferred images', async () => {
+      const pendingSaves = [createPendingSave('nginx'), createPendingSave('redis')];
+      mockGetDeferredSaveState.mockReturnValue({ containerRuntime: 'podman', saveConcurrency: 0, pendingSaves });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await runPost();
+
+      expect(mockSaveImageToCache).toHaveBeenCalledWith('podman', pendingSaves[0]);
+      expect(mockSaveImageToCache).toHaveBeenCalledWith('podman', pendingSaves[1]);
+      expect(core.info).toHaveBeenCalledWith('2 of 2 deferred images saved to cache');
+    });
+
+    it('should apply the retry policy of the main step', async () => {
+      const retryPolicy = { maxAttempts: 5, initialDelayMs: 500, maxDelayMs: 30000 };
+      mockGetDeferredSaveState.mockReturnValue({
+        containerRuntime: 'docker',
+        saveConcurrency: 0,
+        retryPolicy,
+        pendingSaves: [createPendingSave('nginx')],
+      });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await runPost();
+
+      expect(retry.setRetryPolicy).toHaveBeenCalledWith(retryPolicy);
+    });
+
+    it('should apply the command timeouts of the main step', async () => {
+      const commandTimeouts = { inspect: 60, pull: 600, save: 0, load: 600 };
+      mockGetDeferredSaveState.mockReturnValue({
+        containerRuntime: 'docker',
+        saveConcurrency: 0,
+        commandTimeouts,
+        pendingSaves: [createPendingSave('nginx')],
+      });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await runPost();
+
+      expect(dockerCommand.setCommandTimeouts).toHaveBeenCalledWith(commandTimeouts);
+    });
+
+    it('should respect the save concurrency', async () => {
+      const pendingSaves = [createPendingSave('a'), createPendingSave('b'), createPendingSave('c')];
+      mockGetDeferredSaveState.mockReturnValue({ containerRuntime: 'docker', saveConcurrency: 1, pendingSaves });
+      let inFlightSaveCount = 0;
+      let maxInFlightSaveCount = 0;
+      mockSaveImageToCache.mockImplementation(async () => {
+        inFlightSaveCount++;
+        maxInFlightSaveCount = Math.max(maxInFlightSaveCount, inFlightSaveCount);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlightSaveCount--;
+        return { success: true };
+      });
+
+      await runPost();
+
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(3);
+      expect(maxInFlightSaveCount).toBe(1);
+    });
+
+    it('should warn about images that could not be saved', async () => {
+      mockGetDeferredSaveState.mockReturnValue({
+        containerRuntime: 'docker',
+        saveConcurrency: 0,
+        pendingSaves: [createPendingSave('nginx'), createPendingSave('redis')],
+      });
+      mockSaveImageToCache
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false, error: 'Failed to save image to tar: redis' });
+
+      await runPost();
+
+      expect(core.warning).toHaveBeenCalledWith('Failed to save image to tar: redis');
+      expect(core.info).toHaveBeenCalledWith('1 of 2 deferred images saved to cache');
+    });
+
+    it('should warn instead of failing on unexpected errors', async () => {
+      mockGetDeferredSaveState.mockImplementation(() => {
+        throw new Error('unexpected');
+      });
+
+      await runPost();
+
+      expect(core.warning).toHaveBeenCalledWith('Failed to save deferred images: unexpected');
+    });
+  });
+
+  describe('temporary files', () => {
+    it('should remove temporary files left behind by the main step', async () => {
+      mockGetTempFileState.mockReturnValue(['/tmp/nginx.tar', '/tmp/layer-store']);
+      mockGetDeferredSaveState.mockReturnValue(undefined);
+
+      await runPost();
+
+      expect(mockRemoveTempFiles).toHaveBeenCalledWith(['/tmp/nginx.tar', '/tmp/layer-store']);
+      expect(core.info).toHaveBeenCalledWith('Removing 2 temporary files left behind by the main step');
+    });
+
+    it('should keep temporary files when keep-temp-files is enabled', async () => {
+      mockGetTempFileState.mockReturnValue(['/tmp/nginx.tar']);
+      (core.getBooleanInput as jest.Mock).mockReturnValueOnce(true);
+      mockGetDeferredSaveState.mockReturnValue(undefined);
+
+      await runPost();
+
+      expect(core.getBooleanInput).toHaveBeenCalledWith('keep-temp-files');
+      expect(mockRemoveTempFiles).not.toHaveBeenCalled();
+      expect(mockRemoveTrackedTempFiles).not.toHaveBeenCalled();
+    });
+
+    it('should remove files written by the deferred saves after the saves', async () => {
+      mockGetDeferredSaveState.mockReturnValue({
+        containerRuntime: 'docker',
+        saveConcurrency: 0,
+        pendingSaves: [createPendingSave('nginx')],
+      });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await runPost();
+
+      expect(mockRemoveTrackedTempFiles).toHaveBeenCalledTimes(1);
+      expect(mockRemoveTrackedTempFiles.mock.invocationCallOrder[0]).toBeGreaterThan(
+        mockSaveImageToCache.mock.invocationCallOrder[0] as number
+      );
+    });
+
+    it('should remove temporary files when the deferred saves fail', async () => {
+      mockGetTempFileState.mockReturnValue(['/tmp/layer-store']);
+      mockGetDeferredSaveState.mockImplementation(() => {
+        throw new Error('unexpected');
+      });
+
+      await runPost();
+
+      expect(mockRemoveTempFiles).toHaveBeenCalledWith(['/tmp/layer-store']);
+      expect(mockRemoveTrackedTempFiles).toHaveBeenCalled();
+    });
+
+    it('should warn when removing temporary files fails', async () => {
+      mockGetTempFileState.mockReturnValue(['/tmp/nginx.tar']);
+      mockRemoveTempFiles.mockRejectedValueOnce(new Error('EBUSY'));
+      mockGetDeferredSaveState.mockReturnValue({
+        containerRuntime: 'docker',
+        saveConcurrency: 0,
+        pendingSaves: [createPendingSave('nginx')],
+      });
+      mockSaveImageToCache.mockResolvedValue({ success: true });
+
+      await runPost();
+
+      expect(core.warning).toHaveBeenCalledWith('Failed to remove temporary files: EBUSY');
+      expect(mockSaveImageToCache).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import * as core from '@actions/core';
+
+import {
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  type RetryPolicy,
+  setRetryPolicy,
+  withRetry,
+} from '../src/retry';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+}));
+
+describe('retry', () => {
+  const immediateRetryPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 0, maxDelayMs: 0 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRetryPolicy(immediateRetryPolicy);
+  });
+
+  afterAll(() => {
+    setRetryPolicy(DEFAULT_RETRY_POLICY);
+  });
+
+  describe('isRetryableError', () => {
+    it.each([
+      'toomanyrequests: You have reached your pull rate limit',
+      'unexpected status from HEAD request: 429 Too Many Requests',
+      'received unexpected HTTP status: 503 Service Unavailable',
+      'Error response from daemon: Get "https://registry-1.docker.io/v2/": net/http: TLS handshake timeout',
+      'read tcp 10.1.0.4:443: read: connection reset by peer',
+      'getaddrinfo EAI_AGAIN ghcr.io',
+    ])('should classify "%s" as transient', (errorMessage) => {
+      expect(isRetryableError(errorMessage)).toBe(true);
+    });
+
+    it.each([
+      'Error response from daemon: manifest for nginx:missing not found: manifest unknown',
+      'denied: requested access to the resource is denied',
+      'invalid reference format',
+      'docker pull nginx:latest timed out after 1800 s',
+      'docker pull nginx:latest was cancelled: the job was cancelled (SIGTERM)',
+      'docker load was not started: the job was cancelled (SIGINT)',
+    ])('should classify "%s" as permanent', (errorMessage) => {
+      expect(isRetryableError(errorMessage)).toBe(false);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    const retryPolicy: RetryPolicy = { maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 5000 };
+
+    it('should double the delay for each failed attempt', () => {
+      expect(computeRetryDelay(retryPolicy, 1, () => 1)).toBe(1000);
+      expect(computeRetryDelay(retryPolicy, 2, () => 1)).toBe(2000);
+      expect(computeRetryDelay(retryPolicy, 3, () => 1)).toBe(4000);
+    });
+
+    it('should randomize half of the delay', () => {
+      expect(computeRetryDelay(retryPolicy, 2, () => 0)).toBe(1000);
+      expect(computeRetryDelay(retryPolicy, 2, () => 0.5)).toBe(1500);
+    });
+
+    it('should cap the delay at the maximum', () => {
+      expect(computeRetryDelay(retryPolicy, 10, () => 1)).toBe(5000);
+    });
+  });
+
+  describe('withRetry', () => {
+    const getFailureMessage = (result: { exitCode: number; stderr: string }) =>
+      result.exitCode !== 0 ? result.stderr : undefined;
+
+    it('should run a successful operation once', async () => {
+      const operation = jest.fn().mockResolvedValue({ exitCode: 0, stderr: '' });
+
+      const result = await withRetry('docker pull nginx', operation, getFailureMessage);
+
+      expect(result).toEqual({ exitCode: 0, stderr: '' });
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient failures until the operation succeeds', async () => {
+      const operation = jest
+        .fn()
+        .mockResolvedValueOnce({ exitCode: 1, stderr: 'toomanyrequests: rate limit exceeded' })
+        .mockResolvedValueOnce({ exitCode: 0, stderr: '' });
+
+      const result = await withRetry('docker pull nginx', operation, getFailureMessage);
+
+      expect(result).toEqual({ exitCode: 0, stderr: '' });
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(core.info).toHaveBeenCalledWith(
+        'docker pull nginx failed with a transient error (attempt 1 of 3), retrying in 0ms: toomanyrequests: rate limit exceeded'
+      );
+    });
+
+    it('should return the last failed result once all attempts are used', async () => {
+      const operation = jest.fn().mockResolvedValue({ exitCode: 1, stderr: '503 Service Unavailable' });
+
+      const result = await withRetry('docker pull nginx', operation, getFailureMessage);
+
+      expect(result).toEqual({ exitCode: 1, stderr: '503 Service Unavailable' });
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry permanent failures', async () => {
+      const operation = jest.fn().mockResolvedValue({ exitCode: 1, stderr: 'manifest unknown' });
+
+      await withRetry('docker pull nginx', operation, getFailureMessage);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(core.info).not.toHaveBeenCalled();
+    });
+
+    it('should retry thrown transient errors and rethrow the last one', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('socket hang up: ECONNRESET'));
+
+      await expect(withRetry('Restoring cache key', operation)).rejects.toThrow('socket hang up: ECONNRESET');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should rethrow permanent errors without retrying', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('Key Validation Error'));
+
+      await expect(withRetry('Restoring cache key', operation)).rejects.toThrow('Key Validation Error');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the operation once when retries are disabled', async () => {
+      setRetryPolicy({ ...immediateRetryPolicy, maxAttempts: 1 });
+      const operation = jest.fn().mockResolvedValue({ exitCode: 1, stderr: '429 Too Many Requests' });
+
+      await withRetry('docker pull nginx', operation, getFailureMessage);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
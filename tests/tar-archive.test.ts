@@ -0,0 +1,126 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as fsPromises from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { extractTarEntry, readTarEntries, readTarEntryContent, writeTarArchive } from '../src/tar-archive';
+
+jest.mock('node:fs/promises', () => {
+  const actualFsPromises = jest.requireActual('node:fs/promises');
+  return { ...actualFsPromises, stat: jest.fn(actualFsPromises.stat) };
+});
+
+describe('tar-archive', () => {
+  let workspaceDirectory: string;
+
+  beforeAll(() => {
+    workspaceDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'tar-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(workspaceDirectory, { recursive: true, force: true });
+  });
+
+  describe('writeTarArchive and readTarEntries', () => {
+    it('should round trip files, directories and symbolic links', async () => {
+      const layerPath = path.join(workspaceDirectory, 'layer-source');
+      const layerData = Buffer.alloc(1500, 'a');
+      fs.writeFileSync(layerPath, layerData);
+      const archivePath = path.join(workspaceDirectory, 'round-trip.tar');
+
+      await writeTarArchive(archivePath, [
+        { name: 'blobs/', type: 'directory', mode: 0o755 },
+        { name: 'blobs/layer.tar', type: 'file', mode: 0o644, sourcePath: layerPath },
+        { name: 'manifest.json', type: 'file', mode: 0o644, content: Buffer.from('{"layers":[]}') },
+        { name: 'latest/layer.tar', type: 'symlink', mode: 0o777, linkName: '../blobs/layer.tar' },
+      ]);
+
+      const tarEntries = await readTarEntries(archivePath);
+      expect(tarEntries.map(({ name, type, mode, size }) => ({ name, type, mode, size }))).toEqual([
+        { name: 'blobs/', type: 'directory', mode: 0o755, size: 0 },
+        { name: 'blobs/layer.tar', type: 'file', mode: 0o644, size: 1500 },
+        { name: 'manifest.json', type: 'file', mode: 0o644, size: 13 },
+        { name: 'latest/layer.tar', type: 'symlink', mode: 0o777, size: 0 },
+      ]);
+      expect(tarEntries[3]?.linkName).toBe('../blobs/layer.tar');
+      // Entries and padding are block aligned, followed by two end-of-archive blocks
+      expect(fs.statSync(archivePath).size).toBe(512 * (1 + 1 + 3 + 1 + 1 + 1 + 2));
+    });
+
+    it('should round trip hard links', async () => {
+      const archivePath = path.join(workspaceDirectory, 'hard-link.tar');
+
+      await writeTarArchive(archivePath, [
+        { name: 'blobs/layer.tar', type: 'file', mode: 0o644, content: Buffer.from('layer') },
+        { name: 'latest/layer.tar', type: 'hardlink', mode: 0o644, linkName: 'blobs/layer.tar' },
+      ]);
+
+      const tarEntries = await readTarEntries(archivePath);
+      expect(tarEntries[1]).toEqual(
+        expect.objectContaining({ name: 'latest/layer.tar', type: 'hardlink', size: 0, linkName: 'blobs/layer.tar' })
+      );
+      // Hard links are written with type flag '1'
+      expect(fs.readFileSync(archivePath).toString('ascii', 1024 + 156, 1024 + 157)).toBe('1');
+    });
+
+    it('should write sizes that do not fit in octal notation in base-256 notation', async () => {
+      const sourcePath = path.join(workspaceDirectory, 'large-source');
+      fs.writeFileSync(sourcePath, 'data');
+      const largeSize = 8 * 1024 ** 3;
+      // Only the header is checked, so the source file does not need to be that large
+      (fsPromises.stat as jest.Mock).mockResolvedValueOnce({ size: largeSize });
+      const archivePath = path.join(workspaceDirectory, 'large.tar');
+
+      await writeTarArchive(archivePath, [{ name: 'large', type: 'file', mode: 0o644, sourcePath }]);
+
+      const archiveData = fs.readFileSync(archivePath);
+      expect(archiveData[124]).toBe(0x80);
+      expect((await readTarEntries(archivePath))[0]?.size).toBe(largeSize);
+    });
+
+    it('should round trip names longer than the ustar name field', async () => {
+      const longName = `blobs/sha256/${'b'.repeat(120)}`;
+      const archivePath = path.join(workspaceDirectory, 'long-name.tar');
+
+      await writeTarArchive(archivePath, [{ name: longName, type: 'file', mode: 0o644, content: Buffer.from('data') }]);
+
+      const tarEntries = await readTarEntries(archivePath);
+      expect(tarEntries).toHaveLength(1);
+      expect(tarEntries[0]?.name).toBe(longName);
+      expect(tarEntries[0] && (await readTarEntryContent(archivePath, tarEntries[0])).toString()).toBe('data');
+    });
+
+    it('should throw for unsupported entry types', async () => {
+      const archivePath = path.join(workspaceDirectory, 'unsupported.tar');
+      await writeTarArchive(archivePath, [{ name: 'device', type: 'file', mode: 0o644, content: Buffer.from('') }]);
+      // Turn the entry into a character device and fix up the header checksum
+      const archiveData = fs.readFileSync(archivePath);
+      archiveData.write('3', 156, 'ascii');
+      archiveData.fill(0x20, 148, 156);
+      const checksum = archiveData.subarray(0, 512).reduce((sum, byte) => sum + byte, 0);
+      archiveData.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+      fs.writeFileSync(archivePath, archiveData);
+
+      await expect(readTarEntries(archivePath)).rejects.toThrow("Unsupported tar entry type '3' for device");
+    });
+  });
+
+  describe('extractTarEntry', () => {
+    it('should copy entry data and return its SHA-256 digest', async () => {
+      const archivePath = path.join(workspaceDirectory, 'extract.tar');
+      const entryData = Buffer.from('layer content');
+      await writeTarArchive(archivePath, [
+        { name: 'first', type: 'file', mode: 0o644, content: Buffer.from('other') },
+        { name: 'second', type: 'file', mode: 0o644, content: entryData },
+      ]);
+      const tarEntries = await readTarEntries(archivePath);
+      const outputPath = path.join(workspaceDirectory, 'extracted');
+
+      const digest = tarEntries[1] && (await extractTarEntry(archivePath, tarEntries[1], outputPath));
+
+      expect(digest).toBe(createHash('sha256').update(entryData).digest('hex'));
+      expect(fs.readFileSync(outputPath)).toEqual(entryData);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+import { saveTempFileState } from '../src/action-state';
+import { removeTempFiles, removeTrackedTempFiles, trackTempFiles } from '../src/temp-files';
+
+jest.mock('@actions/core', () => ({
+  info: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('../src/action-state', () => ({
+  saveTempFileState: jest.fn(),
+}));
+
+describe('temp-files', () => {
+  const mockSaveTempFileState = saveTempFileState as jest.Mock;
+  let workspaceDirectory: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workspaceDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'temp-files-'));
+  });
+
+  afterEach(async () => {
+    await removeTrackedTempFiles();
+    fs.rmSync(workspaceDirectory, { recursive: true, force: true });
+  });
+
+  describe('trackTempFiles', () => {
+    it('should record tracked files in the action state', () => {
+      trackTempFiles(['/tmp/nginx.tar']);
+      trackTempFiles(['/tmp/nginx-manifest.json', '/tmp/nginx.tar']);
+
+      expect(mockSaveTempFileState).toHaveBeenLastCalledWith(['/tmp/nginx.tar', '/tmp/nginx-manifest.json']);
+    });
+  });
+
+  describe('removeTempFiles', () => {
+    it('should remove files and stop tracking them', async () => {
+      const archivePath = path.join(workspaceDirectory, 'nginx.tar');
+      const manifestPath = path.join(workspaceDirectory, 'nginx-manifest.json');
+      fs.writeFileSync(archivePath, 'archive');
+      fs.writeFileSync(manifestPath, '{}');
+      trackTempFiles([archivePath, manifestPath]);
+
+      await removeTempFiles([archivePath]);
+
+      expect(fs.existsSync(archivePath)).toBe(false);
+      expect(fs.existsSync(manifestPath)).toBe(true);
+      expect(mockSaveTempFileState).toHaveBeenLastCalledWith([manifestPath]);
+    });
+
+    it('should remove directories with their contents and ignore missing files', async () => {
+      const layerStoreDirectory = path.join(workspaceDirectory, 'layer-store');
+      fs.mkdirSync(layerStoreDirectory);
+      fs.writeFileSync(path.join(layerStoreDirectory, 'blob'), 'layer');
+
+      await removeTempFiles([layerStoreDirectory, path.join(workspaceDirectory, 'missing.tar')]);
+
+      expect(fs.existsSync(layerStoreDirectory)).toBe(false);
+    });
+  });
+
+  describe('removeTrackedTempFiles', () => {
+    it('should remove all tracked files', async () => {
+      const archivePaths = ['nginx.tar', 'redis.tar'].map((fileName) => path.join(workspaceDirectory, fileName));
+      for (const archivePath of archivePaths) {
+        fs.writeFileSync(archivePath, 'archive');
+      }
+      trackTempFiles(archivePaths);
+
+      await removeTrackedTempFiles();
+
+      expect(archivePaths.filter((archivePath) => fs.existsSync(archivePath))).toEqual([]);
+      expect(mockSaveTempFileState).toHaveBeenLastCalledWith([]);
+    });
+  });
+});